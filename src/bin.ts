@@ -0,0 +1,5 @@
+#!/usr/bin/env node
+import ts from "typescript";
+import { runManifestCli } from "./cli.js";
+
+ts.sys.exit(runManifestCli(ts.sys.args));
@@ -0,0 +1,70 @@
+import ts from "typescript";
+import { writeAnnotationManifest } from "./utils/manifest-generator.js";
+
+const USAGE = `Usage: react-render-types-manifest [options]
+
+Write a render-types.json annotation manifest for a component library.
+
+Options:
+  -p, --project <path>            tsconfig.json of the library (default: tsconfig.json)
+  -o, --out <path>                Output file (default: render-types.json next to package.json)
+  -e, --entry <specifier>=<path>  Entry module for a specifier; repeatable
+                                  (default: package.json "exports", "types" and "main")
+  -h, --help                      Show this help
+`;
+
+/**
+ * Run the manifest CLI with the given arguments (without node and the script).
+ * Output goes through ts.sys; returns the process exit code.
+ */
+export function runManifestCli(args: string[]): number {
+  let project = "tsconfig.json";
+  let outFile: string | undefined;
+  let entries: Record<string, string> | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const value = args[i + 1];
+
+    if (arg === "-h" || arg === "--help") {
+      ts.sys.write(USAGE);
+      return 0;
+    }
+
+    if (value === undefined || !["-p", "--project", "-o", "--out", "-e", "--entry"].includes(arg)) {
+      ts.sys.write(`Unknown or incomplete option: ${arg}\n\n${USAGE}`);
+      return 1;
+    }
+    i++;
+
+    if (arg === "-p" || arg === "--project") {
+      project = value;
+    } else if (arg === "-o" || arg === "--out") {
+      outFile = value;
+    } else {
+      const separator = value.lastIndexOf("=");
+      if (separator <= 0) {
+        ts.sys.write(`Invalid entry "${value}", expected <specifier>=<path>\n`);
+        return 1;
+      }
+      entries = { ...entries, [value.slice(0, separator)]: value.slice(separator + 1) };
+    }
+  }
+
+  try {
+    const result = writeAnnotationManifest({ project, outFile, entries });
+    for (const warning of result.warnings) {
+      ts.sys.write(`warning: ${warning}\n`);
+    }
+
+    const componentCount = Object.values(result.manifest).reduce(
+      (count, components) => count + Object.keys(components).length,
+      0
+    );
+    ts.sys.write(`Wrote ${componentCount} annotated component(s) to ${result.outFile}\n`);
+    return 0;
+  } catch (error) {
+    ts.sys.write(`error: ${error instanceof Error ? error.message : String(error)}\n`);
+    return 1;
+  }
+}
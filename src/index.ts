@@ -22,8 +22,16 @@ Object.assign(plugin.configs, {
       "react-render-types/valid-render-return": "error",
       "react-render-types/valid-render-prop": "error",
       "react-render-types/valid-renders-jsdoc": "warn",
+      "react-render-types/valid-transparent-annotation": "warn",
+      "react-render-types/no-circular-renders": "error",
+      // Disabled by default - rewrites modifiers to match what components return
+      "react-render-types/consistent-renders-modifier": "off",
+      // Disabled by default - allowed files depend on the project
+      "react-render-types/restrict-unchecked-renders": "off",
       // Disabled by default - useful for design system folders
       "react-render-types/require-renders-annotation": "off",
+      // Disabled by default - enable for component libraries alongside require-renders-annotation
+      "react-render-types/require-slot-annotation": "off",
       // Marks components in @renders as used to prevent no-unused-vars errors
       "react-render-types/renders-uses-vars": "error",
     } satisfies Record<`react-render-types/${RuleKey}`, TSESLint.Linter.RuleLevel>,
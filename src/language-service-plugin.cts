@@ -19,6 +19,7 @@
  */
 
 import type ts from "typescript/lib/tsserverlibrary";
+import { getTypeReferences, parseRendersAnnotations } from "./utils/annotation-grammar.cjs";
 
 interface RendersComponentSpan {
   name: string; // base name before first "." (import lookup key)
@@ -42,17 +43,9 @@ const UNUSED_DIAGNOSTIC_CODES = new Set([
  * and all modifiers (@renders?, @renders*, @renders!).
  */
 function getRendersComponentNames(sourceText: string): Set<string> {
-  const regex = /(?:^|[^a-zA-Z@])@renders(?:\?|\*)?(?:!)?\s*\{\s*([^}]+)\s*\}/g;
   const names = new Set<string>();
-  let match: RegExpExecArray | null;
-  while ((match = regex.exec(sourceText)) !== null) {
-    const typeExpr = match[1];
-    for (const part of typeExpr.split("|")) {
-      const name = part.trim().split(".")[0]; // Menu.Item → Menu
-      if (name && /^[A-Z]/.test(name)) {
-        names.add(name);
-      }
-    }
+  for (const span of getRendersComponentSpans(sourceText)) {
+    names.add(span.name); // Menu.Item → Menu
   }
   return names;
 }
@@ -60,35 +53,19 @@ function getRendersComponentNames(sourceText: string): Set<string> {
 /**
  * Like getRendersComponentNames, but tracks the absolute position of each
  * component name in the source text so we can map cursor positions back.
+ * Uses the shared annotation grammar, so references in an annotation that is
+ * still being typed (e.g. "{Header | }") keep their spans.
  */
 function getRendersComponentSpans(sourceText: string): RendersComponentSpan[] {
-  const regex = /(?:^|[^a-zA-Z@])@renders(?:\?|\*)?(?:!)?\s*\{\s*([^}]+)\s*\}/g;
   const spans: RendersComponentSpan[] = [];
-  let match: RegExpExecArray | null;
-  while ((match = regex.exec(sourceText)) !== null) {
-    const typeExpr = match[1];
-    // match[1] starts at this absolute offset in the source
-    const typeExprStart = match.index + match[0].indexOf(typeExpr);
-
-    let offset = 0;
-    for (const part of typeExpr.split("|")) {
-      // offset within typeExpr where this part starts (including the "|")
-      const partStart = typeExpr.indexOf(part, offset);
-      const trimmed = part.trimStart();
-      const leadingSpaces = part.length - trimmed.length;
-      const fullName = trimmed.trimEnd();
-
-      if (fullName && /^[A-Z]/.test(fullName)) {
-        const absoluteStart = typeExprStart + partStart + leadingSpaces;
-        spans.push({
-          name: fullName.split(".")[0],
-          fullName,
-          start: absoluteStart,
-          length: fullName.length,
-        });
-      }
-
-      offset = partStart + part.length;
+  for (const result of parseRendersAnnotations(sourceText)) {
+    for (const reference of result.references) {
+      spans.push({
+        name: reference.segments[0].name,
+        fullName: reference.name,
+        start: reference.start,
+        length: reference.end - reference.start,
+      });
     }
   }
   return spans;
@@ -136,7 +113,7 @@ function findImportIdentifierPosition(
 }
 
 /**
- * Find the position of a local declaration (function or variable) matching targetName.
+ * Find the position of a local declaration (function, class or variable) matching targetName.
  * Fallback for components defined in the same file as the @renders annotation.
  */
 function findLocalDeclarationPosition(
@@ -145,8 +122,11 @@ function findLocalDeclarationPosition(
   tsModule: typeof ts,
 ): number | null {
   for (const stmt of sourceFile.statements) {
-    // function Header() { ... }
-    if (tsModule.isFunctionDeclaration(stmt) && stmt.name?.text === targetName) {
+    // function Header() { ... } / class Header extends React.Component { ... }
+    if (
+      (tsModule.isFunctionDeclaration(stmt) || tsModule.isClassDeclaration(stmt)) &&
+      stmt.name?.text === targetName
+    ) {
       return stmt.name.getStart(sourceFile);
     }
 
@@ -175,19 +155,15 @@ function getRendersCompletionContext(
   sourceText: string,
   position: number,
 ): RendersCompletionContext | null {
-  const regex = /(?:^|[^a-zA-Z@])@renders(?:\?|\*)?(?:!)?\s*\{/g;
-  let match: RegExpExecArray | null;
-  while ((match = regex.exec(sourceText)) !== null) {
-    const braceOpen = match.index + match[0].length - 1; // position of "{"
-    // Find the matching closing brace
-    const braceClose = sourceText.indexOf("}", braceOpen + 1);
-    if (braceClose === -1) continue;
-
-    if (position > braceOpen && position <= braceClose) {
+  for (const result of parseRendersAnnotations(sourceText)) {
+    const body = result.body;
+    if (!body) continue;
+
+    if (position >= body.start && position <= body.end) {
       // Cursor is inside braces — find the start of the current segment
-      const inner = sourceText.substring(braceOpen + 1, position);
+      const inner = sourceText.substring(body.start, position);
       const lastPipe = inner.lastIndexOf("|");
-      const segmentStart = lastPipe !== -1 ? braceOpen + 1 + lastPipe + 1 : braceOpen + 1;
+      const segmentStart = lastPipe !== -1 ? body.start + lastPipe + 1 : body.start;
       const raw = sourceText.substring(segmentStart, position);
       const prefix = raw.trimStart();
       const prefixStart = segmentStart + (raw.length - prefix.length);
@@ -250,6 +226,10 @@ function getComponentSymbols(
       add(stmt.name.text, "function" /* ScriptElementKind.functionElement */);
     }
 
+    if (tsModule.isClassDeclaration(stmt) && stmt.name) {
+      add(stmt.name.text, "class" /* ScriptElementKind.classElement */);
+    }
+
     if (tsModule.isVariableStatement(stmt)) {
       for (const decl of stmt.declarationList.declarations) {
         if (tsModule.isIdentifier(decl.name)) {
@@ -326,47 +306,34 @@ function formatRendersTag(
 
   const rawText = tag.text.map((p) => p.text).join("");
 
-  // Extract modifier from tag name (e.g. "renders?" → "?") or text prefix
-  let modifier = "";
-  let name = tag.name;
-  const nameModifierMatch = name.match(/^renders([?*]?!?)$/);
-  if (nameModifierMatch && nameModifierMatch[1]) {
-    modifier = nameModifierMatch[1];
-  } else {
-    const textModifierMatch = rawText.match(/^([?*]!?|!)\s*\{/);
-    if (textModifierMatch && textModifierMatch[1]) {
-      modifier = textModifierMatch[1];
-      // Move modifier into the tag name so it stays visible as @renders?
-      name = `renders${modifier}`;
-    }
-  }
+  // Reassemble the tag ("renders?" + "{Header}", or "renders" + "? {Header}")
+  // and run it through the shared annotation grammar
+  const tagText = `@${tag.name}${/^[?*!]/.test(rawText) ? "" : " "}${rawText}`;
+  const annotation = parseRendersAnnotations(tagText)[0]?.annotation;
+  if (!annotation) return null;
 
-  // Extract type content from braces
-  const contentMatch = rawText.match(/[?*]*!?\s*\{\s*([^}]+)\s*\}/);
-  if (!contentMatch) return null;
+  // Keep the modifier in the tag name so it stays visible as @renders?
+  const modifierEnd = annotation.uncheckedSpan?.end ?? annotation.modifierSpan?.end ?? annotation.tag.end;
+  const modifier = tagText.slice(annotation.tag.end, modifierEnd);
+  const name = `renders${modifier}`;
 
-  const typeContent = contentMatch[1].trim();
   const parts: ts.SymbolDisplayPart[] = [];
 
-  const typeNames = typeContent.split("|");
-  typeNames.forEach((typeName, i) => {
-    const trimmed = typeName.trim();
-    if (!trimmed) return;
+  getTypeReferences(annotation.typeExpression).forEach((reference, i) => {
     if (i > 0) {
       parts.push({ kind: "text", text: " | " });
     }
 
-    const baseName = trimmed.split(".")[0];
-    const target = resolveDefinition?.(baseName);
+    const target = resolveDefinition?.(reference.segments[0].name);
     if (target) {
       // VS Code's convertLinkTags state machine requires link/linkName/link triplet.
       // Using {@linkcode} wraps the link text in backticks for code styling.
       parts.push({ kind: "link", text: "{@linkcode " });
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      (parts as any[]).push({ kind: "linkName", text: trimmed, target });
+      (parts as any[]).push({ kind: "linkName", text: reference.name, target });
       parts.push({ kind: "link", text: "}" });
     } else {
-      parts.push({ kind: "text", text: `\`${trimmed}\`` });
+      parts.push({ kind: "text", text: `\`${reference.name}\`` });
     }
   });
 
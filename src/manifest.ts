@@ -0,0 +1,9 @@
+export {
+  generateAnnotationManifest,
+  writeAnnotationManifest,
+} from "./utils/manifest-generator.js";
+export type {
+  GenerateManifestOptions,
+  GenerateManifestResult,
+} from "./utils/manifest-generator.js";
+export type { AnnotationManifestJSON, ManifestEntryJSON } from "./types/index.js";
@@ -0,0 +1,132 @@
+import type { TSESLint, TSESTree } from "@typescript-eslint/utils";
+import { createRule } from "../utils/create-rule.js";
+import { DEFAULT_EXPORT_NAME, getClassRenderFunction } from "../utils/component-utils.js";
+import {
+  formatRendersAnnotation,
+  formatRendersTag,
+  parseRendersAnnotations,
+} from "../utils/annotation-grammar.cjs";
+import type { RendersAnnotationNode } from "../utils/annotation-grammar.cjs";
+import { getFileAnalysis } from "../utils/file-analysis.js";
+import { describeCardinality, isModifierAssignable } from "../utils/render-chain.js";
+import { inferComponentReturnModifier } from "../utils/return-cardinality.js";
+
+type MessageIds = "widenModifier" | "narrowModifier" | "useModifier";
+
+type Options = [
+  {
+    /** Which mismatches to report: modifiers narrower than the returns, wider, or both */
+    direction?: "widen" | "narrow" | "both";
+  },
+];
+
+export default createRule<Options, MessageIds>({
+  name: "consistent-renders-modifier",
+  meta: {
+    type: "suggestion",
+    docs: {
+      description:
+        "Require the @renders modifier to match the cardinality of what the component returns",
+    },
+    fixable: "code",
+    hasSuggestions: true,
+    messages: {
+      widenModifier:
+        "Component '{{componentName}}' renders {{inferredCardinality}} `{{expected}}`, but `{{annotation}}` declares {{declaredCardinality}}. Use `{{replacement}}`.",
+      narrowModifier:
+        "Component '{{componentName}}' always renders {{inferredCardinality}} `{{expected}}`, so `{{annotation}}` can be narrowed to `{{replacement}}`.",
+      useModifier: "Change the annotation to `{{replacement}}`.",
+    },
+    schema: [
+      {
+        type: "object",
+        properties: {
+          direction: {
+            type: "string",
+            enum: ["widen", "narrow", "both"],
+          },
+        },
+        additionalProperties: false,
+      },
+    ],
+  },
+  defaultOptions: [{ direction: "both" }],
+  create(context, [{ direction = "both" }]) {
+    const sourceCode = context.sourceCode;
+    const analysis = getFileAnalysis(context);
+
+    /**
+     * Find the first well-formed @renders annotation in a comment, with the
+     * offset of the parsed text in the source
+     */
+    function findAnnotation(
+      comment: TSESTree.Comment
+    ): { annotation: RendersAnnotationNode; base: number } | null {
+      const text = comment.type === "Block" ? `/*${comment.value}*/` : comment.value;
+      const base = comment.type === "Block" ? comment.range[0] : comment.range[0] + 2;
+
+      for (const result of parseRendersAnnotations(text)) {
+        if (result.annotation) {
+          return { annotation: result.annotation, base };
+        }
+      }
+      return null;
+    }
+
+    return {
+      "Program:exit"() {
+        for (const { node, name, renders, rendersComment } of analysis.getLocalComponents()) {
+          // Returns of @renders! components aren't analyzable by definition
+          if (!renders || !rendersComment || renders.unchecked) continue;
+
+          const renderFunction =
+            node.type === "ClassDeclaration" || node.type === "ClassExpression"
+              ? getClassRenderFunction(node)
+              : node;
+          if (!renderFunction) continue;
+
+          const inferred = inferComponentReturnModifier(analysis, renderFunction, name, renders);
+          if (!inferred || inferred === renders.modifier) continue;
+
+          const widen = !isModifierAssignable(inferred, renders.modifier);
+          if ((widen && direction === "narrow") || (!widen && direction === "widen")) continue;
+
+          const found = findAnnotation(rendersComment);
+          if (!found) continue;
+
+          const { annotation, base } = found;
+          const tagEnd = (annotation.uncheckedSpan ?? annotation.modifierSpan ?? annotation.tag).end;
+          const range: TSESTree.Range = [base + annotation.tag.start, base + tagEnd];
+          const replacement = formatRendersAnnotation(inferred, false, renders.componentNames);
+          const fix = (fixer: TSESLint.RuleFixer): TSESLint.RuleFix =>
+            fixer.replaceTextRange(range, formatRendersTag(inferred, annotation.unchecked));
+
+          const data = {
+            componentName: name === DEFAULT_EXPORT_NAME ? "default export" : name,
+            expected: renders.componentNames.join(" | "),
+            annotation: renders.raw,
+            replacement,
+            declaredCardinality: describeCardinality(renders.modifier),
+            inferredCardinality: describeCardinality(inferred),
+          };
+          const loc = {
+            start: sourceCode.getLocFromIndex(range[0]),
+            end: sourceCode.getLocFromIndex(range[1]),
+          };
+
+          // Narrowing never breaks a usage; widening may, so it's only suggested
+          if (widen) {
+            context.report({
+              loc,
+              messageId: "widenModifier",
+              data,
+              suggest: [{ messageId: "useModifier", data: { replacement }, fix }],
+            });
+          } else {
+            context.report({ loc, messageId: "narrowModifier", data, fix });
+          }
+        }
+      },
+    };
+  },
+});
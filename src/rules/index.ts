@@ -3,6 +3,11 @@ import validRenderProp from "./valid-render-prop.js";
 import validRendersJsdoc from "./valid-renders-jsdoc.js";
 import requireRendersAnnotation from "./require-renders-annotation.js";
 import rendersUsesVars from "./renders-uses-vars.js";
+import validTransparentAnnotation from "./valid-transparent-annotation.js";
+import noCircularRenders from "./no-circular-renders.js";
+import consistentRendersModifier from "./consistent-renders-modifier.js";
+import restrictUncheckedRenders from "./restrict-unchecked-renders.js";
+import requireSlotAnnotation from "./require-slot-annotation.js";
 
 export const rules = {
   "valid-render-return": validRenderReturn,
@@ -10,4 +15,9 @@ export const rules = {
   "valid-renders-jsdoc": validRendersJsdoc,
   "require-renders-annotation": requireRendersAnnotation,
   "renders-uses-vars": rendersUsesVars,
+  "valid-transparent-annotation": validTransparentAnnotation,
+  "no-circular-renders": noCircularRenders,
+  "consistent-renders-modifier": consistentRendersModifier,
+  "restrict-unchecked-renders": restrictUncheckedRenders,
+  "require-slot-annotation": requireSlotAnnotation,
 };
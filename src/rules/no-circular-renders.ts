@@ -0,0 +1,70 @@
+import type { TSESTree } from "@typescript-eslint/utils";
+import { createRule } from "../utils/create-rule.js";
+import { getTypeReferences, parseRendersAnnotations } from "../utils/annotation-grammar.cjs";
+import { getFileAnalysis } from "../utils/file-analysis.js";
+import { findRenderCycles } from "../utils/render-chain.js";
+
+type MessageIds = "circularRenders";
+
+export default createRule<[], MessageIds>({
+  name: "no-circular-renders",
+  meta: {
+    type: "problem",
+    docs: {
+      description: "Disallow @renders chains that lead back to the component they start from",
+    },
+    messages: {
+      circularRenders: "Circular @renders chain: {{path}}.",
+    },
+    schema: [],
+  },
+  defaultOptions: [],
+  create(context) {
+    const sourceCode = context.sourceCode;
+    const analysis = getFileAnalysis(context);
+
+    /**
+     * Get the location of a member inside a @renders comment, or of the
+     * whole comment when the member came from a type alias
+     */
+    function getMemberLoc(comment: TSESTree.Comment, member: string): TSESTree.SourceLocation {
+      const text = comment.type === "Block" ? `/*${comment.value}*/` : comment.value;
+      const base = comment.type === "Block" ? comment.range[0] : comment.range[0] + 2;
+
+      for (const result of parseRendersAnnotations(text)) {
+        if (!result.annotation) continue;
+        const reference = getTypeReferences(result.annotation.typeExpression).find(
+          ({ name }) => name === member
+        );
+        if (reference) {
+          return {
+            start: sourceCode.getLocFromIndex(base + reference.start),
+            end: sourceCode.getLocFromIndex(base + reference.end),
+          };
+        }
+        break;
+      }
+
+      return comment.loc;
+    }
+
+    return {
+      "Program:exit"() {
+        const renderMap = analysis.getResolvedRenderMap();
+
+        for (const { name, rendersComment } of analysis.getLocalComponents()) {
+          if (!rendersComment) continue;
+
+          const typeId = analysis.getComponentTypeId(name) ?? name;
+          for (const { member, path } of findRenderCycles(typeId, renderMap)) {
+            context.report({
+              loc: getMemberLoc(rendersComment, member),
+              messageId: "circularRenders",
+              data: { path: path.join(" → ") },
+            });
+          }
+        }
+      },
+    };
+  },
+});
@@ -2,7 +2,13 @@ import type { TSESTree } from "@typescript-eslint/utils";
 import { ESLintUtils } from "@typescript-eslint/utils";
 import { createRule } from "../utils/create-rule.js";
 import { parseRendersAnnotation } from "../utils/jsdoc-parser.js";
-import { isComponentName, getWrappingVariableDeclarator } from "../utils/component-utils.js";
+import {
+  DEFAULT_EXPORT_NAME,
+  getDefaultExportDeclaration,
+  getWrappingVariableDeclarator,
+  isComponentName,
+  isCreateElementCall,
+} from "../utils/component-utils.js";
 import { getPluginSettings } from "../utils/settings.js";
 
 type MessageIds = "missingRendersAnnotation";
@@ -12,6 +18,18 @@ type FunctionNode =
   | TSESTree.FunctionExpression
   | TSESTree.ArrowFunctionExpression;
 
+/**
+ * Check if an expression creates a React element: JSX syntax,
+ * createElement(...) or a jsx-runtime call
+ */
+function isElementExpression(node: TSESTree.Node): boolean {
+  return (
+    node.type === "JSXElement" ||
+    node.type === "JSXFragment" ||
+    (node.type === "CallExpression" && isCreateElementCall(node))
+  );
+}
+
 /**
  * Check if a function body contains JSX returns (making it a React component)
  */
@@ -21,9 +39,7 @@ function hasJSXReturn(node: FunctionNode): boolean {
     node.type === "ArrowFunctionExpression" &&
     node.body.type !== "BlockStatement"
   ) {
-    return (
-      node.body.type === "JSXElement" || node.body.type === "JSXFragment"
-    );
+    return isElementExpression(node.body);
   }
 
   // Function with block body - check for JSX returns
@@ -44,33 +60,20 @@ function hasJSXReturn(node: FunctionNode): boolean {
  */
 function containsJSXReturn(node: TSESTree.Node): boolean {
   if (node.type === "ReturnStatement" && node.argument) {
-    if (
-      node.argument.type === "JSXElement" ||
-      node.argument.type === "JSXFragment"
-    ) {
+    if (isElementExpression(node.argument)) {
       return true;
     }
     // Check for conditional JSX: condition ? <A /> : <B />
     if (node.argument.type === "ConditionalExpression") {
       const { consequent, alternate } = node.argument;
-      if (
-        consequent.type === "JSXElement" ||
-        consequent.type === "JSXFragment" ||
-        alternate.type === "JSXElement" ||
-        alternate.type === "JSXFragment"
-      ) {
+      if (isElementExpression(consequent) || isElementExpression(alternate)) {
         return true;
       }
     }
     // Check for logical expression: condition && <A />
     if (node.argument.type === "LogicalExpression") {
       const { left, right } = node.argument;
-      if (
-        left.type === "JSXElement" ||
-        left.type === "JSXFragment" ||
-        right.type === "JSXElement" ||
-        right.type === "JSXFragment"
-      ) {
+      if (isElementExpression(left) || isElementExpression(right)) {
         return true;
       }
     }
@@ -155,7 +158,8 @@ export default createRule<[], MessageIds>({
         return wrapper.id.type === "Identifier" ? wrapper.id.name : null;
       }
 
-      return null;
+      // For anonymous default exports: export default () => ..., export default memo(() => ...)
+      return getDefaultExportDeclaration(node, additionalComponentWrappers) ? DEFAULT_EXPORT_NAME : null;
     }
 
     /**
@@ -174,7 +178,7 @@ export default createRule<[], MessageIds>({
       let nodeToCheck: TSESTree.Node =
         varDeclarator?.parent?.type === "VariableDeclaration"
           ? varDeclarator.parent
-          : node;
+          : getDefaultExportDeclaration(node, additionalComponentWrappers) ?? node;
 
       // For exported declarations, the JSDoc sits before `export`, not the
       // inner declaration — walk up to ExportNamedDeclaration / ExportDefaultDeclaration
@@ -204,8 +208,8 @@ export default createRule<[], MessageIds>({
     function checkComponent(node: FunctionNode): void {
       const componentName = getComponentName(node);
 
-      // Not a component if it doesn't have a PascalCase name
-      if (!componentName || !isComponentName(componentName)) {
+      // Not a component if it doesn't have a PascalCase name or isn't a default export
+      if (!componentName || (componentName !== DEFAULT_EXPORT_NAME && !isComponentName(componentName))) {
         return;
       }
 
@@ -229,7 +233,7 @@ export default createRule<[], MessageIds>({
           node: reportNode,
           messageId: "missingRendersAnnotation",
           data: {
-            componentName,
+            componentName: componentName === DEFAULT_EXPORT_NAME ? "default export" : componentName,
           },
         });
       }
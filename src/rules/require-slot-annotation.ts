@@ -0,0 +1,64 @@
+import { createRule } from "../utils/create-rule.js";
+import { DEFAULT_EXPORT_NAME } from "../utils/component-utils.js";
+import { getFileAnalysis } from "../utils/file-analysis.js";
+
+type MessageIds = "missingSlotAnnotation";
+
+type Options = [
+  {
+    /** Prop types that count as slots, matched by name (`ReactNode` also matches `React.ReactNode`) */
+    slotTypes?: string[];
+  },
+];
+
+const DEFAULT_SLOT_TYPES = ["ReactNode", "ReactElement", "JSX.Element"];
+
+export default createRule<Options, MessageIds>({
+  name: "require-slot-annotation",
+  meta: {
+    type: "suggestion",
+    docs: {
+      description:
+        "Require @renders or @renders-any on the slot props of exported components",
+    },
+    messages: {
+      missingSlotAnnotation:
+        "Slot prop '{{propName}}' of '{{componentName}}' is missing a @renders annotation. Use @renders-any if it accepts any content.",
+    },
+    schema: [
+      {
+        type: "object",
+        properties: {
+          slotTypes: {
+            type: "array",
+            items: { type: "string" },
+          },
+        },
+        additionalProperties: false,
+      },
+    ],
+  },
+  defaultOptions: [{ slotTypes: DEFAULT_SLOT_TYPES }],
+  create(context, [{ slotTypes = DEFAULT_SLOT_TYPES }]) {
+    const sourceCode = context.sourceCode;
+    const analysis = getFileAnalysis(context);
+
+    return {
+      "Program:exit"() {
+        for (const { componentName, propName, range } of analysis.resolver.getUnannotatedSlotProps(slotTypes)) {
+          context.report({
+            loc: {
+              start: sourceCode.getLocFromIndex(range[0]),
+              end: sourceCode.getLocFromIndex(range[1]),
+            },
+            messageId: "missingSlotAnnotation",
+            data: {
+              propName,
+              componentName: componentName === DEFAULT_EXPORT_NAME ? "default export" : componentName,
+            },
+          });
+        }
+      },
+    };
+  },
+});
@@ -0,0 +1,140 @@
+import type { TSESLint, TSESTree } from "@typescript-eslint/utils";
+import { createRule } from "../utils/create-rule.js";
+import { DEFAULT_EXPORT_NAME, getClassRenderFunction } from "../utils/component-utils.js";
+import { parseRendersAnnotations } from "../utils/annotation-grammar.cjs";
+import { getFileAnalysis } from "../utils/file-analysis.js";
+import { matchesAnyGlob } from "../utils/glob.js";
+import { isModifierAssignable } from "../utils/render-chain.js";
+import { inferComponentReturnModifier } from "../utils/return-cardinality.js";
+
+type MessageIds = "uncheckedNotAllowed" | "unnecessaryUnchecked" | "removeUnchecked";
+
+type Options = [
+  {
+    /** Globs of files where @renders! is allowed without a justification */
+    allowedFiles?: string[];
+  },
+];
+
+/**
+ * A justification follows the annotation on the same line: `@renders! {X} -- reason`
+ */
+const JUSTIFICATION_PATTERN = /^(\s*--\s*(?!\*\/)\S.*?)\s*(?:\*\/)?\s*$/;
+
+export default createRule<Options, MessageIds>({
+  name: "restrict-unchecked-renders",
+  meta: {
+    type: "suggestion",
+    docs: {
+      description:
+        "Restrict @renders! to allow-listed files or justified annotations, and flag ones that are no longer needed",
+    },
+    hasSuggestions: true,
+    messages: {
+      uncheckedNotAllowed:
+        "`{{annotation}}` on '{{componentName}}' skips return validation. Add a justification (`{{annotation}} -- reason`) or move the component to an allowed file.",
+      unnecessaryUnchecked:
+        "'{{componentName}}' returns pass validation against `{{annotation}}`, so the `!` can be removed.",
+      removeUnchecked: "Remove the `!` from the annotation.",
+    },
+    schema: [
+      {
+        type: "object",
+        properties: {
+          allowedFiles: {
+            type: "array",
+            items: { type: "string" },
+          },
+        },
+        additionalProperties: false,
+      },
+    ],
+  },
+  defaultOptions: [{ allowedFiles: [] }],
+  create(context, [{ allowedFiles = [] }]) {
+    const sourceCode = context.sourceCode;
+    const analysis = getFileAnalysis(context);
+    const fileAllowed = matchesAnyGlob(context.filename, allowedFiles, context.cwd);
+
+    /**
+     * Find the source ranges of the `!` of the first unchecked @renders
+     * annotation in a comment, and of its justification if it has one
+     */
+    function findUncheckedRanges(
+      comment: TSESTree.Comment
+    ): { unchecked: TSESTree.Range; justification: TSESTree.Range | null } | null {
+      const text = comment.type === "Block" ? `/*${comment.value}*/` : comment.value;
+      const base = comment.type === "Block" ? comment.range[0] : comment.range[0] + 2;
+
+      for (const result of parseRendersAnnotations(text)) {
+        const uncheckedSpan = result.annotation?.uncheckedSpan;
+        if (!result.annotation || !uncheckedSpan) continue;
+
+        const start = result.annotation.closeBrace.end;
+        const lineEnd = text.indexOf("\n", start);
+        const match = JUSTIFICATION_PATTERN.exec(text.slice(start, lineEnd === -1 ? undefined : lineEnd));
+        const justification: TSESTree.Range | null = match
+          ? [base + start, base + start + match[1].length]
+          : null;
+
+        return {
+          unchecked: [base + uncheckedSpan.start, base + uncheckedSpan.end],
+          justification,
+        };
+      }
+      return null;
+    }
+
+    return {
+      "Program:exit"() {
+        for (const { node, name, renders, rendersComment } of analysis.getLocalComponents()) {
+          if (!renders?.unchecked || !rendersComment) continue;
+
+          const ranges = findUncheckedRanges(rendersComment);
+          if (!ranges) continue;
+
+          const { unchecked, justification } = ranges;
+          const loc = {
+            start: sourceCode.getLocFromIndex(unchecked[0]),
+            end: sourceCode.getLocFromIndex(unchecked[1]),
+          };
+          const data = {
+            componentName: name === DEFAULT_EXPORT_NAME ? "default export" : name,
+            annotation: renders.raw,
+          };
+
+          const renderFunction =
+            node.type === "ClassDeclaration" || node.type === "ClassExpression"
+              ? getClassRenderFunction(node)
+              : node;
+          const inferred = renderFunction
+            ? inferComponentReturnModifier(analysis, renderFunction, name, renders)
+            : null;
+
+          // Returns that would pass full validation don't need the escape hatch at all
+          if (inferred && isModifierAssignable(inferred, renders.modifier)) {
+            context.report({
+              loc,
+              messageId: "unnecessaryUnchecked",
+              data,
+              suggest: [
+                {
+                  messageId: "removeUnchecked",
+                  fix: (fixer): TSESLint.RuleFix[] => [
+                    fixer.removeRange(unchecked),
+                    ...(justification ? [fixer.removeRange(justification)] : []),
+                  ],
+                },
+              ],
+            });
+            continue;
+          }
+
+          if (!fileAllowed && !justification) {
+            context.report({ loc, messageId: "uncheckedNotAllowed", data });
+          }
+        }
+      },
+    };
+  },
+});
@@ -1,20 +1,32 @@
 import type { TSESTree } from "@typescript-eslint/utils";
-import { ESLintUtils } from "@typescript-eslint/utils";
 import { createRule } from "../utils/create-rule.js";
-import { parseRendersAnnotation, parseTransparentAnnotation } from "../utils/jsdoc-parser.js";
-import { getJSXElementName, isComponentName, getWrappingVariableDeclarator } from "../utils/component-utils.js";
-import { extractChildElementNames, extractJSXFromExpression } from "../utils/jsx-extraction.js";
-import { canRenderComponentTyped } from "../utils/render-chain.js";
-import { createCrossFileResolver } from "../utils/cross-file-resolver.js";
+import {
+  getCreateElementChildren,
+  getCreateElementName,
+  getCreateElementProps,
+  getJSXElementName,
+  isCreateElementCall,
+} from "../utils/component-utils.js";
+import {
+  collectReturnedElements,
+  extractRenderedElementNames,
+} from "../utils/jsx-extraction.js";
+import type { ReturnedElements } from "../utils/jsx-extraction.js";
+import {
+  canRenderComponentTyped,
+  describeCardinality,
+  findRenderPath,
+  getRenderPathModifier,
+} from "../utils/render-chain.js";
+import { formatRendersAnnotation } from "../utils/annotation-grammar.cjs";
+import { getFileAnalysis } from "../utils/file-analysis.js";
 import type { RendersAnnotation, ResolvedRendersAnnotation, ResolvedRenderMap } from "../types/index.js";
-import { getPluginSettings } from "../utils/settings.js";
 
-type MessageIds = "invalidRenderProp" | "invalidRenderChildren";
-
-type FunctionNode =
-  | TSESTree.FunctionDeclaration
-  | TSESTree.FunctionExpression
-  | TSESTree.ArrowFunctionExpression;
+type MessageIds =
+  | "invalidRenderProp"
+  | "invalidRenderChildren"
+  | "invalidRenderPropCardinality"
+  | "invalidRenderChildrenCardinality";
 
 export default createRule<[], MessageIds>({
   name: "valid-render-prop",
@@ -29,84 +41,24 @@ export default createRule<[], MessageIds>({
         "Prop '{{propName}}' expects @renders `{{expected}}` but received `{{actual}}`",
       invalidRenderChildren:
         "Children expect @renders `{{expected}}` but received `{{actual}}`",
+      invalidRenderPropCardinality:
+        "Prop '{{propName}}' expects `{{expected}}` ({{expectedCardinality}}) but received `{{actual}}`, which renders {{actualCardinality}} (`{{path}}`)",
+      invalidRenderChildrenCardinality:
+        "Children expect `{{expected}}` ({{expectedCardinality}}) but received `{{actual}}`, which renders {{actualCardinality}} (`{{path}}`)",
     },
     schema: [],
   },
   defaultOptions: [],
   create(context) {
-    const sourceCode = context.sourceCode;
-
-    // Build a map of component names to their @renders annotations
-    const localRenderMap: Map<string, RendersAnnotation> = new Map();
-
-    // Store prop annotations from interfaces/types
-    // Map of "ComponentName.propName" -> RendersAnnotation
-    // External annotations may include pre-resolved targetTypeId/targetTypeIds
-    const propAnnotations = new Map<string, RendersAnnotation | ResolvedRendersAnnotation>();
-
-    // Get typed parser services (required for this rule)
-    const parserServices = ESLintUtils.getParserServices(context);
-    const crossFileResolver = createCrossFileResolver({
-      parserServices,
-      sourceCode,
-      filename: context.filename,
-    });
+    // Settings, annotations and resolved maps shared with the other rules
+    const analysis = getFileAnalysis(context);
 
-    // Local @transparent annotations collected during first AST pass
-    const localTransparentComponents = new Map<string, Set<string>>();
-
-    // Settings-based transparent components (remain name-based)
-    const { transparentComponentsMap: settingsTransparentComponents, additionalComponentWrappers } = getPluginSettings(context.settings);
-
-    // Merged transparency map: built at Program:exit from settings + local + cross-file
+    // Merged transparency map: settings + local + cross-file, read at Program:exit
     let transparentComponents = new Map<string, Set<string>>();
 
     // Queue JSX elements for validation in Program:exit
     const jsxElementsToValidate: TSESTree.JSXElement[] = [];
-
-    /**
-     * Get the @renders annotation from a function node's leading comments
-     */
-    function getRendersAnnotationFromComments(
-      node: TSESTree.Node
-    ): RendersAnnotation | null {
-      const comments = sourceCode.getCommentsBefore(node);
-
-      for (const comment of comments) {
-        const text =
-          comment.type === "Block" ? `/*${comment.value}*/` : comment.value;
-        const annotation = parseRendersAnnotation(text);
-        if (annotation) {
-          return annotation;
-        }
-      }
-
-      return null;
-    }
-
-    /**
-     * Get component name from a function node
-     */
-    function getComponentName(node: FunctionNode): string | null {
-      if (node.type === "FunctionDeclaration" && node.id) {
-        return node.id.name;
-      }
-
-      if (
-        node.parent?.type === "VariableDeclarator" &&
-        node.parent.id.type === "Identifier"
-      ) {
-        return node.parent.id.name;
-      }
-
-      // For functions inside React wrappers: forwardRef, memo
-      const wrapper = getWrappingVariableDeclarator(node, additionalComponentWrappers);
-      if (wrapper) {
-        return wrapper.id.type === "Identifier" ? wrapper.id.name : null;
-      }
-
-      return null;
-    }
+    const createElementCallsToValidate: TSESTree.CallExpression[] = [];
 
     /**
      * Check if a value is "nullish" (null, undefined, false)
@@ -130,7 +82,7 @@ export default createRule<[], MessageIds>({
      */
     function getExpectedTypeIds(annotation: RendersAnnotation): string[] {
       return annotation.componentNames
-        .map((name) => crossFileResolver.getComponentTypeId(name))
+        .map((name) => analysis.getComponentTypeId(name))
         .filter((id): id is string => id !== null);
     }
 
@@ -153,10 +105,17 @@ export default createRule<[], MessageIds>({
         return true;
       }
 
+      // For many modifier, Fragment is valid (e.g. a render prop returning <></>)
+      if (annotation.modifier === "many" && name === "Fragment") {
+        return true;
+      }
+
+      // Intermediate annotations must not widen the cardinality of the slot
       if (canRenderComponentTyped(name, annotation.componentName, renderMap, {
         actualTypeId,
         expectedTypeId,
         expectedTypeIds,
+        expectedModifier: annotation.modifier,
       })) {
         return true;
       }
@@ -165,84 +124,105 @@ export default createRule<[], MessageIds>({
     }
 
     /**
-     * Collect @renders and @transparent annotations from function components
+     * Build message data for an invalid value that renders the expected type
+     * but with a wider cardinality (e.g. `@renders? {Header}` in an exactly-one slot).
+     * Returns null when the value doesn't render the expected type at all.
      */
-    function collectComponentAnnotation(node: FunctionNode): void {
-      // For variable declarations (const MyComp = () => ...), check parent
-      let varDeclarator: TSESTree.VariableDeclarator | null =
-        node.parent?.type === "VariableDeclarator" ? node.parent : null;
-
-      // For functions inside React wrappers: forwardRef, memo
-      if (!varDeclarator) {
-        varDeclarator = getWrappingVariableDeclarator(node, additionalComponentWrappers);
+    function getCardinalityMismatch(
+      name: string,
+      annotation: RendersAnnotation,
+      renderMap: ResolvedRenderMap,
+      actualTypeId: string | undefined,
+      expectedTypeId: string | undefined,
+      expectedTypeIds: string[] | undefined
+    ): Record<string, string> | null {
+      const path = findRenderPath(name, annotation.componentName, renderMap, {
+        actualTypeId,
+        expectedTypeId,
+        expectedTypeIds,
+      });
+      if (!path) {
+        return null;
       }
 
-      let nodeToCheck: TSESTree.Node =
-        varDeclarator?.parent?.type === "VariableDeclaration"
-          ? varDeclarator.parent
-          : node;
+      return {
+        expected: formatRendersAnnotation(annotation.modifier, false, annotation.componentNames),
+        expectedCardinality: describeCardinality(annotation.modifier),
+        actual: name,
+        actualCardinality: describeCardinality(getRenderPathModifier(path, renderMap, actualTypeId)),
+        path: path.join(" → "),
+      };
+    }
 
-      // For exported declarations, the JSDoc sits before `export`
+    /**
+     * Get the rendered items of a value passed to a prop or as a child.
+     * For render props and function as children (renderItem={(item) => <Row />})
+     * each of the callback's returns is an item.
+     */
+    function getPassedItems(
+      expr: TSESTree.Expression,
+      valueNode: TSESTree.Node
+    ): ReturnedElements[] {
       if (
-        nodeToCheck.parent?.type === "ExportNamedDeclaration" ||
-        nodeToCheck.parent?.type === "ExportDefaultDeclaration"
+        expr.type === "ArrowFunctionExpression" ||
+        expr.type === "FunctionExpression"
       ) {
-        nodeToCheck = nodeToCheck.parent;
-      }
-
-      // Check for @transparent
-      const componentName = getComponentName(node);
-      if (componentName && isComponentName(componentName)) {
-        const comments = sourceCode.getCommentsBefore(nodeToCheck);
-        for (const comment of comments) {
-          const text =
-            comment.type === "Block" ? `/*${comment.value}*/` : comment.value;
-          const ta = parseTransparentAnnotation(text);
-          if (ta) {
-            localTransparentComponents.set(componentName, new Set(ta.propNames));
-            break;
-          }
-        }
-      }
-
-      const annotation = getRendersAnnotationFromComments(nodeToCheck);
-      if (!annotation) {
-        return;
-      }
-
-      if (componentName && isComponentName(componentName)) {
-        localRenderMap.set(componentName, annotation);
+        return collectReturnedElements(expr, transparentComponents);
       }
+      return [{ names: extractRenderedElementNames(expr, transparentComponents), node: valueNode }];
     }
 
     /**
-     * Collect @renders annotations from interface properties
+     * Validate rendered items against a prop's @renders annotation.
+     * A null propName reports against children.
      */
-    function collectPropAnnotation(
-      node: TSESTree.TSPropertySignature,
-      interfaceName: string
+    function validatePassedItems(
+      items: ReturnedElements[],
+      annotation: ResolvedRendersAnnotation,
+      propName: string | null,
+      renderMap: ResolvedRenderMap
     ): void {
-      if (node.key.type !== "Identifier") {
+      if (items.length === 0) {
         return;
       }
 
-      const propName = node.key.name;
-      const annotation = getRendersAnnotationFromComments(node);
-
-      if (annotation) {
-        propAnnotations.set(`${interfaceName}.${propName}`, annotation);
-      }
-    }
-
-    /**
-     * Process interface declaration
-     */
-    function processInterface(node: TSESTree.TSInterfaceDeclaration): void {
-      const interfaceName = node.id.name;
+      // Use type IDs resolved from the scope where the annotation is defined,
+      // falling back to the current file's scope
+      const expectedTypeId = annotation.targetTypeId
+        ?? analysis.getComponentTypeId(annotation.componentName)
+        ?? undefined;
+      const expectedTypeIds = annotation.targetTypeIds ?? getExpectedTypeIds(annotation);
+
+      // All extracted values must be valid
+      for (const { names, node: reportNode } of items) {
+        for (const name of names) {
+          const actualTypeId = analysis.getComponentTypeId(name) ?? undefined;
+
+          if (!isValidValue(name, annotation, renderMap, actualTypeId, expectedTypeId, expectedTypeIds.length > 0 ? expectedTypeIds : undefined)) {
+            const cardinality = getCardinalityMismatch(name, annotation, renderMap, actualTypeId, expectedTypeId, expectedTypeIds.length > 0 ? expectedTypeIds : undefined);
+            if (cardinality) {
+              context.report(
+                propName === null
+                  ? { node: reportNode, messageId: "invalidRenderChildrenCardinality", data: cardinality }
+                  : { node: reportNode, messageId: "invalidRenderPropCardinality", data: { propName, ...cardinality } }
+              );
+              continue;
+            }
 
-      for (const member of node.body.body) {
-        if (member.type === "TSPropertySignature") {
-          collectPropAnnotation(member, interfaceName);
+            context.report(
+              propName === null
+                ? {
+                    node: reportNode,
+                    messageId: "invalidRenderChildren",
+                    data: { expected: formatExpected(annotation), actual: name },
+                  }
+                : {
+                    node: reportNode,
+                    messageId: "invalidRenderProp",
+                    data: { propName, expected: formatExpected(annotation), actual: name },
+                  }
+            );
+          }
         }
       }
     }
@@ -252,6 +232,7 @@ export default createRule<[], MessageIds>({
      */
     function validateJSXAttribute(
       attr: TSESTree.JSXAttribute,
+      elementName: string,
       renderMap: ResolvedRenderMap
     ): void {
       if (attr.name.type !== "JSXIdentifier" || !attr.value) {
@@ -260,71 +241,23 @@ export default createRule<[], MessageIds>({
 
       const propName = attr.name.name;
 
-      // Try to find annotation for this prop
-      let annotation: RendersAnnotation | null = null;
-
-      for (const [key, ann] of propAnnotations) {
-        if (key.endsWith(`.${propName}`)) {
-          annotation = ann;
-          break;
-        }
-      }
-
+      // Find the annotation on this component's own props type
+      const annotation = analysis.getPropAnnotations(elementName)?.get(propName);
       if (!annotation) {
         return;
       }
 
-      // Get the value being passed to the prop
-      let passedValues: string[] = [];
-      const valueNode: TSESTree.Node = attr.value;
-
+      // Get the values being passed to the prop
+      let passedItems: ReturnedElements[] = [];
       if (attr.value.type === "JSXExpressionContainer") {
-        const expr = attr.value.expression;
-        if (expr.type === "JSXElement") {
-          const name = getJSXElementName(expr);
-          if (name && transparentComponents.has(name)) {
-            passedValues = extractChildElementNames(expr, transparentComponents);
-          } else if (name) {
-            passedValues = [name];
-          }
-        } else if (expr.type !== "JSXEmptyExpression") {
-          passedValues = extractJSXFromExpression(expr);
+        if (attr.value.expression.type !== "JSXEmptyExpression") {
+          passedItems = getPassedItems(attr.value.expression, attr.value);
         }
       } else if (attr.value.type === "JSXElement") {
-        const name = getJSXElementName(attr.value);
-        if (name && transparentComponents.has(name)) {
-          passedValues = extractChildElementNames(attr.value, transparentComponents);
-        } else if (name) {
-          passedValues = [name];
-        }
+        passedItems = getPassedItems(attr.value, attr.value);
       }
 
-      if (passedValues.length > 0) {
-        // Use pre-resolved type IDs from source context if available (external annotations),
-        // otherwise resolve from the current file's scope (local annotations)
-        const resolved = annotation as ResolvedRendersAnnotation;
-        const expectedTypeId = resolved.targetTypeId
-          ?? crossFileResolver.getComponentTypeId(annotation.componentName)
-          ?? undefined;
-        const expectedTypeIds = resolved.targetTypeIds ?? getExpectedTypeIds(annotation);
-
-        // All extracted values must be valid
-        for (const passedValue of passedValues) {
-          const actualTypeId = crossFileResolver.getComponentTypeId(passedValue) ?? undefined;
-
-          if (!isValidValue(passedValue, annotation, renderMap, actualTypeId, expectedTypeId, expectedTypeIds.length > 0 ? expectedTypeIds : undefined)) {
-            context.report({
-              node: valueNode,
-              messageId: "invalidRenderProp",
-              data: {
-                propName,
-                expected: formatExpected(annotation),
-                actual: passedValue,
-              },
-            });
-          }
-        }
-      }
+      validatePassedItems(passedItems, annotation, propName, renderMap);
     }
 
     /**
@@ -339,153 +272,111 @@ export default createRule<[], MessageIds>({
         return;
       }
 
-      // Try to find annotation for this component's children prop
-      let annotation: RendersAnnotation | null = null;
-
-      const possibleInterfaceNames = [
-        `${elementName}Props.children`,
-        `${elementName}.children`,
-        `I${elementName}Props.children`,
-      ];
-
-      for (const interfaceKey of possibleInterfaceNames) {
-        const ann = propAnnotations.get(interfaceKey);
-        if (ann) {
-          annotation = ann;
-          break;
-        }
-      }
-
+      // Find the children annotation on this component's own props type
+      const annotation = analysis.getPropAnnotations(elementName)?.get("children");
       if (!annotation) {
         return;
       }
 
-      const resolvedAnnotation = annotation;
-
-      // Use pre-resolved type IDs from source context if available (external annotations),
-      // otherwise resolve from the current file's scope (local annotations)
-      const resolved = resolvedAnnotation as ResolvedRendersAnnotation;
-      const expectedTypeId = resolved.targetTypeId
-        ?? crossFileResolver.getComponentTypeId(annotation.componentName)
-        ?? undefined;
-      const expectedTypeIds = resolved.targetTypeIds ?? getExpectedTypeIds(annotation);
-
-      // Validate each child, recursively unwrapping fragments
-      function validateChildren(children: typeof node.children): void {
+      // Collect each child, recursively unwrapping fragments
+      const items: ReturnedElements[] = [];
+      function collectChildren(children: typeof node.children): void {
         for (const child of children) {
           if (child.type === "JSXFragment") {
-            validateChildren(child.children);
-            continue;
-          }
-
-          let extractedNames: string[] = [];
-
-          if (child.type === "JSXElement") {
-            const childName = getJSXElementName(child);
-            if (childName && transparentComponents.has(childName)) {
-              extractedNames = extractChildElementNames(child, transparentComponents);
-            } else if (childName) {
-              extractedNames = [childName];
-            }
-          } else if (child.type === "JSXExpressionContainer" && child.expression.type !== "JSXEmptyExpression") {
-            extractedNames = extractJSXFromExpression(child.expression);
-          }
-
-          for (const name of extractedNames) {
-            const actualTypeId = crossFileResolver.getComponentTypeId(name) ?? undefined;
-            if (!isValidValue(name, resolvedAnnotation, renderMap, actualTypeId, expectedTypeId, expectedTypeIds.length > 0 ? expectedTypeIds : undefined)) {
-              context.report({
-                node: child,
-                messageId: "invalidRenderChildren",
-                data: {
-                  expected: formatExpected(resolvedAnnotation),
-                  actual: name,
-                },
-              });
-            }
+            collectChildren(child.children);
+          } else if (child.type === "JSXElement") {
+            items.push(...getPassedItems(child, child));
+          } else if (
+            child.type === "JSXExpressionContainer" &&
+            child.expression.type !== "JSXEmptyExpression"
+          ) {
+            // Includes function as children: <List>{(item) => <Item />}</List>
+            items.push(...getPassedItems(child.expression, child));
           }
         }
       }
+      collectChildren(node.children);
 
-      validateChildren(node.children);
+      validatePassedItems(items, annotation, null, renderMap);
     }
 
     /**
-     * Validate all queued JSX elements
+     * Validate the props and children of a createElement / jsx call
+     * against the created component's @renders prop annotations
      */
-    function validateAllJSXElements(): void {
-      const resolvedRenderMap = crossFileResolver.buildResolvedRenderMap(localRenderMap);
-
-      // Build merged transparency map: settings + local + cross-file imports
-      transparentComponents = new Map<string, Set<string>>();
-      for (const [name, props] of settingsTransparentComponents) {
-        transparentComponents.set(name, props);
-      }
-      const resolvedTransparent = crossFileResolver.resolveTransparentComponents(localTransparentComponents);
-      for (const [name, props] of resolvedTransparent) {
-        transparentComponents.set(name, props);
+    function validateCreateElementCall(
+      node: TSESTree.CallExpression,
+      renderMap: ResolvedRenderMap
+    ): void {
+      const elementName = getCreateElementName(node);
+      if (!elementName) {
+        return;
       }
 
-      // Resolve external prop annotations for imported components
-      const resolvedElements = new Set<string>();
-      for (const node of jsxElementsToValidate) {
-        const name = getJSXElementName(node);
-        if (!name || resolvedElements.has(name)) continue;
-        resolvedElements.add(name);
-
-        // Skip if we already have local annotations for this component
-        const hasLocal = [...propAnnotations.keys()].some(
-          (key) =>
-            key.startsWith(`${name}Props.`) ||
-            key.startsWith(`${name}.`) ||
-            key.startsWith(`I${name}Props.`)
-        );
-        if (hasLocal) continue;
+      const annotations = analysis.getPropAnnotations(elementName);
+      if (!annotations) {
+        return;
+      }
 
-        const external = crossFileResolver.getExternalPropAnnotations(name);
-        if (external) {
-          for (const [propName, annotation] of external) {
-            propAnnotations.set(`${name}Props.${propName}`, annotation);
-          }
+      for (const prop of getCreateElementProps(node)) {
+        const annotation = annotations.get(prop.name);
+        if (annotation && prop.name !== "children") {
+          validatePassedItems(getPassedItems(prop.value, prop.value), annotation, prop.name, renderMap);
         }
       }
 
-      // Expand type aliases in prop annotations
-      for (const [key, annotation] of propAnnotations) {
-        const expanded = crossFileResolver.expandTypeAliases(annotation);
-        if (expanded !== annotation) {
-          propAnnotations.set(key, expanded);
-        }
+      const childrenAnnotation = annotations.get("children");
+      if (childrenAnnotation) {
+        const items = getCreateElementChildren(node).flatMap((child) =>
+          getPassedItems(child, child)
+        );
+        validatePassedItems(items, childrenAnnotation, null, renderMap);
       }
+    }
+
+    /**
+     * Validate all queued JSX elements
+     */
+    function validateAllJSXElements(): void {
+      const resolvedRenderMap = analysis.getResolvedRenderMap();
+      transparentComponents = analysis.getTransparentComponents();
 
       for (const node of jsxElementsToValidate) {
+        const elementName = getJSXElementName(node);
+        if (!elementName) {
+          continue;
+        }
+
         // Validate attributes
         for (const attr of node.openingElement.attributes) {
           if (attr.type === "JSXAttribute") {
-            validateJSXAttribute(attr, resolvedRenderMap);
+            validateJSXAttribute(attr, elementName, resolvedRenderMap);
           }
         }
 
         // Validate children
         validateJSXChildren(node, resolvedRenderMap);
       }
+
+      for (const node of createElementCallsToValidate) {
+        validateCreateElementCall(node, resolvedRenderMap);
+      }
     }
 
     return {
-      // Collect component @renders annotations
-      FunctionDeclaration: collectComponentAnnotation,
-      FunctionExpression: collectComponentAnnotation,
-      ArrowFunctionExpression: collectComponentAnnotation,
-
-      // Collect prop annotations from interfaces
-      TSInterfaceDeclaration: processInterface,
-
       // Queue JSX elements for validation
       JSXElement(node) {
         jsxElementsToValidate.push(node);
       },
 
-      // Validate all JSX elements once we've collected all annotations
+      // Queue createElement / jsx calls, which are element creation without JSX
+      CallExpression(node) {
+        if (isCreateElementCall(node)) {
+          createElementCallsToValidate.push(node);
+        }
+      },
+
+      // Validate all JSX elements once we've seen the whole program
       "Program:exit": validateAllJSXElements,
     };
   },
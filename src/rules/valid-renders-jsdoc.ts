@@ -1,11 +1,9 @@
 import type { TSESTree } from "@typescript-eslint/utils";
-import { ESLintUtils } from "@typescript-eslint/utils";
 import { createRule } from "../utils/create-rule.js";
-import { parseRendersAnnotation } from "../utils/jsdoc-parser.js";
+import { getTypeReferences, parseRendersAnnotations } from "../utils/annotation-grammar.cjs";
+import type { RendersParseError } from "../utils/annotation-grammar.cjs";
 import { isComponentName, getWrappingVariableDeclarator } from "../utils/component-utils.js";
-import { getPluginSettings } from "../utils/settings.js";
-import type { createCrossFileResolver } from "../utils/cross-file-resolver.js";
-import { createCrossFileResolver as createResolver } from "../utils/cross-file-resolver.js";
+import { getFileAnalysis } from "../utils/file-analysis.js";
 
 type MessageIds =
   | "missingBraces"
@@ -13,86 +11,20 @@ type MessageIds =
   | "lowercaseComponent"
   | "unresolvedComponent";
 
-/**
- * Regex to detect @renders without proper braces
- * Matches patterns like:
- * - @renders Header (missing braces)
- * - @renders? Header (missing braces with modifier)
- * - @renders* Header (missing braces with modifier)
- */
-const RENDERS_WITHOUT_BRACES =
-  /(?:^|[^a-zA-Z@])@renders(\?|\*)?\s+([A-Z][a-zA-Z0-9]*(?:\.[A-Z][a-zA-Z0-9]*)*)\s*(?:[^{]|$)/;
-
-/**
- * Regex to detect @renders with malformed syntax
- * Matches patterns like:
- * - @renders {header} (lowercase)
- * - @renders {} (empty braces)
- * - @renders { } (whitespace only)
- * - @renders {123} (starts with number)
- */
-const RENDERS_MALFORMED =
-  /(?:^|[^a-zA-Z@])@renders(\?|\*)?\s*\{([^}]*)\}/;
+type SyntaxMessageId = Exclude<MessageIds, "unresolvedComponent">;
 
 /**
- * Check if a string looks like it was meant to be a @renders annotation
- * but is malformed
+ * Map a structured parse error to the message reported by this rule.
  */
-function detectMalformedRenders(comment: string): {
-  type: "missingBraces" | "malformedAnnotation" | "lowercaseComponent" | null;
-  componentName?: string;
-  suggestion?: string;
-} {
-  // First check if it's a valid annotation
-  if (parseRendersAnnotation(comment)) {
-    return { type: null };
-  }
-
-  // Check for missing braces: @renders Header instead of @renders {Header}
-  const missingBracesMatch = comment.match(RENDERS_WITHOUT_BRACES);
-  if (missingBracesMatch) {
-    const [, modifier, componentName] = missingBracesMatch;
-    return {
-      type: "missingBraces",
-      componentName,
-      suggestion: `@renders${modifier ?? ""} {${componentName}}`,
-    };
-  }
-
-  // Check for malformed content inside braces
-  const malformedMatch = comment.match(RENDERS_MALFORMED);
-  if (malformedMatch) {
-    const [, , content] = malformedMatch;
-    const trimmedContent = content.trim();
-
-    // Empty braces
-    if (!trimmedContent) {
-      return {
-        type: "malformedAnnotation",
-        suggestion: "Provide a component name inside braces: @renders {ComponentName}",
-      };
-    }
-
-    // Lowercase component name
-    if (/^[a-z]/.test(trimmedContent)) {
-      const pascalCase = trimmedContent.charAt(0).toUpperCase() + trimmedContent.slice(1);
-      return {
-        type: "lowercaseComponent",
-        componentName: trimmedContent,
-        suggestion: `Component names must be PascalCase. Did you mean @renders {${pascalCase}}?`,
-      };
-    }
-
-    // Starts with number or invalid character
-    if (!/^[A-Z]/.test(trimmedContent)) {
-      return {
-        type: "malformedAnnotation",
-        suggestion: "Component name must start with an uppercase letter",
-      };
-    }
+function getSyntaxMessageId(error: RendersParseError): SyntaxMessageId {
+  switch (error.code) {
+    case "missingBraces":
+      return "missingBraces";
+    case "lowercaseComponent":
+      return "lowercaseComponent";
+    default:
+      return "malformedAnnotation";
   }
-
-  return { type: null };
 }
 
 export default createRule<[], MessageIds>({
@@ -124,21 +56,15 @@ export default createRule<[], MessageIds>({
     // Collect all imported identifiers
     const importedIdentifiers = new Set<string>();
 
-    // Store comments with valid @renders annotations for later validation
-    const commentsToValidate: Array<{
-      comment: TSESTree.Comment;
+    // Component references from well-formed annotations, checked at Program:exit
+    const referencesToValidate: Array<{
+      loc: TSESTree.SourceLocation;
       componentName: string;
     }> = [];
 
-    const { additionalComponentWrappers } = getPluginSettings(context.settings);
-
-    // Get typed parser services (required for this rule)
-    const parserServices = ESLintUtils.getParserServices(context);
-    const crossFileResolver: ReturnType<typeof createCrossFileResolver> = createResolver({
-      parserServices,
-      sourceCode,
-      filename: context.filename,
-    });
+    // Settings and type resolution shared with the other rules
+    const analysis = getFileAnalysis(context);
+    const { additionalComponentWrappers } = analysis.settings;
 
     /**
      * Check if a component name is available in the current file
@@ -163,7 +89,7 @@ export default createRule<[], MessageIds>({
       }
 
       // Use type-based resolution to check if the component is resolvable
-      const typeId = crossFileResolver.getComponentTypeId(name);
+      const typeId = analysis.getComponentTypeId(name);
       if (typeId) {
         return true;
       }
@@ -171,56 +97,54 @@ export default createRule<[], MessageIds>({
       return false;
     }
 
+    /**
+     * Convert an offset range inside a comment's text into a source location.
+     * The parsed text starts at the comment's first character for block
+     * comments and after the leading "//" for line comments.
+     */
+    function getLocInComment(
+      comment: TSESTree.Comment,
+      start: number,
+      end: number
+    ): TSESTree.SourceLocation {
+      const base = comment.type === "Block" ? comment.range[0] : comment.range[0] + 2;
+      return {
+        start: sourceCode.getLocFromIndex(base + start),
+        end: sourceCode.getLocFromIndex(base + end),
+      };
+    }
+
     /**
      * Validate a comment node for @renders issues
      */
     function validateCommentSyntax(comment: TSESTree.Comment): void {
       const text = comment.type === "Block" ? `/*${comment.value}*/` : comment.value;
 
-      // Check for malformed syntax
-      const malformed = detectMalformedRenders(text);
-
-      if (malformed.type === "missingBraces") {
-        context.report({
-          loc: comment.loc,
-          messageId: "missingBraces",
-          data: {
-            suggestion: malformed.suggestion!,
-          },
-        });
-        return;
-      }
-
-      if (malformed.type === "lowercaseComponent") {
-        context.report({
-          loc: comment.loc,
-          messageId: "lowercaseComponent",
-          data: {
-            componentName: malformed.componentName!,
-            suggestion: malformed.suggestion!,
-          },
-        });
-        return;
-      }
-
-      if (malformed.type === "malformedAnnotation") {
-        context.report({
-          loc: comment.loc,
-          messageId: "malformedAnnotation",
-          data: {
-            suggestion: malformed.suggestion!,
-          },
-        });
-        return;
-      }
+      for (const result of parseRendersAnnotations(text)) {
+        // Report syntax errors at their exact position in the comment
+        for (const error of result.errors) {
+          const messageId = getSyntaxMessageId(error);
+          context.report({
+            loc: getLocInComment(comment, error.start, error.end),
+            messageId,
+            data:
+              messageId === "missingBraces"
+                ? { suggestion: error.suggestion ?? error.message }
+                : messageId === "lowercaseComponent"
+                  ? { componentName: error.componentName ?? "", suggestion: error.message }
+                  : { suggestion: error.message },
+          });
+        }
 
-      // If syntax is valid, queue for reference checking
-      const annotation = parseRendersAnnotation(text);
-      if (annotation) {
-        commentsToValidate.push({
-          comment,
-          componentName: annotation.componentName,
-        });
+        // If syntax is valid, queue every referenced component for checking
+        if (result.annotation) {
+          for (const reference of getTypeReferences(result.annotation.typeExpression)) {
+            referencesToValidate.push({
+              loc: getLocInComment(comment, reference.start, reference.end),
+              componentName: reference.name,
+            });
+          }
+        }
       }
     }
 
@@ -228,10 +152,10 @@ export default createRule<[], MessageIds>({
      * Validate that referenced components exist
      */
     function validateReferences(): void {
-      for (const { comment, componentName } of commentsToValidate) {
+      for (const { loc, componentName } of referencesToValidate) {
         if (!isComponentAvailable(componentName)) {
           context.report({
-            loc: comment.loc,
+            loc,
             messageId: "unresolvedComponent",
             data: {
               componentName,
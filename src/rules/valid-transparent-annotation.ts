@@ -0,0 +1,488 @@
+import type { TSESLint, TSESTree } from "@typescript-eslint/utils";
+import { createRule } from "../utils/create-rule.js";
+import {
+  DEFAULT_EXPORT_NAME,
+  getCreateElementName,
+  getCreateElementProps,
+  getJSXElementName,
+  isCreateElementCall,
+} from "../utils/component-utils.js";
+import { getFileAnalysis } from "../utils/file-analysis.js";
+import type { LocalComponent } from "../utils/file-analysis.js";
+
+type MessageIds = "unknownProp" | "unrenderedProp" | "transparentWithRenders";
+
+type FunctionNode =
+  | TSESTree.FunctionDeclaration
+  | TSESTree.FunctionExpression
+  | TSESTree.ArrowFunctionExpression;
+
+/**
+ * Props a component renders, by name. all is set when the props object
+ * escapes (spread into JSX, passed to a helper, indexed dynamically), so
+ * any prop may be rendered.
+ */
+interface RenderedProps {
+  names: Set<string>;
+  all: boolean;
+}
+
+function isFunctionNode(node: TSESTree.Node): node is FunctionNode {
+  return (
+    node.type === "FunctionDeclaration" ||
+    node.type === "FunctionExpression" ||
+    node.type === "ArrowFunctionExpression"
+  );
+}
+
+/**
+ * Get the enclosing function of a node
+ */
+function getEnclosingFunction(node: TSESTree.Node): FunctionNode | null {
+  let current = node.parent;
+  while (current && !isFunctionNode(current)) {
+    current = current.parent;
+  }
+  return current ?? null;
+}
+
+/**
+ * Get the name of the property a member expression reads, or null when computed
+ */
+function getMemberPropertyName(node: TSESTree.MemberExpression): string | null {
+  if (!node.computed && node.property.type === "Identifier") {
+    return node.property.name;
+  }
+  if (node.property.type === "Literal" && typeof node.property.value === "string") {
+    return node.property.value;
+  }
+  return null;
+}
+
+/**
+ * Check if a call is items.map(callback) or items.flatMap(callback) with an
+ * inline callback
+ */
+function isMapCall(node: TSESTree.CallExpression): boolean {
+  const { callee } = node;
+  const [callback] = node.arguments;
+  return (
+    callee.type === "MemberExpression" &&
+    !callee.computed &&
+    callee.property.type === "Identifier" &&
+    (callee.property.name === "map" || callee.property.name === "flatMap") &&
+    !!callback &&
+    (callback.type === "ArrowFunctionExpression" || callback.type === "FunctionExpression")
+  );
+}
+
+/**
+ * Find which props a component renders: the props it reads (through the
+ * props parameter, destructuring or this.props) whose value ends up in JSX,
+ * a createElement call or a return of one of its render functions.
+ *
+ * Values are followed through the expressions that pass them on unchanged
+ * and local variables; anything else (operators, other calls, assignments
+ * to outer bindings, statements) doesn't render them.
+ */
+function collectRenderedProps(
+  sourceCode: Readonly<TSESLint.SourceCode>,
+  renderFunctions: Set<TSESTree.Node>,
+  transparentComponents: Map<string, Set<string>>
+): {
+  addPropsObject: (node: TSESTree.Node) => void;
+  addPropsPattern: (pattern: TSESTree.Node) => void;
+  result: RenderedProps;
+} {
+  const result: RenderedProps = { names: new Set(), all: false };
+  const visitedVariables = new Set<TSESLint.Scope.Variable>();
+
+  /**
+   * Get the read references of the variable a binding identifier declares.
+   * Each variable is followed once.
+   */
+  function getReferences(identifier: TSESTree.Identifier): TSESTree.Identifier[] {
+    let scope: TSESLint.Scope.Scope | null = sourceCode.getScope(identifier);
+    let variable: TSESLint.Scope.Variable | undefined;
+    while (scope && !variable) {
+      variable = scope.variables.find((candidate) => candidate.identifiers.includes(identifier));
+      scope = scope.upper;
+    }
+
+    if (!variable || visitedVariables.has(variable)) {
+      return [];
+    }
+    visitedVariables.add(variable);
+
+    return variable.references
+      .filter((reference) => reference.isRead())
+      .map((reference) => reference.identifier)
+      .filter((reference): reference is TSESTree.Identifier => reference.type === "Identifier");
+  }
+
+  /**
+   * Check if a JSX attribute renders its value: children, or a prop the
+   * element is transparent over
+   */
+  function isRenderedAttribute(attribute: TSESTree.JSXAttribute): boolean {
+    if (attribute.name.type !== "JSXIdentifier") return false;
+    const propName = attribute.name.name;
+    const elementName = getJSXElementName(attribute.parent.parent as TSESTree.JSXElement);
+    return propName === "children" || (elementName !== null && !!transparentComponents.get(elementName)?.has(propName));
+  }
+
+  /**
+   * Check if a createElement props object entry renders its value, like
+   * the equivalent JSX attribute
+   */
+  function isRenderedCreateElementProp(property: TSESTree.Property): boolean {
+    const props = property.parent;
+    const call = props.parent;
+    if (call?.type !== "CallExpression" || call.arguments[1] !== props || !isCreateElementCall(call)) {
+      return false;
+    }
+
+    const propName = getCreateElementProps(call).find((prop) => prop.node === property)?.name;
+    const elementName = getCreateElementName(call);
+    return (
+      propName === "children" ||
+      (propName !== undefined && elementName !== null && !!transparentComponents.get(elementName)?.has(propName))
+    );
+  }
+
+  /**
+   * Check if a value is rendered: it's a JSX or createElement child, the
+   * value of a transparent prop, or flows into a return of a render function.
+   * Values are followed through conditional branches, the value side of
+   * logical expressions, arrays and .map callbacks; member access, other
+   * calls, tests and operators don't render them.
+   */
+  function isRendered(node: TSESTree.Node): boolean {
+    let current = node;
+
+    while (current.parent) {
+      const parent: TSESTree.Node = current.parent;
+
+      switch (parent.type) {
+        case "JSXExpressionContainer": {
+          const owner = parent.parent;
+          if (owner.type === "JSXElement" || owner.type === "JSXFragment") return true;
+          return owner.type === "JSXAttribute" && isRenderedAttribute(owner);
+        }
+
+        case "JSXSpreadChild":
+          return true;
+
+        case "ConditionalExpression":
+          if (parent.test === current) return false;
+          current = parent;
+          continue;
+
+        case "LogicalExpression":
+          // The left side of && is only a test; for || and ?? it's a possible result
+          if (parent.left === current && parent.operator === "&&") return false;
+          current = parent;
+          continue;
+
+        case "ArrayExpression":
+        case "SpreadElement":
+        case "TSAsExpression":
+        case "TSSatisfiesExpression":
+        case "TSNonNullExpression":
+          current = parent;
+          continue;
+
+        case "Property":
+          return (
+            parent.value === current &&
+            parent.parent.type === "ObjectExpression" &&
+            isRenderedCreateElementProp(parent)
+          );
+
+        case "MemberExpression":
+          // items.map(...) renders what the callback returns for each item
+          if (parent.object === current && parent.parent.type === "CallExpression" && isMapCall(parent.parent)) {
+            current = parent.parent;
+            continue;
+          }
+          return false;
+
+        case "CallExpression":
+          if (isCreateElementCall(parent)) {
+            // Positional children; the props object is handled by its entries
+            return parent.arguments.indexOf(current as TSESTree.CallExpressionArgument) >= 2;
+          }
+          if (isMapCall(parent) && parent.arguments[0] === current) {
+            current = parent;
+            continue;
+          }
+          return false;
+
+        case "ReturnStatement": {
+          const fn = getEnclosingFunction(parent);
+          if (!fn) return false;
+          if (renderFunctions.has(fn)) return true;
+          // Returned from a callback, which may itself be rendered (items.map(...))
+          current = fn;
+          continue;
+        }
+
+        case "ArrowFunctionExpression":
+          if (parent.body !== current) return false;
+          if (renderFunctions.has(parent)) return true;
+          current = parent;
+          continue;
+
+        case "VariableDeclarator":
+          return (
+            parent.init === current &&
+            parent.id.type === "Identifier" &&
+            getReferences(parent.id).some(isRendered)
+          );
+
+        default:
+          return false;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Record a prop value if it's rendered
+   */
+  function addPropValue(propName: string, value: TSESTree.Node): void {
+    if (isRendered(value)) {
+      result.names.add(propName);
+    }
+  }
+
+  /**
+   * Follow a binding pattern that destructures the props object
+   */
+  function addPropsPattern(pattern: TSESTree.Node): void {
+    switch (pattern.type) {
+      case "Identifier":
+        for (const reference of getReferences(pattern)) addPropsObject(reference);
+        return;
+      case "AssignmentPattern":
+        addPropsPattern(pattern.left);
+        return;
+      case "ObjectPattern":
+        for (const property of pattern.properties) {
+          if (property.type === "RestElement") {
+            addPropsPattern(property.argument);
+            continue;
+          }
+
+          const propName =
+            !property.computed && property.key.type === "Identifier"
+              ? property.key.name
+              : property.key.type === "Literal" && typeof property.key.value === "string"
+                ? property.key.value
+                : null;
+          if (propName === null) {
+            result.all = true;
+            continue;
+          }
+
+          // Nested destructuring reads into the prop without passing it on
+          const value = property.value.type === "AssignmentPattern" ? property.value.left : property.value;
+          if (value.type === "Identifier") {
+            for (const reference of getReferences(value)) addPropValue(propName, reference);
+          }
+        }
+        return;
+      default:
+        result.all = true;
+    }
+  }
+
+  /**
+   * Follow an expression that evaluates to the props object
+   */
+  function addPropsObject(node: TSESTree.Node): void {
+    const parent = node.parent;
+
+    if (parent?.type === "MemberExpression" && parent.object === node) {
+      const propName = getMemberPropertyName(parent);
+      if (propName === null) {
+        result.all = true;
+      } else {
+        addPropValue(propName, parent);
+      }
+      return;
+    }
+
+    if (parent?.type === "VariableDeclarator" && parent.init === node) {
+      addPropsPattern(parent.id);
+      return;
+    }
+
+    // Spread into JSX, passed to a function, stored elsewhere
+    result.all = true;
+  }
+
+  return { addPropsObject, addPropsPattern, result };
+}
+
+export default createRule<[], MessageIds>({
+  name: "valid-transparent-annotation",
+  meta: {
+    type: "problem",
+    docs: {
+      description:
+        "Validate that @transparent props exist and are rendered by the component",
+    },
+    messages: {
+      unknownProp:
+        "@transparent lists '{{propName}}', which is not a prop of '{{componentName}}'.",
+      unrenderedProp:
+        "@transparent lists '{{propName}}', but '{{componentName}}' never renders it.",
+      transparentWithRenders:
+        "'{{componentName}}' has both @transparent and @renders. A transparent wrapper renders whatever it's given, so its @renders is never used.",
+    },
+    schema: [],
+  },
+  defaultOptions: [],
+  create(context) {
+    const sourceCode = context.sourceCode;
+    const analysis = getFileAnalysis(context);
+
+    // this.props reads, attributed to their class at Program:exit
+    const thisPropsReads: TSESTree.MemberExpression[] = [];
+
+    /**
+     * Get the location of a prop name, or the @transparent tag itself,
+     * inside the annotation comment
+     */
+    function getAnnotationLoc(
+      comment: TSESTree.Comment,
+      propName: string | null
+    ): TSESTree.SourceLocation {
+      // comment.value starts after the opening "/*" or "//"
+      const offset = 2;
+      const tagIndex = comment.value.indexOf("@transparent");
+      let start = tagIndex;
+      let end = tagIndex + "@transparent".length;
+
+      if (propName !== null) {
+        const closeIndex = comment.value.indexOf("}", end);
+        const propsText = comment.value.slice(end, closeIndex === -1 ? undefined : closeIndex);
+        const match = new RegExp(`(?<![\\w$])${propName.replace(/\$/g, "\\$")}(?![\\w$])`).exec(propsText);
+        if (match) {
+          start = end + match.index;
+          end = start + propName.length;
+        }
+      }
+
+      return {
+        start: sourceCode.getLocFromIndex(comment.range[0] + offset + start),
+        end: sourceCode.getLocFromIndex(comment.range[0] + offset + end),
+      };
+    }
+
+    /**
+     * Find the props a component renders
+     */
+    function getRenderedProps(component: LocalComponent): RenderedProps {
+      const { node } = component;
+
+      if (isFunctionNode(node)) {
+        const { addPropsPattern, result } = collectRenderedProps(
+          sourceCode,
+          new Set([node]),
+          analysis.getTransparentComponents()
+        );
+        const [propsParam] = node.params;
+        if (propsParam) {
+          addPropsPattern(propsParam);
+        }
+        return result;
+      }
+
+      // Class components render from render() and any method it calls
+      const renderFunctions = new Set<TSESTree.Node>();
+      for (const member of node.body.body) {
+        if (
+          (member.type === "MethodDefinition" || member.type === "PropertyDefinition") &&
+          member.value &&
+          isFunctionNode(member.value)
+        ) {
+          renderFunctions.add(member.value);
+        }
+      }
+
+      const { addPropsObject, result } = collectRenderedProps(
+        sourceCode,
+        renderFunctions,
+        analysis.getTransparentComponents()
+      );
+      for (const read of thisPropsReads) {
+        let owner: TSESTree.Node | undefined = read.parent;
+        while (owner && owner.type !== "ClassBody") {
+          owner = owner.parent;
+        }
+        if (owner?.parent === node) {
+          addPropsObject(read);
+        }
+      }
+      return result;
+    }
+
+    /**
+     * Validate the @transparent annotation of a component
+     */
+    function checkComponent(component: LocalComponent): void {
+      const { name, renders, transparent, transparentComment } = component;
+      if (!transparent || !transparentComment) return;
+
+      const componentName = name === DEFAULT_EXPORT_NAME ? "default export" : name;
+
+      if (renders) {
+        context.report({
+          loc: getAnnotationLoc(transparentComment, null),
+          messageId: "transparentWithRenders",
+          data: { componentName },
+        });
+      }
+
+      const propNames = analysis.resolver.getPropNames(name);
+      let renderedProps: RenderedProps | null = null;
+
+      for (const propName of transparent.propNames) {
+        if (propNames && !propNames.has(propName)) {
+          context.report({
+            loc: getAnnotationLoc(transparentComment, propName),
+            messageId: "unknownProp",
+            data: { propName, componentName },
+          });
+          continue;
+        }
+
+        renderedProps ??= getRenderedProps(component);
+        if (!renderedProps.all && !renderedProps.names.has(propName)) {
+          context.report({
+            loc: getAnnotationLoc(transparentComment, propName),
+            messageId: "unrenderedProp",
+            data: { propName, componentName },
+          });
+        }
+      }
+    }
+
+    return {
+      "MemberExpression[object.type='ThisExpression']"(node: TSESTree.MemberExpression) {
+        if (getMemberPropertyName(node) === "props") {
+          thisPropsReads.push(node);
+        }
+      },
+
+      "Program:exit"() {
+        for (const component of analysis.getLocalComponents()) {
+          checkComponent(component);
+        }
+      },
+    };
+  },
+});
@@ -35,12 +35,19 @@ export interface ResolvedRendersAnnotation extends RendersAnnotation {
   targetTypeId?: ComponentTypeId;
   /** Type IDs for all components in a union type */
   targetTypeIds?: ComponentTypeId[];
+  /** Type ID of each union member, keyed by component name as written */
+  memberTypeIds?: Record<string, ComponentTypeId>;
 }
 
 /**
- * Map of component names to their resolved annotations with type information
+ * Render graph: resolved annotations keyed by component type ID.
+ * Components whose type ID couldn't be resolved are keyed by local name.
+ * The resolver's implementation fills entries for components in other files
+ * lazily through the type checker; a plain Map also satisfies this interface.
  */
-export type ResolvedRenderMap = Map<string, ResolvedRendersAnnotation>;
+export interface ResolvedRenderMap {
+  get(typeId: ComponentTypeId): ResolvedRendersAnnotation | undefined;
+}
 
 /**
  * Represents a parsed @transparent annotation.
@@ -61,3 +68,40 @@ export interface ComponentTypeInfo {
   /** The @renders annotation if present */
   annotation?: ResolvedRendersAnnotation;
 }
+
+/**
+ * Annotations declared for one component in an external annotation manifest,
+ * standing in for JSDoc the component's declaration doesn't carry.
+ */
+export interface ManifestComponentAnnotations {
+  /** Equivalent of a @renders annotation on the component */
+  renders?: RendersAnnotation;
+  /** Equivalent of a @transparent annotation on the component */
+  transparent?: TransparentAnnotation;
+  /** Equivalent of @renders annotations on the component's props, keyed by prop name */
+  props?: Map<string, RendersAnnotation>;
+}
+
+/**
+ * External annotation manifest: module specifier → export name → annotations.
+ * Export names may be dotted to reach compound component members (Menu.Item).
+ */
+export type AnnotationManifest = Map<string, Map<string, ManifestComponentAnnotations>>;
+
+/**
+ * A component entry as written in settings and render-types.json files
+ */
+export interface ManifestEntryJSON {
+  /** @renders annotation text, e.g. "@renders? {Header}" */
+  renders?: string;
+  /** true for children, or the prop names to look through */
+  transparent?: true | string[];
+  /** @renders annotation text per prop name */
+  props?: Record<string, string>;
+}
+
+/**
+ * Annotation manifest as written in settings and render-types.json files:
+ * module specifier → export name → entry.
+ */
+export type AnnotationManifestJSON = Record<string, Record<string, ManifestEntryJSON>>;
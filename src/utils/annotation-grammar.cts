@@ -0,0 +1,607 @@
+/**
+ * Tokenizer and parser for the `@renders` annotation grammar:
+ *
+ *   annotation := "@renders" modifier? "!"? "{" type "}"
+ *   modifier   := "?" | "*"
+ *   type       := reference ("|" reference)*
+ *   reference  := Identifier ("." Identifier)*
+ *
+ * The parser produces a typed AST with absolute source offsets for every
+ * component name, modifier and operator, plus structured parse errors.
+ * It is shared by the JSDoc parser, the valid-renders-jsdoc rule and the
+ * language service plugin, so error positions and editor spans always agree.
+ *
+ * This module is CommonJS because tsserver loads the language service plugin
+ * with require(); the ESM rules import it through its .cjs output.
+ */
+
+/** Half-open range of offsets [start, end) into the parsed text */
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
+export type RendersTokenKind =
+  | "Tag"
+  | "Question"
+  | "Star"
+  | "Bang"
+  | "OpenBrace"
+  | "CloseBrace"
+  | "Pipe"
+  | "Dot"
+  | "Identifier"
+  | "Unknown"
+  | "EndOfLine"
+  | "EndOfInput";
+
+export interface RendersToken extends TextSpan {
+  kind: RendersTokenKind;
+  text: string;
+}
+
+export interface RendersIdentifierNode extends TextSpan {
+  type: "Identifier";
+  name: string;
+}
+
+/** A component reference such as `Header` or `Menu.Item` */
+export interface RendersReferenceNode extends TextSpan {
+  type: "Reference";
+  /** Dotted name as written, e.g. "Menu.Item" */
+  name: string;
+  segments: RendersIdentifierNode[];
+}
+
+/** A union of component references such as `Header | Footer` */
+export interface RendersUnionNode extends TextSpan {
+  type: "Union";
+  members: RendersReferenceNode[];
+  /** Spans of the `|` operators between members */
+  operators: TextSpan[];
+}
+
+export type RendersTypeNode = RendersReferenceNode | RendersUnionNode;
+
+export type RendersModifier = "required" | "optional" | "many";
+
+export interface RendersAnnotationNode extends TextSpan {
+  type: "RendersAnnotation";
+  /** Span of the `@renders` tag itself */
+  tag: TextSpan;
+  modifier: RendersModifier;
+  /** Span of the `?` or `*` modifier, null for required */
+  modifierSpan: TextSpan | null;
+  unchecked: boolean;
+  /** Span of the `!` marker, null when the annotation is checked */
+  uncheckedSpan: TextSpan | null;
+  openBrace: TextSpan;
+  closeBrace: TextSpan;
+  typeExpression: RendersTypeNode;
+}
+
+export type RendersParseErrorCode =
+  | "missingBraces"
+  | "missingType"
+  | "emptyType"
+  | "lowercaseComponent"
+  | "invalidComponentName"
+  | "expectedComponent"
+  | "unexpectedToken"
+  | "unterminatedBraces";
+
+export interface RendersParseError extends TextSpan {
+  code: RendersParseErrorCode;
+  message: string;
+  /** The offending component name, when the error is about one */
+  componentName?: string;
+  /** Corrected annotation text, when one can be derived */
+  suggestion?: string;
+}
+
+/**
+ * Result of parsing one `@renders` tag occurrence. A tag either yields an
+ * annotation or at least one error.
+ */
+export interface RendersParseResult extends TextSpan {
+  annotation: RendersAnnotationNode | null;
+  /** Span of the `@renders` tag */
+  tag: TextSpan;
+  /** Span between the braces; ends where parsing stopped if `}` is missing */
+  body: TextSpan | null;
+  /** Well-formed PascalCase references, collected even when the annotation has errors */
+  references: RendersReferenceNode[];
+  errors: RendersParseError[];
+}
+
+const TAG = "@renders";
+
+const IDENTIFIER_START = /[A-Za-z_$]/;
+const IDENTIFIER_PART = /[A-Za-z0-9_$]/;
+const DIGIT = /[0-9]/;
+const INLINE_WHITESPACE = /[ \t\f\v\r]/;
+
+/**
+ * Tokenize a `@renders` annotation starting at `start`, which must point at
+ * the `@` of the tag. Tokenization stops after the closing brace, at the
+ * comment terminator, at the end of the text, or — outside braces — at the
+ * end of the line. Inside braces, line breaks and JSDoc `*` line prefixes
+ * count as whitespace so annotations can span lines.
+ */
+export function tokenizeRendersAnnotation(
+  text: string,
+  start: number
+): RendersToken[] {
+  const tokens: RendersToken[] = [];
+  let pos = start;
+  let inBraces = false;
+
+  function push(kind: RendersTokenKind, end: number): void {
+    tokens.push({ kind, text: text.slice(pos, end), start: pos, end });
+    pos = end;
+  }
+
+  if (!text.startsWith(TAG, pos)) {
+    return [{ kind: "EndOfInput", text: "", start, end: start }];
+  }
+  push("Tag", pos + TAG.length);
+
+  for (;;) {
+    // Skip whitespace (and line breaks with their JSDoc prefix inside braces)
+    for (;;) {
+      const ch = text[pos];
+      if (ch !== undefined && INLINE_WHITESPACE.test(ch)) {
+        pos++;
+      } else if (ch === "\n" && inBraces) {
+        pos++;
+        while (pos < text.length && INLINE_WHITESPACE.test(text[pos])) pos++;
+        if (text[pos] === "*" && text[pos + 1] !== "/") pos++;
+      } else {
+        break;
+      }
+    }
+
+    const ch = text[pos];
+
+    if (ch === undefined) {
+      push("EndOfInput", pos);
+      return tokens;
+    }
+    if (ch === "\n") {
+      push("EndOfLine", pos);
+      return tokens;
+    }
+    if (ch === "*" && text[pos + 1] === "/") {
+      push("EndOfInput", pos);
+      return tokens;
+    }
+
+    switch (ch) {
+      case "?":
+        push("Question", pos + 1);
+        continue;
+      case "*":
+        push("Star", pos + 1);
+        continue;
+      case "!":
+        push("Bang", pos + 1);
+        continue;
+      case "{":
+        inBraces = true;
+        push("OpenBrace", pos + 1);
+        continue;
+      case "}":
+        push("CloseBrace", pos + 1);
+        return tokens;
+      case "|":
+        push("Pipe", pos + 1);
+        continue;
+      case ".":
+        push("Dot", pos + 1);
+        continue;
+    }
+
+    if (IDENTIFIER_START.test(ch)) {
+      let end = pos + 1;
+      while (end < text.length && IDENTIFIER_PART.test(text[end])) end++;
+      push("Identifier", end);
+      continue;
+    }
+
+    if (DIGIT.test(ch)) {
+      // Numbers glued to identifier characters (e.g. "123Header") form one token
+      let end = pos + 1;
+      while (end < text.length && IDENTIFIER_PART.test(text[end])) end++;
+      push("Unknown", end);
+      continue;
+    }
+
+    push("Unknown", pos + 1);
+  }
+}
+
+function isTagBoundary(text: string, index: number): boolean {
+  const before = index > 0 ? text[index - 1] : "";
+  const after = text[index + TAG.length] ?? "";
+  // "pre@renders" and "@@renders" are not tags; neither are "@renders-any" or "@rendersFoo"
+  return !/[a-zA-Z@]/.test(before) && !/[A-Za-z0-9_$-]/.test(after);
+}
+
+function isPascalCase(name: string): boolean {
+  return /^[A-Z]/.test(name);
+}
+
+function capitalize(name: string): string {
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+/**
+ * Render an annotation prefix: "@renders", "@renders?", "@renders*!", ...
+ */
+export function formatRendersTag(
+  modifier: RendersModifier,
+  unchecked: boolean
+): string {
+  const modifierChar =
+    modifier === "optional" ? "?" : modifier === "many" ? "*" : "";
+  return `${TAG}${modifierChar}${unchecked ? "!" : ""}`;
+}
+
+/**
+ * Render an annotation prefix ("@renders", "@renders?", "@renders*!", ...)
+ * followed by a braced type expression.
+ */
+export function formatRendersAnnotation(
+  modifier: RendersModifier,
+  unchecked: boolean,
+  componentNames: string[]
+): string {
+  return `${formatRendersTag(modifier, unchecked)} {${componentNames.join(" | ")}}`;
+}
+
+/**
+ * Parse the `@renders` tag starting at `start` (the `@` of the tag).
+ * Returns null when the tag is followed by something that is not an attempt
+ * at an annotation (e.g. prose mentioning "@renders annotations").
+ */
+export function parseRendersAnnotationAt(
+  text: string,
+  start: number
+): RendersParseResult | null {
+  const tokens = tokenizeRendersAnnotation(text, start);
+  const tagToken = tokens[0];
+  if (tagToken.kind !== "Tag") {
+    return null;
+  }
+
+  let index = 1;
+  const peek = (): RendersToken => tokens[index];
+  const next = (): RendersToken => tokens[index++];
+  const isAdjacent = (token: RendersToken): boolean =>
+    token.start === tokens[index - 1].end;
+
+  const errors: RendersParseError[] = [];
+  const references: RendersReferenceNode[] = [];
+  const tag: TextSpan = { start: tagToken.start, end: tagToken.end };
+
+  function result(
+    end: number,
+    annotation: RendersAnnotationNode | null,
+    body: TextSpan | null
+  ): RendersParseResult {
+    return { start, end, tag, annotation, body, references, errors };
+  }
+
+  // Modifiers must be glued to the tag: @renders? / @renders* / @renders!
+  let modifier: RendersModifier = "required";
+  let modifierSpan: TextSpan | null = null;
+  let uncheckedSpan: TextSpan | null = null;
+
+  if (
+    (peek().kind === "Question" || peek().kind === "Star") &&
+    isAdjacent(peek())
+  ) {
+    const token = next();
+    modifier = token.kind === "Question" ? "optional" : "many";
+    modifierSpan = { start: token.start, end: token.end };
+  }
+  if (peek().kind === "Bang" && isAdjacent(peek())) {
+    const token = next();
+    uncheckedSpan = { start: token.start, end: token.end };
+  }
+  if (
+    (peek().kind === "Question" ||
+      peek().kind === "Star" ||
+      peek().kind === "Bang") &&
+    isAdjacent(peek())
+  ) {
+    const token = next();
+    errors.push({
+      code: "unexpectedToken",
+      message: `Unexpected '${token.text}'. Write at most one of '?' or '*', followed by an optional '!': @renders?! {ComponentName}`,
+      start: token.start,
+      end: token.end,
+    });
+    return result(token.end, null, null);
+  }
+
+  const prefix = text.slice(start, tokens[index - 1].end);
+  const afterPrefix = peek();
+
+  if (afterPrefix.kind === "Identifier" && isPascalCase(afterPrefix.text)) {
+    // @renders Header — the type is there but the braces are not
+    const reference = parseReference();
+    if (!reference) {
+      return result(errors[errors.length - 1].end, null, null);
+    }
+    const { end, name } = reference;
+    errors.push({
+      code: "missingBraces",
+      message: `@renders annotation is missing braces. Use: ${prefix} {${name}}`,
+      componentName: name,
+      suggestion: `${prefix} {${name}}`,
+      start: afterPrefix.start,
+      end,
+    });
+    return result(end, null, null);
+  }
+
+  if (afterPrefix.kind === "EndOfLine" || afterPrefix.kind === "EndOfInput") {
+    errors.push({
+      code: "missingType",
+      message: "Provide a component name inside braces: @renders {ComponentName}",
+      start,
+      end: afterPrefix.start,
+    });
+    return result(afterPrefix.start, null, null);
+  }
+
+  if (afterPrefix.kind !== "OpenBrace") {
+    // Prose that merely mentions the tag
+    return null;
+  }
+
+  const openToken = next();
+  const openBrace: TextSpan = { start: openToken.start, end: openToken.end };
+  const members: RendersReferenceNode[] = [];
+  const operators: TextSpan[] = [];
+  const lowercaseErrors: RendersParseError[] = [];
+
+  function bodyUntil(end: number): TextSpan {
+    return { start: openBrace.end, end };
+  }
+
+  function unterminated(token: RendersToken): RendersParseResult {
+    errors.push({
+      code: "unterminatedBraces",
+      message: "Missing closing brace. Use: @renders {ComponentName}",
+      start: openBrace.start,
+      end: token.start,
+    });
+    return result(token.start, null, bodyUntil(token.start));
+  }
+
+  if (peek().kind === "CloseBrace") {
+    const closeToken = next();
+    errors.push({
+      code: "emptyType",
+      message: "Provide a component name inside braces: @renders {ComponentName}",
+      start: openBrace.start,
+      end: closeToken.end,
+    });
+    return result(closeToken.end, null, bodyUntil(closeToken.start));
+  }
+
+  /**
+   * Parse a dotted reference. Records lowercase segments in lowercaseErrors
+   * and structural problems in errors; returns null on structural errors.
+   */
+  function parseReference(): RendersReferenceNode | null {
+    const first = peek();
+
+    if (first.kind === "Unknown") {
+      errors.push(
+        DIGIT.test(first.text)
+          ? {
+              code: "invalidComponentName",
+              message: "Component name must start with an uppercase letter",
+              componentName: first.text,
+              start: first.start,
+              end: first.end,
+            }
+          : {
+              code: "unexpectedToken",
+              message: `Unexpected '${first.text}'. Expected a component name`,
+              start: first.start,
+              end: first.end,
+            }
+      );
+      return null;
+    }
+
+    if (first.kind !== "Identifier") {
+      errors.push({
+        code: "expectedComponent",
+        message:
+          first.kind === "Pipe" || first.kind === "CloseBrace"
+            ? `Expected a component name before '${first.text}'`
+            : "Expected a component name",
+        start: first.start,
+        end: first.end,
+      });
+      return null;
+    }
+
+    const segments: RendersIdentifierNode[] = [];
+    segments.push({
+      type: "Identifier",
+      name: next().text,
+      start: first.start,
+      end: first.end,
+    });
+
+    while (peek().kind === "Dot") {
+      const dot = next();
+      const segment = peek();
+      if (segment.kind !== "Identifier") {
+        errors.push({
+          code: "expectedComponent",
+          message: "Expected a name after '.'",
+          start: dot.start,
+          end: segment.kind === "EndOfLine" || segment.kind === "EndOfInput"
+            ? dot.end
+            : segment.end,
+        });
+        return null;
+      }
+      next();
+      segments.push({
+        type: "Identifier",
+        name: segment.text,
+        start: segment.start,
+        end: segment.end,
+      });
+    }
+
+    const reference: RendersReferenceNode = {
+      type: "Reference",
+      name: segments.map((s) => s.name).join("."),
+      segments,
+      start: segments[0].start,
+      end: segments[segments.length - 1].end,
+    };
+
+    if (segments.every((s) => isPascalCase(s.name))) {
+      references.push(reference);
+    } else {
+      lowercaseErrors.push({
+        code: "lowercaseComponent",
+        message: "Component names must be PascalCase",
+        componentName: reference.name,
+        start: reference.start,
+        end: reference.end,
+      });
+    }
+
+    return reference;
+  }
+
+  for (;;) {
+    const startToken = peek();
+    if (startToken.kind === "EndOfLine" || startToken.kind === "EndOfInput") {
+      return unterminated(startToken);
+    }
+
+    const reference = parseReference();
+    if (!reference) {
+      const stop = errors[errors.length - 1];
+      return result(stop.end, null, bodyUntil(stop.start));
+    }
+    members.push(reference);
+
+    const separator = peek();
+    if (separator.kind === "Pipe") {
+      next();
+      operators.push({ start: separator.start, end: separator.end });
+      continue;
+    }
+    if (separator.kind === "CloseBrace") {
+      break;
+    }
+    if (separator.kind === "EndOfLine" || separator.kind === "EndOfInput") {
+      return unterminated(separator);
+    }
+
+    errors.push({
+      code: "unexpectedToken",
+      message: `Unexpected '${separator.text}'. Separate union members with '|' and close the type with '}'`,
+      start: separator.start,
+      end: separator.end,
+    });
+    return result(separator.end, null, bodyUntil(separator.start));
+  }
+
+  const closeToken = next();
+  const closeBrace: TextSpan = { start: closeToken.start, end: closeToken.end };
+  const body = bodyUntil(closeBrace.start);
+
+  if (lowercaseErrors.length > 0) {
+    const corrected = formatRendersAnnotation(
+      modifier,
+      uncheckedSpan !== null,
+      members.map((m) => m.segments.map((s) => capitalize(s.name)).join("."))
+    );
+    for (const error of lowercaseErrors) {
+      errors.push({
+        ...error,
+        message: `Component names must be PascalCase. Did you mean ${corrected}?`,
+        suggestion: corrected,
+      });
+    }
+    return result(closeBrace.end, null, body);
+  }
+
+  const typeExpression: RendersTypeNode =
+    members.length === 1
+      ? members[0]
+      : {
+          type: "Union",
+          members,
+          operators,
+          start: members[0].start,
+          end: members[members.length - 1].end,
+        };
+
+  return result(
+    closeBrace.end,
+    {
+      type: "RendersAnnotation",
+      tag,
+      modifier,
+      modifierSpan,
+      unchecked: uncheckedSpan !== null,
+      uncheckedSpan,
+      openBrace,
+      closeBrace,
+      typeExpression,
+      start,
+      end: closeBrace.end,
+    },
+    body
+  );
+}
+
+/**
+ * Parse every `@renders` tag occurrence in a piece of text (a single comment
+ * or a whole source file). Offsets in the results are relative to `text`.
+ */
+export function parseRendersAnnotations(text: string): RendersParseResult[] {
+  const results: RendersParseResult[] = [];
+  if (!text) {
+    return results;
+  }
+
+  let index = text.indexOf(TAG);
+  while (index !== -1) {
+    if (isTagBoundary(text, index)) {
+      const parsed = parseRendersAnnotationAt(text, index);
+      if (parsed) {
+        results.push(parsed);
+        index = text.indexOf(TAG, Math.max(parsed.end, index + TAG.length));
+        continue;
+      }
+    }
+    index = text.indexOf(TAG, index + TAG.length);
+  }
+
+  return results;
+}
+
+/**
+ * Flatten a type expression into its component references, in source order.
+ */
+export function getTypeReferences(
+  node: RendersTypeNode
+): RendersReferenceNode[] {
+  return node.type === "Union" ? node.members : [node];
+}
@@ -0,0 +1,172 @@
+import type {
+  AnnotationManifest,
+  ManifestComponentAnnotations,
+  RendersAnnotation,
+} from "../types/index.js";
+import { parseRendersAnnotation, parseTransparentAnnotation } from "./jsdoc-parser.js";
+import ts from "typescript";
+
+/**
+ * File name of the annotation manifest a package can ship next to its package.json
+ */
+export const MANIFEST_FILENAME = "render-types.json";
+
+/**
+ * Package manifests keyed by package directory, null when the package has none.
+ * Entries remember the manifest's modification time and are re-read when it
+ * changes, so long-running sessions pick up regenerated manifests.
+ */
+const packageManifestCache = new Map<
+  string,
+  { manifest: AnnotationManifest | null; modifiedTime: number | undefined }
+>();
+
+/**
+ * Clear the package manifest cache.
+ */
+export function clearManifestCache(): void {
+  packageManifestCache.clear();
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Parse annotation text such as "@renders? {Header}" with the JSDoc grammar
+ */
+function parseManifestRenders(value: unknown): RendersAnnotation | null {
+  return typeof value === "string" ? parseRendersAnnotation(value) : null;
+}
+
+/**
+ * Parse one component entry. Returns null when it declares nothing usable.
+ *
+ * Entry format:
+ *   - renders: "@renders {Header}" (any @renders form, including modifiers and unions)
+ *   - transparent: true (children) or a list of prop names to look through
+ *   - props: { propName: "@renders {Header}" }
+ */
+function parseComponentEntry(value: unknown): ManifestComponentAnnotations | null {
+  if (!isRecord(value)) return null;
+
+  const entry: ManifestComponentAnnotations = {};
+
+  const renders = parseManifestRenders(value.renders);
+  if (renders) {
+    entry.renders = renders;
+  }
+
+  if (value.transparent === true) {
+    entry.transparent = { propNames: ["children"] };
+  } else if (
+    Array.isArray(value.transparent) &&
+    value.transparent.every((p) => typeof p === "string")
+  ) {
+    const transparent = parseTransparentAnnotation(
+      `@transparent {${value.transparent.join(", ")}}`
+    );
+    if (transparent) {
+      entry.transparent = transparent;
+    }
+  }
+
+  if (isRecord(value.props)) {
+    const props = new Map<string, RendersAnnotation>();
+    for (const [propName, text] of Object.entries(value.props)) {
+      const annotation = parseManifestRenders(text);
+      if (annotation) {
+        props.set(propName, annotation);
+      }
+    }
+    if (props.size > 0) {
+      entry.props = props;
+    }
+  }
+
+  return entry.renders || entry.transparent || entry.props ? entry : null;
+}
+
+/**
+ * Parse a raw annotation manifest (from settings or a render-types.json file).
+ * Malformed modules, components and annotations are skipped.
+ */
+export function parseAnnotationManifest(value: unknown): AnnotationManifest {
+  const manifest: AnnotationManifest = new Map();
+  if (!isRecord(value)) return manifest;
+
+  for (const [moduleSpecifier, components] of Object.entries(value)) {
+    if (!isRecord(components)) continue;
+
+    const entries = new Map<string, ManifestComponentAnnotations>();
+    for (const [exportName, entryValue] of Object.entries(components)) {
+      const entry = parseComponentEntry(entryValue);
+      if (entry) {
+        entries.set(exportName, entry);
+      }
+    }
+
+    if (entries.size > 0) {
+      manifest.set(moduleSpecifier, entries);
+    }
+  }
+
+  return manifest;
+}
+
+/**
+ * Get the parent directory of a normalized (forward-slash) path,
+ * or null at the file system root.
+ */
+export function getParentDirectory(fileName: string): string | null {
+  const index = fileName.lastIndexOf("/");
+  return index > 0 ? fileName.slice(0, index) : null;
+}
+
+/**
+ * Find the directory of the package containing a file (nearest package.json).
+ * File names come from the TypeScript program, so paths use forward slashes.
+ */
+export function findPackageDirectory(fileName: string): string | null {
+  let directory = getParentDirectory(fileName);
+
+  while (directory) {
+    if (ts.sys.fileExists(`${directory}/package.json`)) {
+      return directory;
+    }
+    directory = getParentDirectory(directory);
+  }
+
+  return null;
+}
+
+/**
+ * Read the render-types.json manifest shipped by the package containing a file.
+ * Returns null when the package has no manifest or it isn't valid JSON.
+ */
+export function readPackageManifest(fileName: string): AnnotationManifest | null {
+  const packageDirectory = findPackageDirectory(fileName);
+  if (!packageDirectory) {
+    return null;
+  }
+
+  const manifestPath = `${packageDirectory}/${MANIFEST_FILENAME}`;
+  const modifiedTime = ts.sys.getModifiedTime?.(manifestPath)?.getTime();
+  const cached = packageManifestCache.get(packageDirectory);
+  if (cached && cached.modifiedTime === modifiedTime) {
+    return cached.manifest;
+  }
+
+  let manifest: AnnotationManifest | null = null;
+  const manifestText = ts.sys.readFile(manifestPath);
+  if (manifestText !== undefined) {
+    try {
+      manifest = parseAnnotationManifest(JSON.parse(manifestText));
+    } catch {
+      manifest = null;
+    }
+  }
+
+  packageManifestCache.set(packageDirectory, { manifest, modifiedTime });
+  return manifest;
+}
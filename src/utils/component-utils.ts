@@ -92,6 +92,224 @@ export function getWrappingVariableDeclarator(
   return null;
 }
 
+/**
+ * Name anonymous default exports go by: their component type ID is the
+ * file's "default" export, however the component is imported
+ */
+export const DEFAULT_EXPORT_NAME = "default";
+
+/**
+ * Get the `export default` declaration a function or class is the default
+ * export of, directly or through React wrapper calls.
+ *
+ * Handles patterns like:
+ *   export default function () {}
+ *   export default class extends Component {}
+ *   export default memo(() => ...)
+ *   export default memo(forwardRef((props, ref) => ...))
+ */
+export function getDefaultExportDeclaration(
+  node: FunctionNode | TSESTree.ClassDeclaration | TSESTree.ClassExpression,
+  additionalWrappers?: Set<string>
+): TSESTree.ExportDefaultDeclaration | null {
+  let current: TSESTree.Node = node;
+
+  while (
+    current.parent?.type === "CallExpression" &&
+    isReactWrapperCall(current.parent, additionalWrappers)
+  ) {
+    current = current.parent;
+  }
+
+  return current.parent?.type === "ExportDefaultDeclaration" ? current.parent : null;
+}
+
+/**
+ * Get the static member path of an expression: Menu.Item -> "Menu.Item"
+ */
+function getMemberPath(node: TSESTree.Node): string | null {
+  if (node.type === "Identifier") {
+    return node.name;
+  }
+  if (
+    node.type === "MemberExpression" &&
+    !node.computed &&
+    node.property.type === "Identifier"
+  ) {
+    const objectPath = getMemberPath(node.object);
+    return objectPath ? `${objectPath}.${node.property.name}` : null;
+  }
+  return null;
+}
+
+/**
+ * Check if a node is an Object.assign(...) call
+ */
+function isObjectAssignCall(node: TSESTree.Node): node is TSESTree.CallExpression {
+  return (
+    node.type === "CallExpression" &&
+    node.callee.type === "MemberExpression" &&
+    getMemberPath(node.callee) === "Object.assign"
+  );
+}
+
+/**
+ * A compound component member defined inline, e.g. Menu.Item
+ */
+export interface CompoundMember {
+  /** Member path, e.g. "Menu.Item" */
+  name: string;
+  /** Node whose leading comments hold the member's JSDoc */
+  annotationNode: TSESTree.Node;
+}
+
+/**
+ * Get the compound component member a function or class defines.
+ * Handles:
+ *   Menu.Item = function Item() {}
+ *   const Menu = { Item: () => ... }
+ *   const Menu = Object.assign(MenuRoot, { Item: () => ... })
+ */
+export function getCompoundMember(
+  node: FunctionNode | TSESTree.ClassExpression
+): CompoundMember | null {
+  const { parent } = node;
+
+  // Menu.Item = function Item() {}
+  if (
+    parent?.type === "AssignmentExpression" &&
+    parent.operator === "=" &&
+    parent.right === node &&
+    parent.left.type === "MemberExpression"
+  ) {
+    const name = getMemberPath(parent.left);
+    if (!name || !name.includes(".")) {
+      return null;
+    }
+    return {
+      name,
+      annotationNode:
+        parent.parent?.type === "ExpressionStatement" ? parent.parent : parent,
+    };
+  }
+
+  // { Item: () => ... } as a variable initializer or Object.assign() argument
+  if (
+    parent?.type === "Property" &&
+    parent.value === node &&
+    !parent.computed &&
+    parent.key.type === "Identifier" &&
+    parent.parent.type === "ObjectExpression"
+  ) {
+    const object = parent.parent;
+    const owner =
+      object.parent && isObjectAssignCall(object.parent)
+        ? object.parent.parent
+        : object.parent;
+
+    if (owner?.type === "VariableDeclarator" && owner.id.type === "Identifier") {
+      return { name: `${owner.id.name}.${parent.key.name}`, annotationNode: parent };
+    }
+  }
+
+  return null;
+}
+
+type ClassNode = TSESTree.ClassDeclaration | TSESTree.ClassExpression;
+
+/**
+ * Get component name from a class component
+ * Handles:
+ *   class Foo extends React.Component {}
+ *   const Foo = class extends React.Component {}
+ *   Foo.Bar = class extends React.Component {}
+ */
+export function getClassComponentName(node: ClassNode): string | null {
+  if (node.type === "ClassExpression") {
+    const compound = getCompoundMember(node);
+    if (compound) {
+      return compound.name;
+    }
+  }
+
+  if (
+    node.type === "ClassExpression" &&
+    node.parent?.type === "VariableDeclarator" &&
+    node.parent.id.type === "Identifier"
+  ) {
+    return node.parent.id.name;
+  }
+
+  return node.id?.name ?? null;
+}
+
+/**
+ * Get the node whose leading comments hold a class component's JSDoc:
+ * the class declaration, or the variable statement for class expressions,
+ * or the surrounding export declaration.
+ */
+export function getClassAnnotationNode(node: ClassNode): TSESTree.Node {
+  if (node.type === "ClassExpression") {
+    const compound = getCompoundMember(node);
+    if (compound) {
+      return compound.annotationNode;
+    }
+  }
+
+  let annotationNode: TSESTree.Node = node;
+
+  if (
+    node.type === "ClassExpression" &&
+    node.parent?.type === "VariableDeclarator" &&
+    node.parent.parent?.type === "VariableDeclaration"
+  ) {
+    annotationNode = node.parent.parent;
+  }
+
+  if (
+    annotationNode.parent?.type === "ExportNamedDeclaration" ||
+    annotationNode.parent?.type === "ExportDefaultDeclaration"
+  ) {
+    annotationNode = annotationNode.parent;
+  }
+
+  return annotationNode;
+}
+
+/**
+ * Get the render() function of a class component.
+ * Handles `render() {}` methods and `render = () => ...` class properties.
+ */
+export function getClassRenderFunction(
+  node: ClassNode
+): TSESTree.FunctionExpression | TSESTree.ArrowFunctionExpression | null {
+  for (const member of node.body.body) {
+    if (
+      (member.type !== "MethodDefinition" && member.type !== "PropertyDefinition") ||
+      member.static ||
+      member.computed ||
+      member.key.type !== "Identifier" ||
+      member.key.name !== "render"
+    ) {
+      continue;
+    }
+
+    if (member.type === "MethodDefinition" && member.kind === "method") {
+      return member.value.type === "FunctionExpression" ? member.value : null;
+    }
+
+    if (
+      member.type === "PropertyDefinition" &&
+      (member.value?.type === "ArrowFunctionExpression" ||
+        member.value?.type === "FunctionExpression")
+    ) {
+      return member.value;
+    }
+  }
+
+  return null;
+}
+
 /**
  * Recursively resolve a JSX name to a string
  */
@@ -121,3 +339,229 @@ function resolveJSXName(
       return null;
   }
 }
+
+/** React element factories: React.createElement and the automatic JSX runtime */
+const ELEMENT_FACTORY_NAMES = new Set(["createElement", "jsx", "jsxs", "jsxDEV"]);
+
+/** Modules the element factories are imported from */
+const ELEMENT_FACTORY_MODULES = new Set([
+  "react",
+  "react/jsx-runtime",
+  "react/jsx-dev-runtime",
+]);
+
+/**
+ * Find the import specifier that declares an identifier's name, if it's
+ * imported from a React module
+ */
+function findReactImportSpecifier(
+  identifier: TSESTree.Identifier
+): { specifier: TSESTree.ImportClause; source: string } | null {
+  let program: TSESTree.Node = identifier;
+  while (program.parent) {
+    program = program.parent;
+  }
+  if (program.type !== "Program") {
+    return null;
+  }
+
+  for (const statement of program.body) {
+    if (
+      statement.type !== "ImportDeclaration" ||
+      !ELEMENT_FACTORY_MODULES.has(statement.source.value)
+    ) {
+      continue;
+    }
+    for (const specifier of statement.specifiers) {
+      if (specifier.local.name === identifier.name) {
+        return { specifier, source: statement.source.value };
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Get the name an identifier was imported under from a React module,
+ * so aliased runtime imports (`import { jsx as _jsx } from "react/jsx-runtime"`)
+ * are recognized. Returns null if the identifier isn't such an import.
+ */
+function getReactImportedName(identifier: TSESTree.Identifier): string | null {
+  const found = findReactImportSpecifier(identifier);
+  if (found?.specifier.type !== "ImportSpecifier") {
+    return null;
+  }
+  const { imported } = found.specifier;
+  return imported.type === "Identifier" ? imported.name : imported.value;
+}
+
+/**
+ * Check if an identifier is the default or namespace import of react
+ * (`import React from "react"`, `import * as React from "react"`)
+ */
+function isReactNamespaceImport(identifier: TSESTree.Identifier): boolean {
+  const found = findReactImportSpecifier(identifier);
+  return (
+    found !== null &&
+    found.source === "react" &&
+    (found.specifier.type === "ImportDefaultSpecifier" ||
+      found.specifier.type === "ImportNamespaceSpecifier")
+  );
+}
+
+/**
+ * Get the React element factory a call invokes (createElement, jsx, jsxs,
+ * jsxDEV), or null when the callee isn't imported from React. Same-named
+ * functions from elsewhere (`document.createElement`, a local `jsx()`) don't count.
+ */
+function getElementFactoryName(callee: TSESTree.Expression): string | null {
+  if (callee.type === "Identifier") {
+    const importedName = getReactImportedName(callee);
+    return importedName !== null && ELEMENT_FACTORY_NAMES.has(importedName) ? importedName : null;
+  }
+
+  if (
+    callee.type === "MemberExpression" &&
+    !callee.computed &&
+    callee.object.type === "Identifier" &&
+    callee.property.type === "Identifier" &&
+    ELEMENT_FACTORY_NAMES.has(callee.property.name) &&
+    isReactNamespaceImport(callee.object)
+  ) {
+    return callee.property.name;
+  }
+
+  return null;
+}
+
+/**
+ * Check if a CallExpression creates a React element without JSX syntax.
+ * Matches `createElement(...)`, `React.createElement(...)` and the JSX runtime's
+ * `jsx(...)` / `jsxs(...)` / `jsxDEV(...)`, including aliased runtime imports,
+ * when they're imported from react or its JSX runtimes.
+ */
+export function isCreateElementCall(node: TSESTree.CallExpression): boolean {
+  return getElementFactoryName(node.callee) !== null;
+}
+
+/**
+ * Resolve an element type expression to a name, mirroring JSX names
+ */
+function resolveElementTypeName(expr: TSESTree.Node): string | null {
+  switch (expr.type) {
+    case "Identifier":
+      return expr.name;
+
+    case "MemberExpression": {
+      if (expr.computed || expr.property.type !== "Identifier") {
+        return null;
+      }
+      const objectName = resolveElementTypeName(expr.object);
+      if (objectName === null) {
+        return null;
+      }
+      return `${objectName}.${expr.property.name}`;
+    }
+
+    case "Literal":
+      // Intrinsic elements: createElement("div")
+      return typeof expr.value === "string" ? expr.value : null;
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Get the element name from a createElement / jsx call
+ * Handles:
+ * - Identifiers: createElement(Header) -> "Header"
+ * - Member expressions: jsx(Menu.Item, {}) -> "Menu.Item"
+ * - Intrinsic elements: createElement("div") -> "div"
+ */
+export function getCreateElementName(
+  node: TSESTree.CallExpression
+): string | null {
+  const [type] = node.arguments;
+  if (!type || type.type === "SpreadElement") {
+    return null;
+  }
+  return resolveElementTypeName(type);
+}
+
+/**
+ * A prop passed through a createElement / jsx props object literal
+ */
+export interface CreateElementProp {
+  name: string;
+  value: TSESTree.Expression;
+  node: TSESTree.Property;
+}
+
+/**
+ * Get the statically known props of a createElement / jsx call.
+ * Only non-computed properties of an object literal are returned;
+ * spreads and shorthand methods are skipped.
+ */
+export function getCreateElementProps(
+  node: TSESTree.CallExpression
+): CreateElementProp[] {
+  const props = node.arguments[1];
+  if (!props || props.type !== "ObjectExpression") {
+    return [];
+  }
+
+  const results: CreateElementProp[] = [];
+  for (const property of props.properties) {
+    if (property.type !== "Property" || property.computed || property.method) {
+      continue;
+    }
+
+    let name: string | null = null;
+    if (property.key.type === "Identifier") {
+      name = property.key.name;
+    } else if (property.key.type === "Literal" && typeof property.key.value === "string") {
+      name = property.key.value;
+    }
+
+    if (name !== null && property.value.type !== "AssignmentPattern" && property.value.type !== "TSEmptyBodyFunctionExpression") {
+      results.push({ name, value: property.value as TSESTree.Expression, node: property });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Get the children of a createElement / jsx call.
+ * Positional children (`createElement(Menu, null, a, b)`) take precedence over
+ * `props.children`; an array literal (as passed to `jsxs`) is flattened.
+ */
+export function getCreateElementChildren(
+  node: TSESTree.CallExpression
+): TSESTree.Expression[] {
+  const positional = node.arguments.slice(2);
+  const isCreateElement = getElementFactoryName(node.callee) === "createElement";
+
+  let children: TSESTree.Expression[];
+  if (isCreateElement && positional.length > 0) {
+    children = positional.map((arg) =>
+      arg.type === "SpreadElement" ? arg.argument : arg
+    );
+  } else {
+    const childrenProp = getCreateElementProps(node).find(
+      (prop) => prop.name === "children"
+    );
+    children = childrenProp ? [childrenProp.value] : [];
+  }
+
+  return children.flatMap((child) =>
+    child.type === "ArrayExpression"
+      ? child.elements.flatMap((element) => {
+          if (!element) return [];
+          return [element.type === "SpreadElement" ? element.argument : element];
+        })
+      : [child]
+  );
+}
@@ -1,6 +1,8 @@
 import type { ParserServicesWithTypeInformation } from "@typescript-eslint/utils";
 import type { SourceCode } from "@typescript-eslint/utils/ts-eslint";
 import type {
+  AnnotationManifest,
+  ManifestComponentAnnotations,
   RendersAnnotation,
   ResolvedRendersAnnotation,
   ResolvedRenderMap,
@@ -8,31 +10,132 @@ import type {
   TransparentAnnotation,
 } from "../types/index.js";
 import { parseRendersAnnotation, parseTransparentAnnotation } from "./jsdoc-parser.js";
+import { clearManifestCache, readPackageManifest } from "./annotation-manifest.js";
+import { DEFAULT_EXPORT_NAME } from "./component-utils.js";
+import { createSummaryCache } from "./summary-cache.js";
+import type { ComponentSummary, FileSummary } from "./summary-cache.js";
 import ts from "typescript";
 
 type RenderMap = Map<string, RendersAnnotation>;
 
+const REACT_WRAPPER_NAMES = new Set(["forwardRef", "memo"]);
+
+/**
+ * A component name from a @renders annotation or type alias, with the node
+ * whose scope the name resolves in
+ */
+interface RenderTarget {
+  name: string;
+  scopeNode: ts.Node;
+}
+
 export interface CrossFileResolverOptions {
-  parserServices: ParserServicesWithTypeInformation;
-  sourceCode: SourceCode;
+  /** Only the program is used, so a plain TypeScript program works outside ESLint too */
+  parserServices: Pick<ParserServicesWithTypeInformation, "program">;
+  sourceCode?: SourceCode;
   filename: string;
+  /** Annotations for external components from settings; they take precedence over package manifests */
+  externalAnnotations?: AnnotationManifest;
+  /** Directory for persistent per-file annotation summaries, shared across runs and workers */
+  cacheDirectory?: string;
+  /** Wrapper functions besides memo and forwardRef, followed from default exports */
+  additionalComponentWrappers?: Set<string>;
+}
+
+/**
+ * Annotations of a component exported by a module, as collected for
+ * annotation manifests. exportName is the member path from the module
+ * (Card, Menu.Item, Layout.Header for `export * as Layout`).
+ */
+export interface ExportedComponentAnnotations {
+  exportName: string;
+  typeId: ComponentTypeId;
+  renders: ResolvedRendersAnnotation | null;
+  transparent: TransparentAnnotation | null;
+  props: Map<string, ResolvedRendersAnnotation> | null;
+}
+
+/**
+ * A slot prop of an exported component without a @renders or @renders-any
+ * annotation. range is the prop's name when it's declared in the linted file,
+ * and the component's name otherwise (props inherited from other files).
+ */
+export interface UnannotatedSlotProp {
+  componentName: string;
+  propName: string;
+  range: [number, number];
+}
+
+/**
+ * Explicit opt-out for slot props that accept any content
+ */
+const RENDERS_ANY_PATTERN = /@renders-any(?![\w-])/;
+
+/**
+ * Annotation caches for one program.
+ * renderGraph is the project-wide render graph: resolved @renders annotations
+ * keyed by component type ID ("filePath:symbolName"), filled lazily as chains
+ * are followed. null records components without an annotation.
+ * transparentAnnotations is keyed by type ID as well; externalTransparentAnnotations
+ * holds lookups by imported name ("moduleFile:exportName").
+ */
+interface ProgramCaches {
+  renderGraph: Map<ComponentTypeId, ResolvedRendersAnnotation | null>;
+  transparentAnnotations: Map<ComponentTypeId, TransparentAnnotation | null>;
+  externalTransparentAnnotations: Map<string, TransparentAnnotation | null>;
+  fileSummaries: Map<ts.SourceFile, FileSummary | null>;
 }
 
 /**
- * Cache for resolved annotations across files.
- * Key format: "filePath:componentName"
- * This is module-scoped and persists during a lint run.
+ * Caches keyed by the ts.Program they were computed from, then by the settings
+ * that change how annotations resolve. The language service builds a new
+ * program whenever any file changes, so an edited annotation in a dependency is
+ * picked up on the next lint in long-running sessions (eslint_d, editor
+ * integrations), and caches of superseded programs are garbage collected along
+ * with them.
  */
-const annotationCache = new Map<string, RendersAnnotation | null>();
-const transparentAnnotationCache = new Map<string, TransparentAnnotation | null>();
+let programCaches = new WeakMap<ts.Program, Map<string, ProgramCaches>>();
+
+/**
+ * Serialize the settings annotation resolution depends on, for use as a cache key
+ */
+function getResolutionSettingsKey(
+  externalAnnotations: AnnotationManifest | undefined,
+  additionalComponentWrappers: Set<string> | undefined
+): string {
+  return JSON.stringify(
+    [[...(additionalComponentWrappers ?? [])].sort(), externalAnnotations ?? null],
+    (_key, value: unknown) => (value instanceof Map ? [...value] : value)
+  );
+}
+
+function getProgramCaches(program: ts.Program, settingsKey: string): ProgramCaches {
+  let cachesBySettings = programCaches.get(program);
+  if (!cachesBySettings) {
+    cachesBySettings = new Map();
+    programCaches.set(program, cachesBySettings);
+  }
+
+  let caches = cachesBySettings.get(settingsKey);
+  if (!caches) {
+    caches = {
+      renderGraph: new Map(),
+      transparentAnnotations: new Map(),
+      externalTransparentAnnotations: new Map(),
+      fileSummaries: new Map(),
+    };
+    cachesBySettings.set(settingsKey, caches);
+  }
+  return caches;
+}
 
 /**
  * Clear the annotation cache.
- * Should be called at the start of a new lint run if needed.
+ * Caches are already invalidated when the program changes; this drops them eagerly.
  */
 export function clearAnnotationCache(): void {
-  annotationCache.clear();
-  transparentAnnotationCache.clear();
+  programCaches = new WeakMap();
+  clearManifestCache();
 }
 
 /**
@@ -40,13 +143,51 @@ export function clearAnnotationCache(): void {
  * from imported components using TypeScript's type system.
  */
 export function createCrossFileResolver(options: CrossFileResolverOptions) {
-  const { parserServices, filename } = options;
+  const { parserServices, filename, externalAnnotations, cacheDirectory, additionalComponentWrappers } = options;
   const program = parserServices.program;
   const typeChecker = program.getTypeChecker();
+  const {
+    renderGraph: renderGraphCache,
+    transparentAnnotations: transparentAnnotationCache,
+    externalTransparentAnnotations: externalTransparentAnnotationCache,
+    fileSummaries,
+  } = getProgramCaches(program, getResolutionSettingsKey(externalAnnotations, additionalComponentWrappers));
+  const summaryCache = cacheDirectory
+    ? createSummaryCache(cacheDirectory, program, { additionalComponentWrappers })
+    : null;
+
+  // Files read while computing a file summary, recorded so the summary is
+  // invalidated when any of them changes; null when no summary is being computed
+  let summaryDependencies: Set<string> | null = null;
+  const summariesInProgress = new Set<ts.SourceFile>();
+
+  function recordDependency(node: ts.Node | undefined): void {
+    if (summaryDependencies && node) {
+      summaryDependencies.add(node.getSourceFile().fileName);
+    }
+  }
 
   // Get the TypeScript source file for the current file being linted
   const currentSourceFile = program.getSourceFile(filename);
 
+  // Declaration behind every type ID handed out by this resolver, so the
+  // render graph can look up the annotation of any component a chain reaches
+  const declarationsByTypeId = new Map<ComponentTypeId, ts.Declaration>();
+
+  // Components declared in annotation manifests, with the module whose
+  // exports their annotation names resolve against
+  const manifestComponents = new Map<
+    ComponentTypeId,
+    { annotations: ManifestComponentAnnotations; moduleSymbol: ts.Symbol }
+  >();
+  const manifestIndexedFiles = new Set<ts.SourceFile>();
+  const indexedPackageManifests = new Set<AnnotationManifest>();
+  const moduleResolutionCache = ts.createModuleResolutionCache(
+    program.getCurrentDirectory(),
+    (fileName) => fileName,
+    program.getCompilerOptions()
+  );
+
   /**
    * Get JSDoc comment text from a TypeScript node
    */
@@ -78,53 +219,70 @@ export function createCrossFileResolver(options: CrossFileResolverOptions) {
   }
 
   /**
-   * Get @renders annotation from a TypeScript declaration node
+   * Get the JSDoc text documenting a component declaration.
+   * Handles:
+   * - Variable declarations: the JSDoc sits on the variable statement
+   * - Function and class declarations, export assignments (export default ...)
+   * - Compound component members: object literal properties
+   *   (`const Menu = { Item }`, `Object.assign(Root, { Item })`) and
+   *   static property assignments (`Menu.Item = function Item() {}`)
    */
-  function getAnnotationFromDeclaration(
-    declaration: ts.Declaration
-  ): RendersAnnotation | null {
-    // Handle variable declarations (const Foo = ...)
+  function getDeclarationJSDoc(declaration: ts.Node): string | null {
     if (ts.isVariableDeclaration(declaration)) {
-      // Check the parent variable statement
       const varDeclList = declaration.parent;
       if (ts.isVariableDeclarationList(varDeclList)) {
         const varStatement = varDeclList.parent;
         if (ts.isVariableStatement(varStatement)) {
-          const jsDoc = getJSDocText(varStatement);
-          if (jsDoc) {
-            return parseRendersAnnotation(jsDoc);
-          }
+          return getJSDocText(varStatement);
         }
       }
+      return null;
     }
 
-    // Handle function declarations
-    if (ts.isFunctionDeclaration(declaration)) {
-      const jsDoc = getJSDocText(declaration);
-      if (jsDoc) {
-        return parseRendersAnnotation(jsDoc);
-      }
+    if (
+      ts.isFunctionDeclaration(declaration) ||
+      ts.isClassDeclaration(declaration) ||
+      ts.isExportAssignment(declaration) ||
+      ts.isPropertyAssignment(declaration) ||
+      ts.isShorthandPropertyAssignment(declaration) ||
+      ts.isMethodDeclaration(declaration)
+    ) {
+      return getJSDocText(declaration);
     }
 
-    // Handle export assignment (export default ...)
-    if (ts.isExportAssignment(declaration)) {
-      const jsDoc = getJSDocText(declaration);
-      if (jsDoc) {
-        return parseRendersAnnotation(jsDoc);
-      }
+    // Static property assignment: Menu.Item = ... (declared by the assignment
+    // or by its left-hand side, depending on how the checker bound it)
+    const assignment =
+      ts.isPropertyAccessExpression(declaration) && declaration.parent && ts.isBinaryExpression(declaration.parent)
+        ? declaration.parent
+        : declaration;
+    if (
+      ts.isBinaryExpression(assignment) &&
+      assignment.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
+      ts.isExpressionStatement(assignment.parent)
+    ) {
+      return getJSDocText(assignment.parent);
     }
 
     return null;
   }
 
   /**
-   * Resolve a symbol to its original declaration, following aliases
+   * Get @renders annotation from a TypeScript declaration node
    */
-  function resolveSymbolToDeclaration(
-    symbol: ts.Symbol
-  ): ts.Declaration | null {
-    // Follow alias symbols to their original declaration
+  function getAnnotationFromDeclaration(
+    declaration: ts.Declaration
+  ): RendersAnnotation | null {
+    const jsDoc = getDeclarationJSDoc(declaration);
+    return jsDoc ? parseRendersAnnotation(jsDoc) : null;
+  }
+
+  /**
+   * Follow alias symbols (imports, re-exports) to the original symbol
+   */
+  function resolveAlias(symbol: ts.Symbol): ts.Symbol {
     let resolvedSymbol = symbol;
+    recordDependency(resolvedSymbol.getDeclarations()?.[0]);
 
     while (resolvedSymbol.flags & ts.SymbolFlags.Alias) {
       const aliasedSymbol = typeChecker.getAliasedSymbol(resolvedSymbol);
@@ -132,9 +290,19 @@ export function createCrossFileResolver(options: CrossFileResolverOptions) {
         break;
       }
       resolvedSymbol = aliasedSymbol;
+      recordDependency(resolvedSymbol.getDeclarations()?.[0]);
     }
 
-    const declarations = resolvedSymbol.getDeclarations();
+    return resolvedSymbol;
+  }
+
+  /**
+   * Resolve a symbol to its original declaration, following aliases
+   */
+  function resolveSymbolToDeclaration(
+    symbol: ts.Symbol
+  ): ts.Declaration | null {
+    const declarations = resolveAlias(symbol).getDeclarations();
     if (!declarations || declarations.length === 0) {
       return null;
     }
@@ -143,78 +311,186 @@ export function createCrossFileResolver(options: CrossFileResolverOptions) {
   }
 
   /**
-   * Get @renders annotation for an imported component by name
+   * Get a member of a symbol: an export of a module (namespace imports,
+   * `export * as ns` re-exports) or a property of a value (Menu.Item).
+   */
+  function getMemberSymbol(
+    symbol: ts.Symbol,
+    member: string
+  ): ts.Symbol | null {
+    const resolvedSymbol = resolveAlias(symbol);
+
+    if (resolvedSymbol.flags & ts.SymbolFlags.Module) {
+      const exported = typeChecker.tryGetMemberInModuleExports(member, resolvedSymbol);
+      if (exported) {
+        return exported;
+      }
+    }
+
+    return typeChecker.getTypeOfSymbol(resolvedSymbol).getProperty(member) ?? null;
+  }
+
+  /**
+   * Resolve the symbol a component name refers to from a scope, walking
+   * members for namespaced components (Menu.Item) and namespace imports
+   * (UI.Nav.Item with `import * as UI` and `export * as Nav` barrels).
    */
-  function getExternalRenderAnnotation(
+  function resolveComponentSymbol(
     componentName: string,
-    importDeclaration: ts.ImportDeclaration
-  ): RendersAnnotation | null {
-    const moduleSpecifier = importDeclaration.moduleSpecifier;
-    if (!ts.isStringLiteral(moduleSpecifier)) {
-      return null;
+    scopeNode: ts.Node
+  ): ts.Symbol | null {
+    // Anonymous default exports are known by the file they're exported from
+    if (componentName === DEFAULT_EXPORT_NAME) {
+      const moduleSymbol = typeChecker.getSymbolAtLocation(scopeNode.getSourceFile());
+      const defaultExport = moduleSymbol
+        ? typeChecker.tryGetMemberInModuleExports(DEFAULT_EXPORT_NAME, moduleSymbol)
+        : undefined;
+      return defaultExport ? followComponentValue(defaultExport) : null;
     }
 
-    // Resolve the module to its source file
-    const importSourceFile = importDeclaration.getSourceFile();
-    const resolvedModule = ts.resolveModuleName(
-      moduleSpecifier.text,
-      importSourceFile.fileName,
-      program.getCompilerOptions(),
-      ts.sys
+    const [baseName, ...members] = componentName.split(".");
+    let symbol: ts.Symbol | null | undefined = typeChecker.resolveName(
+      baseName,
+      scopeNode,
+      ts.SymbolFlags.Value | ts.SymbolFlags.Alias,
+      /* excludeGlobals */ false
     );
 
-    if (
-      !resolvedModule.resolvedModule ||
-      !resolvedModule.resolvedModule.resolvedFileName
-    ) {
-      return null;
+    for (const member of members) {
+      if (!symbol) return null;
+      symbol = getMemberSymbol(symbol, member);
     }
 
-    const targetFilePath = resolvedModule.resolvedModule.resolvedFileName;
+    return symbol ? followComponentValue(symbol) : null;
+  }
 
-    // Check cache first
-    const cacheKey = `${targetFilePath}:${componentName}`;
-    if (annotationCache.has(cacheKey)) {
-      return annotationCache.get(cacheKey) ?? null;
+  /**
+   * Check if a declaration carries its own @renders or @transparent annotation
+   */
+  function hasComponentAnnotation(declaration: ts.Node): boolean {
+    const jsDoc = getDeclarationJSDoc(declaration);
+    return jsDoc !== null &&
+      (parseRendersAnnotation(jsDoc) !== null || parseTransparentAnnotation(jsDoc) !== null);
+  }
+
+  /**
+   * Check if an expression is an Object.assign(...) call
+   */
+  function isObjectAssignCall(node: ts.Expression): node is ts.CallExpression {
+    return (
+      ts.isCallExpression(node) &&
+      ts.isPropertyAccessExpression(node.expression) &&
+      ts.isIdentifier(node.expression.expression) &&
+      node.expression.expression.text === "Object" &&
+      node.expression.name.text === "assign"
+    );
+  }
+
+  /**
+   * Check if a call is a React wrapper (memo, forwardRef, or user-configured),
+   * called directly or as a member (React.memo)
+   */
+  function isWrapperCall(node: ts.Expression): node is ts.CallExpression {
+    if (!ts.isCallExpression(node)) {
+      return false;
     }
 
-    // Get the source file
-    const targetSourceFile = program.getSourceFile(targetFilePath);
-    if (!targetSourceFile) {
-      annotationCache.set(cacheKey, null);
-      return null;
+    const callee = ts.isPropertyAccessExpression(node.expression) ? node.expression.name : node.expression;
+    return (
+      ts.isIdentifier(callee) &&
+      (REACT_WRAPPER_NAMES.has(callee.text) || (additionalComponentWrappers?.has(callee.text) ?? false))
+    );
+  }
+
+  /**
+   * Get the component a default export wraps: `export default memo(Card)` -> Card
+   */
+  function getWrappedComponentExpression(expression: ts.Expression): ts.Expression {
+    let current = expression;
+    while (isWrapperCall(current) && current.arguments.length > 0) {
+      current = current.arguments[0];
     }
+    return current;
+  }
 
-    // Find the export symbol for this component
-    const symbol = typeChecker.getSymbolAtLocation(moduleSpecifier);
-    if (!symbol) {
-      annotationCache.set(cacheKey, null);
-      return null;
+  /**
+   * Follow a compound component binding to the component it refers to, so it
+   * shares that component's identity and annotations:
+   * - Shorthand members: `{ Item }` -> Item
+   * - Members referencing a component: `{ Item: MenuItem }` -> MenuItem
+   * - Object.assign roots: `const Menu = Object.assign(MenuRoot, { ... })` -> MenuRoot
+   * - Wrapped default exports: `export default memo(Card)` -> Card
+   * Bindings annotated themselves are not followed.
+   */
+  function followComponentValue(symbol: ts.Symbol, depth: number = 0): ts.Symbol {
+    const resolvedSymbol = resolveAlias(symbol);
+    const declaration = resolvedSymbol.getDeclarations()?.[0];
+    if (!declaration || depth >= 10 || hasComponentAnnotation(declaration)) {
+      return resolvedSymbol;
     }
 
-    const exports = typeChecker.getExportsOfModule(symbol);
-    const exportSymbol = exports.find((exp) => exp.getName() === componentName);
+    let target: ts.Symbol | undefined;
+    if (ts.isShorthandPropertyAssignment(declaration)) {
+      target = typeChecker.getShorthandAssignmentValueSymbol(declaration);
+    } else {
+      const valueExpression =
+        ts.isPropertyAssignment(declaration)
+          ? declaration.initializer
+          : ts.isVariableDeclaration(declaration) &&
+              declaration.initializer &&
+              isObjectAssignCall(declaration.initializer)
+            ? declaration.initializer.arguments[0]
+            : ts.isExportAssignment(declaration) && !declaration.isExportEquals
+              ? getWrappedComponentExpression(declaration.expression)
+              : undefined;
+
+      if (
+        valueExpression &&
+        (ts.isIdentifier(valueExpression) || ts.isPropertyAccessExpression(valueExpression))
+      ) {
+        target = typeChecker.getSymbolAtLocation(valueExpression);
+      }
+    }
 
-    if (!exportSymbol) {
-      annotationCache.set(cacheKey, null);
-      return null;
+    return target && target !== resolvedSymbol
+      ? followComponentValue(target, depth + 1)
+      : resolvedSymbol;
+  }
+
+  /**
+   * Get the name used in a component's type ID. Compound component members
+   * declared inline are qualified with their owner (`Menu.Item`), so they don't
+   * collide with a standalone `Item` in the same file.
+   */
+  function getTypeIdName(symbol: ts.Symbol, declaration: ts.Declaration): string {
+    const symbolName = symbol.getName();
+
+    // const Menu = { Item: ... } / const Menu = Object.assign(Root, { Item: ... })
+    if (
+      (ts.isPropertyAssignment(declaration) || ts.isMethodDeclaration(declaration)) &&
+      ts.isObjectLiteralExpression(declaration.parent)
+    ) {
+      const owner = ts.isCallExpression(declaration.parent.parent) && isObjectAssignCall(declaration.parent.parent)
+        ? declaration.parent.parent.parent
+        : declaration.parent.parent;
+      if (owner && ts.isVariableDeclaration(owner) && ts.isIdentifier(owner.name)) {
+        return `${owner.name.text}.${symbolName}`;
+      }
     }
 
-    // Resolve to original declaration
-    const declaration = resolveSymbolToDeclaration(exportSymbol);
-    if (!declaration) {
-      annotationCache.set(cacheKey, null);
-      return null;
+    // Menu.Item = ...
+    const target = ts.isBinaryExpression(declaration) ? declaration.left : declaration;
+    if (ts.isPropertyAccessExpression(target) && ts.isIdentifier(target.expression)) {
+      return `${target.expression.text}.${symbolName}`;
     }
 
-    const annotation = getAnnotationFromDeclaration(declaration);
-    annotationCache.set(cacheKey, annotation);
-    return annotation;
+    return symbolName;
   }
 
   /**
    * Collect import mappings from the current file.
    * Returns a map of local names to their import info.
+   * Namespace imports are recorded with originalName "*".
    */
   function collectImports(
     sourceFile: ts.SourceFile
@@ -242,8 +518,16 @@ export function createCrossFileResolver(options: CrossFileResolverOptions) {
         });
       }
 
-      // Named imports: import { Foo, Bar as Baz } from '...'
+      // Namespace import: import * as UI from '...'
       const namedBindings = importClause.namedBindings;
+      if (namedBindings && ts.isNamespaceImport(namedBindings)) {
+        imports.set(namedBindings.name.text, {
+          importDeclaration: node,
+          originalName: "*",
+        });
+      }
+
+      // Named imports: import { Foo, Bar as Baz } from '...'
       if (namedBindings && ts.isNamedImports(namedBindings)) {
         for (const element of namedBindings.elements) {
           const localName = element.name.text;
@@ -268,14 +552,7 @@ export function createCrossFileResolver(options: CrossFileResolverOptions) {
    */
   function createTypeId(symbol: ts.Symbol): ComponentTypeId | null {
     // Follow aliases to get the original symbol
-    let resolvedSymbol = symbol;
-    while (resolvedSymbol.flags & ts.SymbolFlags.Alias) {
-      const aliasedSymbol = typeChecker.getAliasedSymbol(resolvedSymbol);
-      if (aliasedSymbol === resolvedSymbol) {
-        break;
-      }
-      resolvedSymbol = aliasedSymbol;
-    }
+    const resolvedSymbol = resolveAlias(symbol);
 
     const declarations = resolvedSymbol.getDeclarations();
     if (!declarations || declarations.length === 0) {
@@ -284,55 +561,57 @@ export function createCrossFileResolver(options: CrossFileResolverOptions) {
 
     const declaration = declarations[0];
     const sourceFile = declaration.getSourceFile();
-    const symbolName = resolvedSymbol.getName();
+    const symbolName = getTypeIdName(resolvedSymbol, declaration);
 
-    return `${sourceFile.fileName}:${symbolName}`;
+    const typeId: ComponentTypeId = `${sourceFile.fileName}:${symbolName}`;
+    declarationsByTypeId.set(typeId, declaration);
+    return typeId;
   }
 
   /**
-   * Get the type ID for a component by its local name.
-   * Resolves through imports to get the actual source file and symbol.
+   * Get the declaration behind a type ID. Type IDs this resolver didn't create
+   * (e.g. targets read from a cached file summary) are looked up from the
+   * file and name they encode.
    */
-  function getComponentTypeId(componentName: string): ComponentTypeId | null {
-    if (!currentSourceFile) {
-      return null;
+  function getDeclarationForTypeId(typeId: ComponentTypeId): ts.Declaration | null {
+    const known = declarationsByTypeId.get(typeId);
+    if (known) {
+      return known;
     }
 
-    // Handle namespaced components (e.g., Menu.Item)
-    const parts = componentName.split(".");
-    const baseName = parts[0];
+    const separator = typeId.lastIndexOf(":");
+    const sourceFile = separator > 0 ? program.getSourceFile(typeId.slice(0, separator)) : undefined;
+    if (!sourceFile) {
+      return null;
+    }
 
-    // Find the symbol for this name in the current scope
-    const symbol = typeChecker.resolveName(
-      baseName,
-      currentSourceFile,
-      ts.SymbolFlags.Value | ts.SymbolFlags.Alias,
-      /* excludeGlobals */ false
-    );
+    const [baseName, ...members] = typeId.slice(separator + 1).split(".");
+    const moduleSymbol = typeChecker.getSymbolAtLocation(sourceFile);
+    let symbol: ts.Symbol | null | undefined =
+      typeChecker.resolveName(baseName, sourceFile, ts.SymbolFlags.Value, /* excludeGlobals */ true) ??
+      (moduleSymbol ? typeChecker.tryGetMemberInModuleExports(baseName, moduleSymbol) : undefined);
 
-    if (!symbol) {
-      return null;
+    for (const member of members) {
+      if (!symbol) return null;
+      symbol = getMemberSymbol(symbol, member);
     }
 
-    // For namespaced components, we need to resolve the property
-    if (parts.length > 1) {
-      // Get the type of the base component
-      const type = typeChecker.getTypeOfSymbol(symbol);
-      let currentType = type;
+    // createTypeId registers the declaration when the symbol has this identity
+    return symbol && createTypeId(symbol) === typeId
+      ? declarationsByTypeId.get(typeId) ?? null
+      : null;
+  }
 
-      for (let i = 1; i < parts.length; i++) {
-        const prop = currentType.getProperty(parts[i]);
-        if (!prop) {
-          return null;
-        }
-        if (i === parts.length - 1) {
-          return createTypeId(prop);
-        }
-        currentType = typeChecker.getTypeOfSymbol(prop);
-      }
+  /**
+   * Get the type ID for a component by its local name.
+   * Resolves through imports to get the actual source file and symbol.
+   */
+  function getComponentTypeId(componentName: string): ComponentTypeId | null {
+    if (!currentSourceFile) {
+      return null;
     }
 
-    return createTypeId(symbol);
+    return getComponentTypeIdInScope(componentName, currentSourceFile);
   }
 
   /**
@@ -343,353 +622,516 @@ export function createCrossFileResolver(options: CrossFileResolverOptions) {
     componentName: string,
     scopeNode: ts.Node
   ): ComponentTypeId | null {
-    const parts = componentName.split(".");
-    const baseName = parts[0];
-
-    const symbol = typeChecker.resolveName(
-      baseName,
-      scopeNode,
-      ts.SymbolFlags.Value | ts.SymbolFlags.Alias,
-      /* excludeGlobals */ false
-    );
+    const symbol = resolveComponentSymbol(componentName, scopeNode);
+    return symbol ? createTypeId(symbol) : null;
+  }
 
-    if (!symbol) {
-      return null;
+  /**
+   * Resolve an export of a module by name, walking members for dotted
+   * names (Menu.Item), to the component it refers to.
+   */
+  function resolveModuleExport(
+    exportName: string,
+    moduleSymbol: ts.Symbol
+  ): ts.Symbol | null {
+    let symbol: ts.Symbol | null = moduleSymbol;
+    for (const member of exportName.split(".")) {
+      if (!symbol) return null;
+      symbol = getMemberSymbol(symbol, member);
     }
 
-    if (parts.length > 1) {
-      const type = typeChecker.getTypeOfSymbol(symbol);
-      let currentType = type;
+    return symbol ? followComponentValue(symbol) : null;
+  }
 
-      for (let i = 1; i < parts.length; i++) {
-        const prop = currentType.getProperty(parts[i]);
-        if (!prop) {
-          return null;
-        }
-        if (i === parts.length - 1) {
-          return createTypeId(prop);
-        }
-        currentType = typeChecker.getTypeOfSymbol(prop);
-      }
+  /**
+   * Resolve a module specifier the way an import in containingFile would,
+   * returning the module's symbol
+   */
+  function resolveModuleSymbol(moduleSpecifier: string, containingFile: string): ts.Symbol | null {
+    const { resolvedModule } = ts.resolveModuleName(
+      moduleSpecifier,
+      containingFile,
+      program.getCompilerOptions(),
+      ts.sys,
+      moduleResolutionCache
+    );
+    const moduleFile = resolvedModule ? program.getSourceFile(resolvedModule.resolvedFileName) : undefined;
+    if (moduleFile) {
+      return typeChecker.getSymbolAtLocation(moduleFile) ?? null;
     }
 
-    return createTypeId(symbol);
+    // Ambient module declarations (declare module "x") aren't files of their own
+    const ambientName = JSON.stringify(moduleSpecifier);
+    return typeChecker.getAmbientModules().find((module) => module.getName() === ambientName) ?? null;
   }
 
   /**
-   * Resolve the source file that an import declaration points to.
+   * Register the entries of a manifest, keyed by the type ID of the component
+   * each entry names. Module specifiers resolve from containingFile.
    */
-  function resolveImportSourceFile(
-    importDeclaration: ts.ImportDeclaration
-  ): ts.SourceFile | null {
-    const moduleSpecifier = importDeclaration.moduleSpecifier;
-    if (!ts.isStringLiteral(moduleSpecifier)) {
-      return null;
+  function indexManifest(manifest: AnnotationManifest, containingFile: string): void {
+    for (const [moduleSpecifier, entries] of manifest) {
+      const moduleSymbol = resolveModuleSymbol(moduleSpecifier, containingFile);
+      if (!moduleSymbol) continue;
+
+      for (const [exportName, annotations] of entries) {
+        const symbol = resolveModuleExport(exportName, moduleSymbol);
+        const typeId = symbol ? createTypeId(symbol) : null;
+        if (typeId && !manifestComponents.has(typeId)) {
+          manifestComponents.set(typeId, { annotations, moduleSymbol });
+        }
+      }
     }
+  }
 
-    const importSourceFile = importDeclaration.getSourceFile();
-    const resolvedModule = ts.resolveModuleName(
-      moduleSpecifier.text,
-      importSourceFile.fileName,
-      program.getCompilerOptions(),
-      ts.sys
-    );
-
-    if (
-      !resolvedModule.resolvedModule ||
-      !resolvedModule.resolvedModule.resolvedFileName
-    ) {
-      return null;
+  /**
+   * Get the manifest entry for a component, if any manifest declares one.
+   * Like JSDoc, entries are found from the component's declaration: the
+   * externalAnnotations setting first, then the render-types.json of the
+   * package declaring it, so the result doesn't depend on the linted file.
+   */
+  function getManifestComponent(
+    typeId: ComponentTypeId | null
+  ): { annotations: ManifestComponentAnnotations; moduleSymbol: ts.Symbol } | null {
+    if (!typeId) return null;
+
+    const declaration = getDeclarationForTypeId(typeId);
+    const declarationFile = declaration?.getSourceFile();
+    if (!declarationFile) return null;
+
+    if (!manifestIndexedFiles.has(declarationFile)) {
+      manifestIndexedFiles.add(declarationFile);
+      if (externalAnnotations) {
+        indexManifest(externalAnnotations, declarationFile.fileName);
+      }
+      const packageManifest = readPackageManifest(declarationFile.fileName);
+      if (packageManifest && !indexedPackageManifests.has(packageManifest)) {
+        indexedPackageManifests.add(packageManifest);
+        indexManifest(packageManifest, declarationFile.fileName);
+      }
     }
 
-    return program.getSourceFile(
-      resolvedModule.resolvedModule.resolvedFileName
-    ) ?? null;
+    return manifestComponents.get(typeId) ?? null;
   }
 
   /**
-   * Resolve the type ID for the primary component in a @renders annotation.
-   * This looks up the component name in the current file's scope.
+   * Attach type IDs to a manifest annotation. Names resolve against the
+   * exports of the module the manifest entry belongs to.
    */
-  function resolveAnnotationTargetTypeId(
-    annotation: RendersAnnotation
-  ): ComponentTypeId | null {
-    return getComponentTypeId(annotation.componentName);
+  function resolveManifestAnnotation(
+    annotation: RendersAnnotation,
+    moduleSymbol: ts.Symbol
+  ): ResolvedRendersAnnotation {
+    return resolveAnnotationTargets(annotation, (name) => {
+      const symbol = resolveModuleExport(name, moduleSymbol);
+      return symbol ? createTypeId(symbol) : null;
+    });
   }
 
   /**
-   * Resolve type IDs for all components in a @renders union annotation.
-   * Returns an array of type IDs (some may be undefined if resolution fails).
+   * Attach type IDs to a @renders annotation, resolving every union member.
+   * Names are looked up in scopeNode's scope, or the current file's scope when
+   * no scope is given. Unresolvable members are left out of the type IDs.
    */
-  function resolveAnnotationTargetTypeIds(
-    annotation: RendersAnnotation
-  ): (ComponentTypeId | undefined)[] {
-    return annotation.componentNames.map(
-      (name) => getComponentTypeId(name) ?? undefined
+  function resolveAnnotationTypeIds(
+    annotation: RendersAnnotation,
+    scopeNode?: ts.Node
+  ): ResolvedRendersAnnotation {
+    return resolveAnnotationTargets(annotation, (name) =>
+      scopeNode ? getComponentTypeIdInScope(name, scopeNode) : getComponentTypeId(name)
     );
   }
 
   /**
-   * Resolve a type alias to its constituent component names.
-   * For example, `type AliasedUnion = A | B` returns ["A", "B"].
-   * Returns null if the type is not a valid component union.
+   * Attach type IDs to a @renders annotation using the given name resolver
    */
-  function resolveTypeAliasToComponentNames(
-    typeName: string
-  ): string[] | null {
-    if (!currentSourceFile) {
-      return null;
+  function resolveAnnotationTargets(
+    annotation: RendersAnnotation,
+    resolveName: (name: string) => ComponentTypeId | null
+  ): ResolvedRendersAnnotation {
+    const targetTypeIds: ComponentTypeId[] = [];
+    const memberTypeIds: Record<string, ComponentTypeId> = {};
+    for (const name of annotation.componentNames) {
+      const typeId = resolveName(name);
+      if (typeId) {
+        targetTypeIds.push(typeId);
+        memberTypeIds[name] = typeId;
+      }
     }
 
-    // Find the symbol for this type name (type alias)
-    const symbol = typeChecker.resolveName(
-      typeName,
-      currentSourceFile,
-      ts.SymbolFlags.TypeAlias,
+    return {
+      ...annotation,
+      targetTypeId: memberTypeIds[annotation.componentName] ?? undefined,
+      targetTypeIds: targetTypeIds.length > 0 ? targetTypeIds : undefined,
+      memberTypeIds: targetTypeIds.length > 0 ? memberTypeIds : undefined,
+    };
+  }
+
+  /**
+   * Resolve a type alias by name from a scope, following imports and
+   * namespace members (Types.MenuSlot with `import type * as Types`).
+   */
+  function resolveTypeAliasDeclaration(
+    typeName: string,
+    scopeNode: ts.Node
+  ): ts.TypeAliasDeclaration | null {
+    const [baseName, ...members] = typeName.split(".");
+    let symbol: ts.Symbol | null | undefined = typeChecker.resolveName(
+      baseName,
+      scopeNode,
+      members.length > 0 ? ts.SymbolFlags.Namespace : ts.SymbolFlags.TypeAlias,
       /* excludeGlobals */ false
     );
 
-    if (!symbol) {
-      return null;
-    }
-
-    // Get the declarations to find the type alias declaration
-    const declarations = symbol.getDeclarations();
-    if (!declarations || declarations.length === 0) {
-      return null;
-    }
-
-    const declaration = declarations[0];
-    if (!ts.isTypeAliasDeclaration(declaration)) {
-      return null;
+    for (const member of members) {
+      if (!symbol) return null;
+      symbol = getMemberSymbol(symbol, member);
     }
 
-    // Check if the type is a union type node
-    const typeNode = declaration.type;
-    if (!ts.isUnionTypeNode(typeNode)) {
+    if (!symbol) {
       return null;
     }
 
-    const componentNames: string[] = [];
-
-    for (const memberTypeNode of typeNode.types) {
-      // Get the type reference name
-      if (ts.isTypeReferenceNode(memberTypeNode)) {
-        const memberTypeName = memberTypeNode.typeName;
-        if (ts.isIdentifier(memberTypeName)) {
-          const name = memberTypeName.text;
-
-          // Validate it's a valid component name (starts with uppercase)
-          if (!/^[A-Z]/.test(name)) {
-            return null;
-          }
+    const declaration = resolveSymbolToDeclaration(symbol);
+    return declaration && ts.isTypeAliasDeclaration(declaration) ? declaration : null;
+  }
 
-          componentNames.push(name);
-        } else if (ts.isQualifiedName(memberTypeName)) {
-          // Handle qualified names like Namespace.Component
-          const parts: string[] = [];
-          let current: ts.EntityName = memberTypeName;
-          while (ts.isQualifiedName(current)) {
-            parts.unshift(current.right.text);
-            current = current.left;
-          }
-          if (ts.isIdentifier(current)) {
-            parts.unshift(current.text);
-          }
-          const name = parts.join(".");
+  /**
+   * Get the dotted name of an entity name: UI.Header -> "UI.Header"
+   */
+  function getEntityNameText(name: ts.EntityName): string {
+    return ts.isIdentifier(name)
+      ? name.text
+      : `${getEntityNameText(name.left)}.${name.right.text}`;
+  }
 
-          // Validate first part starts with uppercase
-          if (!/^[A-Z]/.test(parts[0])) {
-            return null;
-          }
+  /**
+   * Expand a type node of a render-type alias to the components it names.
+   * Handles unions (nested and parenthesized), references to components and
+   * other aliases, and `typeof Component` members. Names resolve in the scope
+   * of the alias declaration. Returns null when the type doesn't describe
+   * components.
+   */
+  function expandRenderTypeNode(
+    typeNode: ts.TypeNode,
+    scopeNode: ts.Node,
+    aliasesInProgress: Set<ts.TypeAliasDeclaration>
+  ): RenderTarget[] | null {
+    if (ts.isParenthesizedTypeNode(typeNode)) {
+      return expandRenderTypeNode(typeNode.type, scopeNode, aliasesInProgress);
+    }
 
-          componentNames.push(name);
+    if (ts.isUnionTypeNode(typeNode)) {
+      const targets: RenderTarget[] = [];
+      for (const memberTypeNode of typeNode.types) {
+        const memberTargets = expandRenderTypeNode(memberTypeNode, scopeNode, aliasesInProgress);
+        if (!memberTargets) {
+          return null;
         }
-      } else {
-        // Not a type reference, can't handle
-        return null;
+        targets.push(...memberTargets);
       }
+      return targets;
     }
 
-    if (componentNames.length === 0) {
-      return null;
+    // typeof Header, typeof UI.Header: the component value itself
+    if (ts.isTypeQueryNode(typeNode) && !typeNode.typeArguments) {
+      const name = getEntityNameText(typeNode.exprName);
+      return /^[A-Z]/.test(name) ? [{ name, scopeNode }] : null;
     }
 
-    return componentNames;
+    // Header, Layout.Header, or another alias
+    if (ts.isTypeReferenceNode(typeNode) && !typeNode.typeArguments) {
+      const name = getEntityNameText(typeNode.typeName);
+      return /^[A-Z]/.test(name) ? expandRenderTarget(name, scopeNode, aliasesInProgress) : null;
+    }
+
+    return null;
   }
 
   /**
-   * Expand a @renders annotation to resolve any type aliases.
-   * If the annotation references a type alias that is a union,
-   * it expands componentNames to include all union members.
+   * Expand a name from a @renders annotation or alias member to the components
+   * it stands for. Type aliases are expanded recursively, including aliases
+   * imported from other files; an alias that references itself contributes
+   * nothing more than the members found on the way. Names that aren't
+   * aliases are components, resolved from scopeNode.
    */
-  function expandTypeAliases(
-    annotation: RendersAnnotation
-  ): RendersAnnotation {
-    // If already a union (contains multiple components), return as-is
-    if (annotation.componentNames.length > 1) {
-      return annotation;
+  function expandRenderTarget(
+    name: string,
+    scopeNode: ts.Node,
+    aliasesInProgress: Set<ts.TypeAliasDeclaration>
+  ): RenderTarget[] | null {
+    const declaration = resolveTypeAliasDeclaration(name, scopeNode);
+    if (!declaration) {
+      return [{ name, scopeNode }];
     }
 
-    // Try to resolve the single component name as a type alias
-    const expandedNames = resolveTypeAliasToComponentNames(
-      annotation.componentName
-    );
+    if (aliasesInProgress.has(declaration)) {
+      return [];
+    }
 
-    if (expandedNames && expandedNames.length > 1) {
-      // It's a type alias union - expand it
-      return {
-        ...annotation,
-        componentName: expandedNames[0],
-        componentNames: expandedNames,
-      };
+    aliasesInProgress.add(declaration);
+    try {
+      return expandRenderTypeNode(declaration.type, declaration, aliasesInProgress);
+    } finally {
+      aliasesInProgress.delete(declaration);
     }
+  }
 
-    // Not a type alias union, return as-is
-    return annotation;
+  /**
+   * Expand the names of a @renders annotation, replacing type aliases with
+   * their members. Names that aren't component aliases are kept as written.
+   */
+  function expandAnnotationTargets(
+    annotation: RendersAnnotation,
+    scopeNode: ts.Node
+  ): RenderTarget[] {
+    return annotation.componentNames.flatMap(
+      (name) => expandRenderTarget(name, scopeNode, new Set()) ?? [{ name, scopeNode }]
+    );
   }
 
   /**
-   * Build a resolved render map with type IDs for type-safe validation.
-   * Each annotation includes the targetTypeId if it can be resolved.
+   * Resolve a type alias to its constituent component names.
+   * For example, `type AliasedUnion = A | B` returns ["A", "B"]; aliases of
+   * aliases and aliases imported from other files are expanded recursively.
+   * Returns null if the type is not a component alias.
+   * The alias is looked up in scopeNode's scope (defaults to the current file).
    */
-  function buildResolvedRenderMap(
-    localRenderMap: RenderMap
-  ): ResolvedRenderMap {
-    const resolvedMap: ResolvedRenderMap = new Map();
+  function resolveTypeAliasToComponentNames(
+    typeName: string,
+    scopeNode: ts.Node | undefined = currentSourceFile
+  ): string[] | null {
+    if (!scopeNode || !resolveTypeAliasDeclaration(typeName, scopeNode)) {
+      return null;
+    }
 
-    if (!currentSourceFile) {
-      // Without source file, just copy the annotations without type IDs
-      for (const [name, annotation] of localRenderMap) {
-        resolvedMap.set(name, { ...annotation });
-      }
-      return resolvedMap;
+    const targets = expandRenderTarget(typeName, scopeNode, new Set());
+    return targets && targets.length > 0 ? targets.map((target) => target.name) : null;
+  }
+
+  /**
+   * Expand a @renders annotation to resolve any type aliases, including
+   * aliases inside unions (`@renders {Header | Slot}`).
+   * The alias is looked up in scopeNode's scope (defaults to the current file).
+   */
+  function expandTypeAliases(
+    annotation: RendersAnnotation,
+    scopeNode: ts.Node | undefined = currentSourceFile
+  ): RendersAnnotation {
+    if (!scopeNode) {
+      return annotation;
     }
 
-    // Process local components
-    for (const [name, annotation] of localRenderMap) {
-      // Expand type aliases (e.g., type AliasedUnion = A | B)
-      const expandedAnnotation = expandTypeAliases(annotation);
-      const targetTypeId = resolveAnnotationTargetTypeId(expandedAnnotation);
-      const targetTypeIds = resolveAnnotationTargetTypeIds(expandedAnnotation).filter(
-        (id): id is ComponentTypeId => id !== undefined
-      );
-      resolvedMap.set(name, {
-        ...expandedAnnotation,
-        targetTypeId: targetTypeId ?? undefined,
-        targetTypeIds: targetTypeIds.length > 0 ? targetTypeIds : undefined,
-      });
+    const names = [...new Set(expandAnnotationTargets(annotation, scopeNode).map((target) => target.name))];
+    return names.length > 0
+      ? { ...annotation, componentName: names[0], componentNames: names }
+      : annotation;
+  }
+
+  /**
+   * Expand type aliases in a @renders annotation and attach the type IDs of
+   * its components. Names written in the annotation resolve in scopeNode's
+   * scope (the current file by default) and alias members in the scope of the
+   * file declaring the alias, so neither has to be imported where the
+   * annotation is used. Members reached more than once are listed once.
+   */
+  function resolveRendersAnnotation(
+    annotation: RendersAnnotation,
+    scopeNode: ts.Node | undefined = currentSourceFile
+  ): ResolvedRendersAnnotation {
+    if (!scopeNode) {
+      return resolveAnnotationTargets(annotation, () => null);
     }
 
-    // Process imported components
-    const imports = collectImports(currentSourceFile);
-    for (const [localName, importInfo] of imports) {
-      if (resolvedMap.has(localName)) {
+    const componentNames: string[] = [];
+    const targetTypeIds: ComponentTypeId[] = [];
+    const memberTypeIds: Record<string, ComponentTypeId> = {};
+
+    for (const target of expandAnnotationTargets(annotation, scopeNode)) {
+      const typeId = getComponentTypeIdInScope(target.name, target.scopeNode);
+      if (typeId ? targetTypeIds.includes(typeId) : componentNames.includes(target.name)) {
         continue;
       }
 
-      const annotation = getExternalRenderAnnotation(
-        importInfo.originalName,
-        importInfo.importDeclaration
+      componentNames.push(target.name);
+      if (typeId) {
+        targetTypeIds.push(typeId);
+        memberTypeIds[target.name] ??= typeId;
+      }
+    }
+
+    // Only self-referencing aliases: nothing to expand
+    if (componentNames.length === 0) {
+      return resolveAnnotationTypeIds(annotation, scopeNode);
+    }
+
+    return {
+      ...annotation,
+      componentName: componentNames[0],
+      componentNames,
+      targetTypeId: memberTypeIds[componentNames[0]] ?? undefined,
+      targetTypeIds: targetTypeIds.length > 0 ? targetTypeIds : undefined,
+      memberTypeIds: targetTypeIds.length > 0 ? memberTypeIds : undefined,
+    };
+  }
+
+  /**
+   * Resolve the @renders annotation of any component in the program by type ID.
+   * Type aliases and targets are resolved in the scope of the file declaring the
+   * annotation, so chain links don't need to be imported into the linted file.
+   */
+  function getRenderAnnotationByTypeId(
+    typeId: ComponentTypeId
+  ): ResolvedRendersAnnotation | null {
+    if (renderGraphCache.has(typeId)) {
+      return renderGraphCache.get(typeId) ?? null;
+    }
+
+    const declaration = getDeclarationForTypeId(typeId);
+    if (!declaration) {
+      return null;
+    }
+
+    // Manifest entries stand in for (and take precedence over) JSDoc
+    const manifestComponent = getManifestComponent(typeId);
+    if (manifestComponent?.annotations.renders) {
+      const resolvedFromManifest = resolveManifestAnnotation(
+        manifestComponent.annotations.renders,
+        manifestComponent.moduleSymbol
       );
+      renderGraphCache.set(typeId, resolvedFromManifest);
+      return resolvedFromManifest;
+    }
 
-      if (annotation) {
-        // Expand type aliases (e.g., type AliasedUnion = A | B)
-        const expandedAnnotation = expandTypeAliases(annotation);
-
-        // Resolve target type IDs from the SOURCE file where the annotation lives,
-        // not from the consumer file (the target may not be imported in the consumer).
-        // We resolve the symbol to its actual declaration file rather than using
-        // resolveImportSourceFile, because barrel/re-export files don't have the
-        // annotation targets as local names in scope.
-        let scopeNode: ts.Node = currentSourceFile;
-        const importedSymbol = typeChecker.resolveName(
-          localName,
-          currentSourceFile,
-          ts.SymbolFlags.Value | ts.SymbolFlags.Alias,
-          /* excludeGlobals */ false
-        );
-        if (importedSymbol) {
-          const decl = resolveSymbolToDeclaration(importedSymbol);
-          if (decl) {
-            scopeNode = decl.getSourceFile();
-          }
-        }
+    const summary = getComponentSummary(typeId);
+    const resolved = summary ? summary.renders : resolveDeclarationAnnotation(declaration);
 
-        const targetTypeId = getComponentTypeIdInScope(
-          expandedAnnotation.componentName,
-          scopeNode
-        ) ?? undefined;
-        const targetTypeIds = expandedAnnotation.componentNames
-          .map((name) => getComponentTypeIdInScope(name, scopeNode))
-          .filter((id): id is ComponentTypeId => id !== null);
-
-        resolvedMap.set(localName, {
-          ...expandedAnnotation,
-          targetTypeId,
-          targetTypeIds: targetTypeIds.length > 0 ? targetTypeIds : undefined,
-        });
-      }
+    renderGraphCache.set(typeId, resolved);
+    return resolved;
+  }
+
+  /**
+   * Resolve the @renders JSDoc of a declaration. Type aliases and targets are
+   * resolved in the scope of the declaring file.
+   */
+  function resolveDeclarationAnnotation(
+    declaration: ts.Declaration
+  ): ResolvedRendersAnnotation | null {
+    const annotation = getAnnotationFromDeclaration(declaration);
+    const sourceFile = declaration.getSourceFile();
+    return annotation
+      ? resolveRendersAnnotation(annotation, sourceFile)
+      : null;
+  }
+
+  /**
+   * Build the render graph for the current file, keyed by component type ID.
+   * Local annotations come from the AST (they may not be saved to disk yet);
+   * every other component is resolved lazily from its declaration when a
+   * chain reaches it, including components not imported into this file.
+   */
+  function buildResolvedRenderMap(
+    localRenderMap: RenderMap
+  ): ResolvedRenderMap {
+    const localGraph = new Map<ComponentTypeId, ResolvedRendersAnnotation>();
+
+    for (const [name, annotation] of localRenderMap) {
+      // Expand type aliases (e.g., type AliasedUnion = A | B)
+      localGraph.set(getComponentTypeId(name) ?? name, resolveRendersAnnotation(annotation));
     }
 
-    return resolvedMap;
+    return {
+      get(typeId) {
+        return localGraph.get(typeId) ?? getRenderAnnotationByTypeId(typeId) ?? undefined;
+      },
+    };
+  }
+
+  /**
+   * Resolve the symbol a component name refers to in the current file,
+   * walking members for namespaced components (e.g., Menu.Item, UI.Card).
+   */
+  function getComponentSymbol(componentName: string): ts.Symbol | null {
+    if (!currentSourceFile) return null;
+    return resolveComponentSymbol(componentName, currentSourceFile);
   }
 
   /**
-   * Resolve @renders annotations from an imported component's props type.
-   * Uses TypeScript's type checker to find the props interface and parse
-   * JSDoc annotations from its property declarations.
-   * Target type IDs are resolved from the source file's scope where the
+   * Resolve @renders annotations from a component's props type.
+   * Uses TypeScript's type checker to get the props parameter of the component's
+   * first call signature (or a class component's instance props) and parse JSDoc
+   * annotations from its property declarations,
+   * so local and imported components resolve the same way regardless of how the
+   * props type is declared or named (interfaces, type aliases, inline types, generics).
+   * Type aliases and target type IDs are resolved from the scope where each
    * annotation is defined, so consumers don't need to import target types.
    */
-  function getExternalPropAnnotations(
+  function getPropAnnotations(
     componentName: string
   ): Map<string, ResolvedRendersAnnotation> | null {
-    if (!currentSourceFile) return null;
+    const symbol = getComponentSymbol(componentName);
+    return symbol ? getPropAnnotationsForSymbol(symbol) : null;
+  }
 
-    const symbol = typeChecker.resolveName(
-      componentName,
-      currentSourceFile,
-      ts.SymbolFlags.Value | ts.SymbolFlags.Alias,
-      /* excludeGlobals */ false
-    );
-    if (!symbol) return null;
+  /**
+   * Resolve @renders annotations from the props type of a component symbol
+   */
+  function getPropAnnotationsForSymbol(
+    symbol: ts.Symbol
+  ): Map<string, ResolvedRendersAnnotation> | null {
+    const result = new Map<string, ResolvedRendersAnnotation>();
 
-    const type = typeChecker.getTypeOfSymbol(symbol);
-    const callSignatures = type.getCallSignatures();
-    if (callSignatures.length === 0) return null;
+    // Prop annotations from manifests take precedence over JSDoc
+    const manifestComponent = getManifestComponent(createTypeId(symbol));
+    if (manifestComponent?.annotations.props) {
+      for (const [propName, annotation] of manifestComponent.annotations.props) {
+        result.set(propName, resolveManifestAnnotation(annotation, manifestComponent.moduleSymbol));
+      }
+    }
 
-    const propsParam = callSignatures[0].getParameters()[0];
-    if (!propsParam) return null;
+    const typeId = createTypeId(symbol);
+    const summary = typeId ? getComponentSummary(typeId) : null;
+    const jsDocProps = summary
+      ? new Map<string, ResolvedRendersAnnotation>(Object.entries(summary.props ?? {}))
+      : getJSDocPropAnnotations(symbol);
+
+    for (const [propName, annotation] of jsDocProps ?? []) {
+      if (!result.has(propName)) {
+        result.set(propName, annotation);
+      }
+    }
+
+    return result.size > 0 ? result : null;
+  }
 
-    const propsType = typeChecker.getTypeOfSymbol(propsParam);
+  /**
+   * Resolve @renders JSDoc on the props of a component's props type
+   */
+  function getJSDocPropAnnotations(
+    symbol: ts.Symbol
+  ): Map<string, ResolvedRendersAnnotation> | null {
     const result = new Map<string, ResolvedRendersAnnotation>();
 
-    for (const prop of propsType.getProperties()) {
+    // Function components' props parameter, or class components' instance props
+    const propsType = getPropsType(symbol);
+    const propsProperties = propsType ? propsType.getProperties() : [];
+
+    for (const prop of propsProperties) {
       const declarations = prop.getDeclarations();
       if (!declarations || declarations.length === 0) continue;
 
       for (const decl of declarations) {
+        recordDependency(decl);
         const jsDocText = getJSDocText(decl);
         if (!jsDocText) continue;
 
         const annotation = parseRendersAnnotation(jsDocText);
         if (annotation) {
-          // Resolve target type IDs from the source file where the annotation lives
           const sourceFile = decl.getSourceFile();
-          const targetTypeId = getComponentTypeIdInScope(
-            annotation.componentName,
-            sourceFile
-          ) ?? undefined;
-          const targetTypeIds = annotation.componentNames
-            .map((name) => getComponentTypeIdInScope(name, sourceFile))
-            .filter((id): id is ComponentTypeId => id !== null);
-
-          result.set(prop.getName(), {
-            ...annotation,
-            targetTypeId,
-            targetTypeIds: targetTypeIds.length > 0 ? targetTypeIds : undefined,
-          });
+          result.set(
+            prop.getName(),
+            resolveRendersAnnotation(annotation, sourceFile)
+          );
           break;
         }
       }
@@ -699,42 +1141,216 @@ export function createCrossFileResolver(options: CrossFileResolverOptions) {
   }
 
   /**
-   * Get @transparent annotation from a TypeScript declaration node
+   * Get the props type of a component: the first parameter of a function
+   * component's call signature, or the props of a class component's instances
    */
-  function getTransparentAnnotationFromDeclaration(
-    declaration: ts.Declaration
-  ): TransparentAnnotation | null {
-    // Handle variable declarations (const Foo = ...)
-    if (ts.isVariableDeclaration(declaration)) {
-      const varDeclList = declaration.parent;
-      if (ts.isVariableDeclarationList(varDeclList)) {
-        const varStatement = varDeclList.parent;
-        if (ts.isVariableStatement(varStatement)) {
-          const jsDoc = getJSDocText(varStatement);
-          if (jsDoc) {
-            return parseTransparentAnnotation(jsDoc);
-          }
-        }
+  function getPropsType(symbol: ts.Symbol): ts.Type | null {
+    const type = typeChecker.getTypeOfSymbol(resolveAlias(symbol));
+
+    const callSignature = type.getCallSignatures()[0];
+    if (callSignature) {
+      const propsParam = callSignature.getParameters()[0];
+      // A component without parameters takes no props
+      return propsParam ? typeChecker.getTypeOfSymbol(propsParam) : typeChecker.getNeverType();
+    }
+
+    const instanceType = type.getConstructSignatures()[0]?.getReturnType();
+    const propsProperty = instanceType?.getProperty("props");
+    return propsProperty ? typeChecker.getTypeOfSymbol(propsProperty) : null;
+  }
+
+  /**
+   * Collect the property names of a props type, or null when it accepts
+   * any prop (any, unknown, index signatures, unconstrained type parameters)
+   */
+  function collectPropNames(type: ts.Type, names: Set<string>): boolean {
+    const constrained =
+      type.flags & ts.TypeFlags.TypeParameter ? typeChecker.getBaseConstraintOfType(type) : type;
+    if (!constrained || constrained.flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown)) {
+      return false;
+    }
+
+    // Props of any union member may be passed
+    if (constrained.isUnion()) {
+      return constrained.types.every((member) => collectPropNames(member, names));
+    }
+
+    if (typeChecker.getIndexInfosOfType(constrained).length > 0) {
+      return false;
+    }
+
+    for (const prop of typeChecker.getPropertiesOfType(constrained)) {
+      names.add(prop.getName());
+    }
+    return true;
+  }
+
+  /**
+   * Get the names of the props a component accepts, according to the type
+   * checker. Returns null when the component or its props type can't be
+   * resolved, or the props type accepts any prop.
+   */
+  function getPropNames(componentName: string): Set<string> | null {
+    const symbol = getComponentSymbol(componentName);
+    const propsType = symbol ? getPropsType(symbol) : null;
+    if (!propsType) return null;
+
+    const names = new Set<string>();
+    return collectPropNames(propsType, names) ? names : null;
+  }
+
+  /**
+   * Check if a fully qualified type name matches a configured slot type:
+   * "ReactNode" matches React.ReactNode, "JSX.Element" matches React.JSX.Element
+   */
+  function matchesSlotTypeName(name: string, slotTypes: readonly string[]): boolean {
+    return slotTypes.some((slotType) => name === slotType || name.endsWith(`.${slotType}`));
+  }
+
+  /**
+   * Check if a type is a slot type: through its alias or its own symbol,
+   * or for unions, any member
+   */
+  function isSlotType(type: ts.Type, slotTypes: readonly string[]): boolean {
+    for (const symbol of [type.aliasSymbol, type.getSymbol()]) {
+      if (symbol && matchesSlotTypeName(typeChecker.getFullyQualifiedName(resolveAlias(symbol)), slotTypes)) {
+        return true;
       }
     }
+    return type.isUnion() && type.types.some((member) => isSlotType(member, slotTypes));
+  }
 
-    // Handle function declarations
-    if (ts.isFunctionDeclaration(declaration)) {
-      const jsDoc = getJSDocText(declaration);
-      if (jsDoc) {
-        return parseTransparentAnnotation(jsDoc);
+  /**
+   * Check if a declared prop type is a slot type. References are matched by
+   * the name they resolve to, so `ReactNode | undefined` and imported aliases
+   * keep their names, then by the type they refer to.
+   */
+  function isSlotTypeNode(node: ts.TypeNode, slotTypes: readonly string[]): boolean {
+    if (ts.isParenthesizedTypeNode(node)) {
+      return isSlotTypeNode(node.type, slotTypes);
+    }
+    if (ts.isUnionTypeNode(node)) {
+      return node.types.some((member) => isSlotTypeNode(member, slotTypes));
+    }
+    if (ts.isTypeReferenceNode(node)) {
+      const symbol = typeChecker.getSymbolAtLocation(node.typeName);
+      // Unresolved references (e.g. without React's types installed) are matched as written
+      if (!symbol) {
+        return matchesSlotTypeName(node.typeName.getText(), slotTypes);
       }
+      if (matchesSlotTypeName(typeChecker.getFullyQualifiedName(resolveAlias(symbol)), slotTypes)) {
+        return true;
+      }
+    }
+    return isSlotType(typeChecker.getTypeFromTypeNode(node), slotTypes);
+  }
+
+  /**
+   * Check if a prop's declared type is a slot type
+   */
+  function isSlotProp(prop: ts.Symbol, slotTypes: readonly string[]): boolean {
+    const declaration = prop.getDeclarations()?.[0];
+    const typeNode =
+      declaration && (ts.isPropertySignature(declaration) || ts.isPropertyDeclaration(declaration))
+        ? declaration.type
+        : undefined;
+    return typeNode
+      ? isSlotTypeNode(typeNode, slotTypes)
+      : isSlotType(typeChecker.getTypeOfSymbol(prop), slotTypes);
+  }
+
+  /**
+   * Collect the props of a props type, including those of every union member
+   */
+  function collectPropSymbols(type: ts.Type, props: Map<string, ts.Symbol>): void {
+    const constrained =
+      type.flags & ts.TypeFlags.TypeParameter ? typeChecker.getBaseConstraintOfType(type) : type;
+    if (!constrained) return;
+
+    if (constrained.isUnion()) {
+      for (const member of constrained.types) collectPropSymbols(member, props);
+      return;
     }
 
-    // Handle export assignment (export default ...)
-    if (ts.isExportAssignment(declaration)) {
-      const jsDoc = getJSDocText(declaration);
-      if (jsDoc) {
-        return parseTransparentAnnotation(jsDoc);
+    for (const prop of typeChecker.getPropertiesOfType(constrained)) {
+      if (!props.has(prop.getName())) {
+        props.set(prop.getName(), prop);
       }
     }
+  }
 
-    return null;
+  /**
+   * Get the range of a declaration's name, or of the declaration itself
+   */
+  function getNameRange(declaration: ts.Declaration): [number, number] {
+    const node = ts.getNameOfDeclaration(declaration) ?? declaration;
+    return [node.getStart(), node.getEnd()];
+  }
+
+  /**
+   * Find the slot props (props whose declared type is one of slotTypes) of
+   * the components the linted file declares and exports that have neither a
+   * @renders annotation nor a @renders-any opt-out.
+   */
+  function getUnannotatedSlotProps(slotTypes: readonly string[]): UnannotatedSlotProp[] {
+    if (!currentSourceFile) return [];
+
+    const components = getExportedComponents(currentSourceFile);
+
+    // Anonymous and wrapped default exports are components too
+    const moduleSymbol = typeChecker.getSymbolAtLocation(currentSourceFile);
+    const defaultExport = moduleSymbol
+      ? typeChecker.tryGetMemberInModuleExports(DEFAULT_EXPORT_NAME, moduleSymbol)
+      : undefined;
+    if (defaultExport) {
+      const symbol = followComponentValue(defaultExport);
+      const typeId = createTypeId(symbol);
+      if (typeId) {
+        components.push({ exportName: DEFAULT_EXPORT_NAME, symbol, typeId });
+      }
+    }
+
+    const result: UnannotatedSlotProp[] = [];
+    const visited = new Set<ComponentTypeId>();
+
+    for (const { exportName, symbol, typeId } of components) {
+      const declaration = declarationsByTypeId.get(typeId);
+      if (!declaration || declaration.getSourceFile() !== currentSourceFile || visited.has(typeId)) continue;
+      visited.add(typeId);
+
+      const propsType = getPropsType(symbol);
+      if (!propsType) continue;
+
+      const props = new Map<string, ts.Symbol>();
+      collectPropSymbols(propsType, props);
+      const annotations = getPropAnnotationsForSymbol(symbol);
+
+      for (const [propName, prop] of props) {
+        if (annotations?.has(propName) || !isSlotProp(prop, slotTypes)) continue;
+
+        const declarations = prop.getDeclarations() ?? [];
+        if (declarations.some((decl) => RENDERS_ANY_PATTERN.test(getJSDocText(decl) ?? ""))) continue;
+
+        const localDeclaration = declarations.find((decl) => decl.getSourceFile() === currentSourceFile);
+        result.push({
+          componentName: exportName,
+          propName,
+          range: getNameRange(localDeclaration ?? declaration),
+        });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Get @transparent annotation from a TypeScript declaration node
+   */
+  function getTransparentAnnotationFromDeclaration(
+    declaration: ts.Declaration
+  ): TransparentAnnotation | null {
+    const jsDoc = getDeclarationJSDoc(declaration);
+    return jsDoc ? parseTransparentAnnotation(jsDoc) : null;
   }
 
   /**
@@ -750,64 +1366,117 @@ export function createCrossFileResolver(options: CrossFileResolverOptions) {
       return null;
     }
 
-    // Resolve the module to its source file
-    const importSourceFile = importDeclaration.getSourceFile();
-    const resolvedModule = ts.resolveModuleName(
-      moduleSpecifier.text,
-      importSourceFile.fileName,
-      program.getCompilerOptions(),
-      ts.sys
-    );
-
-    if (
-      !resolvedModule.resolvedModule ||
-      !resolvedModule.resolvedModule.resolvedFileName
-    ) {
+    // Ask the checker which module the import resolved to, so path aliases,
+    // project references, package exports and custom hosts agree with the program
+    const symbol = typeChecker.getSymbolAtLocation(moduleSpecifier);
+    const moduleDeclaration = symbol?.getDeclarations()?.[0];
+    if (!symbol || !moduleDeclaration) {
       return null;
     }
 
-    const targetFilePath = resolvedModule.resolvedModule.resolvedFileName;
-
     // Check cache first
-    const cacheKey = `${targetFilePath}:${componentName}`;
-    if (transparentAnnotationCache.has(cacheKey)) {
-      return transparentAnnotationCache.get(cacheKey) ?? null;
-    }
-
-    // Get the source file
-    const targetSourceFile = program.getSourceFile(targetFilePath);
-    if (!targetSourceFile) {
-      transparentAnnotationCache.set(cacheKey, null);
-      return null;
-    }
-
-    // Find the export symbol for this component
-    const symbol = typeChecker.getSymbolAtLocation(moduleSpecifier);
-    if (!symbol) {
-      transparentAnnotationCache.set(cacheKey, null);
-      return null;
+    const cacheKey = `${moduleDeclaration.getSourceFile().fileName}:${componentName}`;
+    if (externalTransparentAnnotationCache.has(cacheKey)) {
+      return externalTransparentAnnotationCache.get(cacheKey) ?? null;
     }
 
     const exports = typeChecker.getExportsOfModule(symbol);
     const exportSymbol = exports.find((exp) => exp.getName() === componentName);
 
     if (!exportSymbol) {
-      transparentAnnotationCache.set(cacheKey, null);
+      externalTransparentAnnotationCache.set(cacheKey, null);
       return null;
     }
 
-    // Resolve to original declaration
-    const declaration = resolveSymbolToDeclaration(exportSymbol);
-    if (!declaration) {
-      transparentAnnotationCache.set(cacheKey, null);
-      return null;
+    const annotation = getTransparentAnnotationForSymbol(exportSymbol);
+    externalTransparentAnnotationCache.set(cacheKey, annotation);
+    return annotation;
+  }
+
+  /**
+   * Get @transparent annotation for any component symbol, following
+   * compound component bindings. Manifest entries take precedence over JSDoc.
+   * Cached by the component's type ID.
+   */
+  function getTransparentAnnotationForSymbol(
+    symbol: ts.Symbol
+  ): TransparentAnnotation | null {
+    const componentSymbol = followComponentValue(symbol);
+    const typeId = createTypeId(componentSymbol);
+    if (typeId && transparentAnnotationCache.has(typeId)) {
+      return transparentAnnotationCache.get(typeId) ?? null;
     }
 
-    const annotation = getTransparentAnnotationFromDeclaration(declaration);
-    transparentAnnotationCache.set(cacheKey, annotation);
+    const declaration = resolveSymbolToDeclaration(componentSymbol);
+    const summary = typeId ? getComponentSummary(typeId) : null;
+    const annotation =
+      getManifestComponent(typeId)?.annotations.transparent ??
+      (summary
+        ? summary.transparent
+        : declaration ? getTransparentAnnotationFromDeclaration(declaration) : null);
+
+    if (typeId) {
+      transparentAnnotationCache.set(typeId, annotation);
+    }
     return annotation;
   }
 
+  /**
+   * Collect @transparent members of a compound component (Tabs.List),
+   * keyed by their member path from the component's local name.
+   */
+  function collectMemberTransparentComponents(
+    componentPath: string,
+    symbol: ts.Symbol,
+    resolvedMap: Map<string, Set<string>>
+  ): void {
+    const type = typeChecker.getTypeOfSymbol(resolveAlias(symbol));
+    for (const member of type.getProperties()) {
+      const memberPath = `${componentPath}.${member.getName()}`;
+      if (!/^[A-Z]/.test(member.getName()) || resolvedMap.has(memberPath)) continue;
+
+      const annotation = getTransparentAnnotationForSymbol(member);
+      if (annotation) {
+        resolvedMap.set(memberPath, new Set(annotation.propNames));
+      }
+    }
+  }
+
+  /**
+   * Collect @transparent components exported by a module, keyed by their
+   * member path from a namespace import (UI.Card). Modules re-exported with
+   * `export * as ns` are followed (UI.Nav.Item); `export *` members are part
+   * of the module's exports already.
+   */
+  function collectNamespaceTransparentComponents(
+    prefix: string,
+    moduleSymbol: ts.Symbol,
+    resolvedMap: Map<string, Set<string>>,
+    visited: Set<ts.Symbol> = new Set()
+  ): void {
+    if (visited.has(moduleSymbol)) return;
+    visited.add(moduleSymbol);
+
+    for (const exportSymbol of typeChecker.getExportsOfModule(moduleSymbol)) {
+      const name = exportSymbol.getName();
+      const memberPath = `${prefix}.${name}`;
+      const resolvedSymbol = resolveAlias(exportSymbol);
+
+      if (resolvedSymbol.flags & ts.SymbolFlags.Module) {
+        collectNamespaceTransparentComponents(memberPath, resolvedSymbol, resolvedMap, visited);
+        continue;
+      }
+
+      if (!/^[A-Z]/.test(name) || resolvedMap.has(memberPath)) continue;
+
+      const annotation = getTransparentAnnotationForSymbol(exportSymbol);
+      if (annotation) {
+        resolvedMap.set(memberPath, new Set(annotation.propNames));
+      }
+      collectMemberTransparentComponents(memberPath, exportSymbol, resolvedMap);
+    }
+  }
+
   /**
    * Resolve transparent components from both local annotations and imports.
    * Local entries are passed in (collected during first AST pass).
@@ -831,6 +1500,17 @@ export function createCrossFileResolver(options: CrossFileResolverOptions) {
         // Skip if already registered locally
         if (resolvedMap.has(localName)) continue;
 
+        // Namespace import: register UI.Card, UI.Nav.Item, ...
+        if (importInfo.originalName === "*") {
+          const moduleSymbol = typeChecker.getSymbolAtLocation(
+            importInfo.importDeclaration.moduleSpecifier
+          );
+          if (moduleSymbol) {
+            collectNamespaceTransparentComponents(localName, moduleSymbol, resolvedMap);
+          }
+          continue;
+        }
+
         const annotation = getExternalTransparentAnnotation(
           importInfo.originalName,
           importInfo.importDeclaration
@@ -839,18 +1519,191 @@ export function createCrossFileResolver(options: CrossFileResolverOptions) {
         if (annotation) {
           resolvedMap.set(localName, new Set(annotation.propNames));
         }
+
+        // Compound component members: Tabs.List
+        const symbol = typeChecker.resolveName(
+          localName,
+          currentSourceFile,
+          ts.SymbolFlags.Alias,
+          /* excludeGlobals */ false
+        );
+        if (symbol) {
+          collectMemberTransparentComponents(localName, symbol, resolvedMap);
+        }
       }
     }
 
     return resolvedMap;
   }
 
+  /**
+   * Collect the components a module exports, keyed by member path: exports
+   * and `export * as ns` namespaces (Layout.Header).
+   */
+  function collectExportedComponents(
+    moduleSymbol: ts.Symbol,
+    prefix: string,
+    result: Array<{ exportName: string; symbol: ts.Symbol }>,
+    visited: Set<ts.Symbol> = new Set()
+  ): void {
+    if (visited.has(moduleSymbol)) return;
+    visited.add(moduleSymbol);
+
+    for (const exportSymbol of typeChecker.getExportsOfModule(moduleSymbol)) {
+      const name = exportSymbol.getName();
+      const exportName = prefix ? `${prefix}.${name}` : name;
+      const resolvedSymbol = resolveAlias(exportSymbol);
+
+      if (resolvedSymbol.flags & ts.SymbolFlags.Module) {
+        collectExportedComponents(resolvedSymbol, exportName, result, visited);
+      } else if (/^[A-Z]/.test(name) && resolvedSymbol.flags & ts.SymbolFlags.Value) {
+        result.push({ exportName, symbol: exportSymbol });
+      }
+    }
+  }
+
+  /**
+   * List every component a source file exports, including compound members
+   * (Menu.Item), followed to the component they refer to. Top-level exports
+   * come first.
+   */
+  function getExportedComponents(
+    sourceFile: ts.SourceFile
+  ): Array<{ exportName: string; symbol: ts.Symbol; typeId: ComponentTypeId }> {
+    const moduleSymbol = typeChecker.getSymbolAtLocation(sourceFile);
+    if (!moduleSymbol) return [];
+
+    const exported: Array<{ exportName: string; symbol: ts.Symbol }> = [];
+    collectExportedComponents(moduleSymbol, "", exported);
+
+    const members = exported.flatMap(({ exportName, symbol }) =>
+      typeChecker
+        .getTypeOfSymbol(resolveAlias(symbol))
+        .getProperties()
+        .filter((member) => /^[A-Z]/.test(member.getName()))
+        .map((member) => ({ exportName: `${exportName}.${member.getName()}`, symbol: member }))
+    );
+
+    const result: Array<{ exportName: string; symbol: ts.Symbol; typeId: ComponentTypeId }> = [];
+    for (const { exportName, symbol } of [...exported, ...members]) {
+      const componentSymbol = followComponentValue(symbol);
+      const typeId = createTypeId(componentSymbol);
+      if (typeId) {
+        result.push({ exportName, symbol: componentSymbol, typeId });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Get the annotations of every component a source file exports, with
+   * targets resolved to type IDs. Used to emit annotation manifests.
+   */
+  function getExportedComponentAnnotations(
+    sourceFile: ts.SourceFile
+  ): ExportedComponentAnnotations[] {
+    return getExportedComponents(sourceFile).map(({ exportName, symbol, typeId }) => ({
+      exportName,
+      typeId,
+      renders: getRenderAnnotationByTypeId(typeId),
+      transparent: getTransparentAnnotationForSymbol(symbol),
+      props: getPropAnnotationsForSymbol(symbol),
+    }));
+  }
+
+  /**
+   * Compute the JSDoc annotations of the components a file declares and
+   * exports, recording every file read along the way as a dependency.
+   */
+  function computeFileSummary(sourceFile: ts.SourceFile): { summary: FileSummary; dependencies: Set<string> } {
+    const previousDependencies = summaryDependencies;
+    const dependencies = new Set<string>();
+    summaryDependencies = dependencies;
+
+    try {
+      // Imported modules can change what names in the file resolve to
+      for (const statement of sourceFile.statements) {
+        if (
+          (ts.isImportDeclaration(statement) || ts.isExportDeclaration(statement)) &&
+          statement.moduleSpecifier
+        ) {
+          recordDependency(typeChecker.getSymbolAtLocation(statement.moduleSpecifier)?.getDeclarations()?.[0]);
+        }
+      }
+
+      const components: Record<ComponentTypeId, ComponentSummary> = {};
+      for (const { symbol, typeId } of getExportedComponents(sourceFile)) {
+        const declaration = declarationsByTypeId.get(typeId);
+        if (!declaration || declaration.getSourceFile() !== sourceFile || components[typeId]) continue;
+
+        const props = getJSDocPropAnnotations(symbol);
+        components[typeId] = {
+          renders: resolveDeclarationAnnotation(declaration),
+          transparent: getTransparentAnnotationFromDeclaration(declaration),
+          props: props ? Object.fromEntries(props) : null,
+        };
+      }
+
+      return { summary: { components }, dependencies };
+    } finally {
+      summaryDependencies = previousDependencies;
+    }
+  }
+
+  /**
+   * Get the summary of a file from the persistent cache, computing and
+   * storing it when missing or out of date. Returns null without a cache
+   * directory, and while the file's own summary is being computed.
+   */
+  function getFileSummary(sourceFile: ts.SourceFile): FileSummary | null {
+    if (!summaryCache || summariesInProgress.has(sourceFile)) {
+      return null;
+    }
+
+    if (fileSummaries.has(sourceFile)) {
+      return fileSummaries.get(sourceFile) ?? null;
+    }
+
+    let summary = summaryCache.read(sourceFile);
+    if (!summary) {
+      summariesInProgress.add(sourceFile);
+      try {
+        const computed = computeFileSummary(sourceFile);
+        summary = computed.summary;
+        summaryCache.write(sourceFile, summary, computed.dependencies);
+      } finally {
+        summariesInProgress.delete(sourceFile);
+      }
+    }
+
+    fileSummaries.set(sourceFile, summary);
+    return summary;
+  }
+
+  /**
+   * Get the summarized JSDoc annotations of a component, or null when the
+   * summary cache is disabled or doesn't cover the component (e.g. components
+   * that aren't exported), in which case annotations are read directly.
+   */
+  function getComponentSummary(typeId: ComponentTypeId): ComponentSummary | null {
+    const declaration = getDeclarationForTypeId(typeId);
+    if (!declaration) return null;
+
+    return getFileSummary(declaration.getSourceFile())?.components[typeId] ?? null;
+  }
+
   return {
     getComponentTypeId,
     buildResolvedRenderMap,
     expandTypeAliases,
     resolveTypeAliasToComponentNames,
-    getExternalPropAnnotations,
+    getPropAnnotations,
+    getPropNames,
+    getUnannotatedSlotProps,
     resolveTransparentComponents,
+    getExportedComponentAnnotations,
   };
 }
+
+export type CrossFileResolver = ReturnType<typeof createCrossFileResolver>;
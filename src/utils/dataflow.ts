@@ -0,0 +1,302 @@
+import type { TSESTree } from "@typescript-eslint/utils";
+
+/**
+ * Intra-function dataflow for JSX values.
+ *
+ * Lets extraction follow identifiers to the JSX they hold, e.g.
+ * `const content = <Header />; return content;`. Resolution is purely
+ * syntactic and conservative: anything that can't be resolved statically
+ * (parameters, imports, reassigned bindings, destructuring) yields null.
+ */
+
+type ScopeNode =
+  | TSESTree.Program
+  | TSESTree.BlockStatement
+  | TSESTree.StaticBlock
+  | TSESTree.SwitchCase;
+
+type FunctionNode =
+  | TSESTree.FunctionDeclaration
+  | TSESTree.FunctionExpression
+  | TSESTree.ArrowFunctionExpression;
+
+/** Array methods whose arguments become elements of the array */
+const ARRAY_INSERT_METHODS = new Set(["push", "unshift"]);
+
+/**
+ * Check if a binding pattern declares the given name
+ */
+function patternBindsName(
+  pattern: TSESTree.Node | null,
+  name: string
+): boolean {
+  if (!pattern) {
+    return false;
+  }
+
+  switch (pattern.type) {
+    case "Identifier":
+      return pattern.name === name;
+    case "ObjectPattern":
+      return pattern.properties.some((property) =>
+        property.type === "RestElement"
+          ? patternBindsName(property.argument, name)
+          : patternBindsName(property.value, name)
+      );
+    case "ArrayPattern":
+      return pattern.elements.some((element) => patternBindsName(element, name));
+    case "RestElement":
+      return patternBindsName(pattern.argument, name);
+    case "AssignmentPattern":
+      return patternBindsName(pattern.left, name);
+    case "TSParameterProperty":
+      return patternBindsName(pattern.parameter, name);
+    default:
+      return false;
+  }
+}
+
+function isFunctionNode(node: TSESTree.Node): node is FunctionNode {
+  return (
+    node.type === "FunctionDeclaration" ||
+    node.type === "FunctionExpression" ||
+    node.type === "ArrowFunctionExpression"
+  );
+}
+
+function getScopeStatements(scope: ScopeNode): TSESTree.Node[] {
+  return scope.type === "SwitchCase" ? scope.consequent : scope.body;
+}
+
+/**
+ * Find how a statement list binds a name.
+ * Returns the declarator for variable bindings, "other" for bindings whose
+ * value can't be followed (functions, classes, imports), or null if unbound.
+ */
+function findBindingInStatements(
+  statements: TSESTree.Node[],
+  name: string
+): TSESTree.VariableDeclarator | "other" | null {
+  for (const statement of statements) {
+    const declaration =
+      statement.type === "ExportNamedDeclaration" && statement.declaration
+        ? statement.declaration
+        : statement;
+
+    if (declaration.type === "VariableDeclaration") {
+      for (const declarator of declaration.declarations) {
+        if (declarator.id.type === "Identifier" && declarator.id.name === name) {
+          return declarator;
+        }
+        if (patternBindsName(declarator.id, name)) {
+          return "other";
+        }
+      }
+    }
+
+    if (
+      (declaration.type === "FunctionDeclaration" ||
+        declaration.type === "ClassDeclaration") &&
+      declaration.id?.name === name
+    ) {
+      return "other";
+    }
+
+    if (
+      declaration.type === "ImportDeclaration" &&
+      declaration.specifiers.some((specifier) => specifier.local.name === name)
+    ) {
+      return "other";
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check if a node introduces its own binding for the name, shadowing outer ones
+ */
+function shadowsName(node: TSESTree.Node, name: string): boolean {
+  if (
+    node.type === "BlockStatement" ||
+    node.type === "StaticBlock" ||
+    node.type === "SwitchCase"
+  ) {
+    return findBindingInStatements(getScopeStatements(node), name) !== null;
+  }
+
+  if (isFunctionNode(node)) {
+    return node.params.some((param) => patternBindsName(param, name));
+  }
+
+  if (node.type === "CatchClause") {
+    return patternBindsName(node.param, name);
+  }
+
+  if (
+    (node.type === "ForStatement" ||
+      node.type === "ForInStatement" ||
+      node.type === "ForOfStatement") &&
+    (node.type === "ForStatement" ? node.init : node.left)?.type === "VariableDeclaration"
+  ) {
+    const declaration = (node.type === "ForStatement" ? node.init : node.left) as TSESTree.VariableDeclaration;
+    return declaration.declarations.some((declarator) => patternBindsName(declarator.id, name));
+  }
+
+  return false;
+}
+
+/**
+ * Find the variable declarator an identifier refers to, walking up the
+ * enclosing scopes. Returns null when the identifier is bound by anything
+ * else (parameters, loop variables, imports, functions) or not found.
+ */
+function findDeclarator(
+  id: TSESTree.Identifier
+): { declarator: TSESTree.VariableDeclarator; scope: ScopeNode } | null {
+  const { name } = id;
+  let node: TSESTree.Node | undefined = id.parent;
+
+  while (node) {
+    if (
+      node.type === "Program" ||
+      node.type === "BlockStatement" ||
+      node.type === "StaticBlock" ||
+      node.type === "SwitchCase"
+    ) {
+      const binding = findBindingInStatements(getScopeStatements(node), name);
+      if (binding === "other") {
+        return null;
+      }
+      if (binding) {
+        return { declarator: binding, scope: node };
+      }
+    } else if (shadowsName(node, name)) {
+      return null;
+    } else if (node.type === "FunctionExpression" && node.id?.name === name) {
+      return null;
+    }
+
+    node = node.parent;
+  }
+
+  return null;
+}
+
+/**
+ * Writes to a binding found in its scope
+ */
+interface BindingWrites {
+  /** Right-hand sides of plain `name = value` assignments */
+  assignments: TSESTree.Expression[];
+  /** Values added with name.push(...) / name.unshift(...) */
+  inserted: TSESTree.Expression[];
+  /** Set when the binding is written in a way that can't be followed (++, +=, for-of) */
+  unknown: boolean;
+}
+
+/**
+ * Collect every write to a name within its declaring scope, skipping
+ * nested scopes that shadow the name.
+ */
+function collectWrites(
+  node: TSESTree.Node,
+  name: string,
+  writes: BindingWrites,
+  isRoot: boolean = true
+): void {
+  if (!isRoot && shadowsName(node, name)) {
+    return;
+  }
+
+  if (node.type === "AssignmentExpression" && node.left.type === "Identifier" && node.left.name === name) {
+    if (node.operator === "=") {
+      writes.assignments.push(node.right);
+    } else {
+      writes.unknown = true;
+    }
+  } else if (node.type === "UpdateExpression" && node.argument.type === "Identifier" && node.argument.name === name) {
+    writes.unknown = true;
+  } else if (
+    (node.type === "ForInStatement" || node.type === "ForOfStatement") &&
+    node.left.type === "Identifier" &&
+    node.left.name === name
+  ) {
+    writes.unknown = true;
+  } else if (
+    node.type === "CallExpression" &&
+    node.callee.type === "MemberExpression" &&
+    node.callee.object.type === "Identifier" &&
+    node.callee.object.name === name &&
+    node.callee.property.type === "Identifier" &&
+    ARRAY_INSERT_METHODS.has(node.callee.property.name)
+  ) {
+    for (const arg of node.arguments) {
+      writes.inserted.push(arg.type === "SpreadElement" ? arg.argument : arg);
+    }
+  }
+
+  // Traverse child nodes (skip parent to avoid circular references)
+  for (const key of Object.keys(node)) {
+    if (key === "parent") continue;
+
+    const child = (node as unknown as Record<string, unknown>)[key];
+    if (child && typeof child === "object") {
+      if (Array.isArray(child)) {
+        for (const item of child) {
+          if (item && typeof item === "object" && "type" in item) {
+            collectWrites(item as TSESTree.Node, name, writes, false);
+          }
+        }
+      } else if ("type" in child) {
+        collectWrites(child as TSESTree.Node, name, writes, false);
+      }
+    }
+  }
+}
+
+/**
+ * Resolve the expressions an identifier may hold, following:
+ * - `const` bindings: the initializer
+ * - single-assignment `let`/`var` bindings: the initializer when never reassigned,
+ *   or the one assignment when declared without an initializer
+ * - arrays: the array literal plus every value added with `push()`/`unshift()`
+ *   in the same scope (`const items = []; items.push(<Item />);`)
+ *
+ * Returns null when the binding can't be resolved statically.
+ */
+export function resolveIdentifierValues(
+  id: TSESTree.Identifier
+): TSESTree.Expression[] | null {
+  const found = findDeclarator(id);
+  if (!found) {
+    return null;
+  }
+
+  const { declarator, scope } = found;
+  const kind = (declarator.parent as TSESTree.VariableDeclaration).kind;
+
+  const writes: BindingWrites = { assignments: [], inserted: [], unknown: false };
+  collectWrites(scope, id.name, writes);
+
+  let value: TSESTree.Expression | null = null;
+  if (kind === "const") {
+    value = declarator.init;
+  } else if (writes.unknown) {
+    return null;
+  } else if (declarator.init && writes.assignments.length === 0) {
+    value = declarator.init;
+  } else if (!declarator.init && writes.assignments.length === 1) {
+    value = writes.assignments[0];
+  }
+
+  if (!value) {
+    return null;
+  }
+
+  if (value.type === "ArrayExpression") {
+    return [value, ...writes.inserted];
+  }
+
+  return [value];
+}
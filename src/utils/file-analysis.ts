@@ -0,0 +1,369 @@
+import type { ParserServicesWithTypeInformation, TSESTree } from "@typescript-eslint/utils";
+import { ESLintUtils } from "@typescript-eslint/utils";
+import type { RuleContext, SourceCode } from "@typescript-eslint/utils/ts-eslint";
+import type ts from "typescript";
+import type {
+  ComponentTypeId,
+  RendersAnnotation,
+  ResolvedRenderMap,
+  ResolvedRendersAnnotation,
+  TransparentAnnotation,
+} from "../types/index.js";
+import {
+  DEFAULT_EXPORT_NAME,
+  getClassAnnotationNode,
+  getClassComponentName,
+  getCompoundMember,
+  getDefaultExportDeclaration,
+  getWrappingVariableDeclarator,
+  isComponentName,
+} from "./component-utils.js";
+import { createCrossFileResolver } from "./cross-file-resolver.js";
+import type { CrossFileResolver } from "./cross-file-resolver.js";
+import { parseRendersAnnotation, parseTransparentAnnotation } from "./jsdoc-parser.js";
+import { getPluginSettings } from "./settings.js";
+import type { PluginSettings } from "./settings.js";
+
+type FunctionNode =
+  | TSESTree.FunctionDeclaration
+  | TSESTree.FunctionExpression
+  | TSESTree.ArrowFunctionExpression;
+
+type ClassNode = TSESTree.ClassDeclaration | TSESTree.ClassExpression;
+
+/**
+ * A function or class component declared in the linted file, with the
+ * annotations from its leading JSDoc
+ */
+export interface LocalComponent {
+  node: FunctionNode | ClassNode;
+  /**
+   * Component name, member path for compound members (Menu.Item), or
+   * "default" for anonymous default exports
+   */
+  name: string;
+  renders: RendersAnnotation | null;
+  transparent: TransparentAnnotation | null;
+  /** Comment the @renders annotation was read from */
+  rendersComment: TSESTree.Comment | null;
+  /** Comment the @transparent annotation was read from */
+  transparentComment: TSESTree.Comment | null;
+}
+
+/**
+ * Analysis of one linted file shared by all rules: settings, the cross-file
+ * resolver, the file's own annotations, and the render and transparency maps
+ * built from them. Every part is computed once, on first use.
+ */
+export interface FileAnalysis {
+  settings: PluginSettings;
+  resolver: CrossFileResolver;
+  /** Components declared in the file, in source order */
+  getLocalComponents(): LocalComponent[];
+  /** @renders annotations of local components by name; later declarations win */
+  getLocalRenderMap(): Map<string, RendersAnnotation>;
+  /** @transparent annotations of local components by name */
+  getLocalTransparentComponents(): Map<string, Set<string>>;
+  /** Type ID of a component name as resolved from the file, memoized per name */
+  getComponentTypeId(componentName: string): ComponentTypeId | null;
+  /** Render graph of the file: local annotations plus every other component */
+  getResolvedRenderMap(): ResolvedRenderMap;
+  /** Transparent components from settings, local annotations and imports */
+  getTransparentComponents(): Map<string, Set<string>>;
+  /** @renders annotations of a component's props, memoized per name */
+  getPropAnnotations(componentName: string): Map<string, ResolvedRendersAnnotation> | null;
+}
+
+interface CachedAnalysis {
+  sourceCode: Readonly<SourceCode>;
+  settings: unknown;
+  analysis: FileAnalysis;
+}
+
+/**
+ * Analyses keyed by program and source file. The same source file object can
+ * be linted more than once (unchanged files across runs, other configs), so
+ * an entry is only reused for the ESLint source code and settings it was
+ * created from, which all rules linting the file in one pass share.
+ */
+const analysesByProgram = new WeakMap<ts.Program, WeakMap<ts.SourceFile, CachedAnalysis>>();
+
+function isNode(value: unknown): value is TSESTree.Node {
+  return typeof value === "object" && value !== null && typeof (value as { type?: unknown }).type === "string";
+}
+
+/**
+ * Visit every node of the AST in traversal order
+ */
+function forEachNode(
+  node: TSESTree.Node,
+  visitorKeys: SourceCode.VisitorKeys,
+  callback: (node: TSESTree.Node) => void
+): void {
+  callback(node);
+
+  for (const key of visitorKeys[node.type] ?? []) {
+    const child = (node as unknown as Record<string, unknown>)[key];
+    if (Array.isArray(child)) {
+      for (const item of child) {
+        if (isNode(item)) forEachNode(item, visitorKeys, callback);
+      }
+    } else if (isNode(child)) {
+      forEachNode(child, visitorKeys, callback);
+    }
+  }
+}
+
+/**
+ * Get component name from a function node
+ */
+function getFunctionComponentName(
+  node: FunctionNode,
+  additionalComponentWrappers: Set<string>
+): string | null {
+  if (node.type === "FunctionDeclaration" && node.id) {
+    return node.id.name;
+  }
+
+  // For arrow functions and function expressions in variable declarations
+  if (
+    node.parent?.type === "VariableDeclarator" &&
+    node.parent.id.type === "Identifier"
+  ) {
+    return node.parent.id.name;
+  }
+
+  // For functions inside React wrappers: forwardRef((props, ref) => ...), memo(() => ...)
+  const wrapper = getWrappingVariableDeclarator(node, additionalComponentWrappers);
+  if (wrapper) {
+    return wrapper.id.type === "Identifier" ? wrapper.id.name : null;
+  }
+
+  // For compound component members: Menu.Item = () => ..., { Item: () => ... }
+  const compound = getCompoundMember(node);
+  if (compound) {
+    return compound.name;
+  }
+
+  // For anonymous default exports: export default () => ..., export default memo(() => ...)
+  return getDefaultExportDeclaration(node, additionalComponentWrappers) ? DEFAULT_EXPORT_NAME : null;
+}
+
+/**
+ * Get the node whose leading comments hold a function component's JSDoc
+ */
+function getFunctionAnnotationNode(
+  node: FunctionNode,
+  additionalComponentWrappers: Set<string>
+): TSESTree.Node {
+  const compound = getCompoundMember(node);
+  if (compound) {
+    return compound.annotationNode;
+  }
+
+  // For variable declarations (const MyComp = () => ...), check parent
+  const varDeclarator =
+    (node.parent?.type === "VariableDeclarator" ? node.parent : null) ??
+    getWrappingVariableDeclarator(node, additionalComponentWrappers);
+
+  let nodeToCheck: TSESTree.Node =
+    varDeclarator?.parent?.type === "VariableDeclaration"
+      ? varDeclarator.parent
+      : getDefaultExportDeclaration(node, additionalComponentWrappers) ?? node;
+
+  // For exported declarations, the JSDoc sits before `export`
+  if (
+    nodeToCheck.parent?.type === "ExportNamedDeclaration" ||
+    nodeToCheck.parent?.type === "ExportDefaultDeclaration"
+  ) {
+    nodeToCheck = nodeToCheck.parent;
+  }
+
+  return nodeToCheck;
+}
+
+/**
+ * Collect the function and class components of a file with the first
+ * @renders and @transparent annotation in their leading comments
+ */
+function collectLocalComponents(
+  sourceCode: Readonly<SourceCode>,
+  additionalComponentWrappers: Set<string>
+): LocalComponent[] {
+  const components: LocalComponent[] = [];
+
+  forEachNode(sourceCode.ast, sourceCode.visitorKeys, (node) => {
+    let name: string | null;
+    let annotationNode: TSESTree.Node;
+
+    switch (node.type) {
+      case "FunctionDeclaration":
+      case "FunctionExpression":
+      case "ArrowFunctionExpression":
+        name = getFunctionComponentName(node, additionalComponentWrappers);
+        annotationNode = getFunctionAnnotationNode(node, additionalComponentWrappers);
+        break;
+      case "ClassDeclaration":
+      case "ClassExpression":
+        // export default class extends Component {}
+        name =
+          getClassComponentName(node) ??
+          (node.parent?.type === "ExportDefaultDeclaration" ? DEFAULT_EXPORT_NAME : null);
+        annotationNode = getClassAnnotationNode(node);
+        break;
+      default:
+        return;
+    }
+
+    if (!name || (name !== DEFAULT_EXPORT_NAME && !isComponentName(name))) {
+      return;
+    }
+
+    let renders: RendersAnnotation | null = null;
+    let rendersComment: TSESTree.Comment | null = null;
+    let transparent: TransparentAnnotation | null = null;
+    let transparentComment: TSESTree.Comment | null = null;
+    for (const comment of sourceCode.getCommentsBefore(annotationNode)) {
+      const text = comment.type === "Block" ? `/*${comment.value}*/` : comment.value;
+      if (!renders) {
+        renders = parseRendersAnnotation(text);
+        rendersComment = renders ? comment : null;
+      }
+      if (!transparent) {
+        transparent = parseTransparentAnnotation(text);
+        transparentComment = transparent ? comment : null;
+      }
+    }
+
+    components.push({ node, name, renders, transparent, rendersComment, transparentComment });
+  });
+
+  return components;
+}
+
+/**
+ * Create the analysis of a linted file
+ */
+function createFileAnalysis(
+  context: Readonly<RuleContext<string, readonly unknown[]>>,
+  parserServices: ParserServicesWithTypeInformation
+): FileAnalysis {
+  const { sourceCode } = context;
+  const settings = getPluginSettings(context.settings);
+  const resolver = createCrossFileResolver({
+    parserServices,
+    sourceCode,
+    filename: context.filename,
+    externalAnnotations: settings.externalAnnotations,
+    cacheDirectory: settings.cacheDirectory ?? undefined,
+    additionalComponentWrappers: settings.additionalComponentWrappers,
+  });
+
+  let localComponents: LocalComponent[] | null = null;
+  let localRenderMap: Map<string, RendersAnnotation> | null = null;
+  let localTransparentComponents: Map<string, Set<string>> | null = null;
+  let resolvedRenderMap: ResolvedRenderMap | null = null;
+  let transparentComponents: Map<string, Set<string>> | null = null;
+  const typeIds = new Map<string, ComponentTypeId | null>();
+  const propAnnotations = new Map<string, Map<string, ResolvedRendersAnnotation> | null>();
+
+  function getLocalComponents(): LocalComponent[] {
+    localComponents ??= collectLocalComponents(sourceCode, settings.additionalComponentWrappers);
+    return localComponents;
+  }
+
+  function getLocalRenderMap(): Map<string, RendersAnnotation> {
+    if (!localRenderMap) {
+      localRenderMap = new Map();
+      for (const { name, renders } of getLocalComponents()) {
+        if (renders) localRenderMap.set(name, renders);
+      }
+    }
+    return localRenderMap;
+  }
+
+  function getLocalTransparentComponents(): Map<string, Set<string>> {
+    if (!localTransparentComponents) {
+      localTransparentComponents = new Map();
+      for (const { name, transparent } of getLocalComponents()) {
+        if (transparent) localTransparentComponents.set(name, new Set(transparent.propNames));
+      }
+    }
+    return localTransparentComponents;
+  }
+
+  function getComponentTypeId(componentName: string): ComponentTypeId | null {
+    if (!typeIds.has(componentName)) {
+      typeIds.set(componentName, resolver.getComponentTypeId(componentName));
+    }
+    return typeIds.get(componentName) ?? null;
+  }
+
+  function getResolvedRenderMap(): ResolvedRenderMap {
+    resolvedRenderMap ??= resolver.buildResolvedRenderMap(getLocalRenderMap());
+    return resolvedRenderMap;
+  }
+
+  function getTransparentComponents(): Map<string, Set<string>> {
+    if (!transparentComponents) {
+      // Settings first, so local and imported annotations take precedence
+      transparentComponents = new Map(settings.transparentComponentsMap);
+      for (const [name, props] of resolver.resolveTransparentComponents(getLocalTransparentComponents())) {
+        transparentComponents.set(name, props);
+      }
+    }
+    return transparentComponents;
+  }
+
+  function getPropAnnotations(
+    componentName: string
+  ): Map<string, ResolvedRendersAnnotation> | null {
+    if (!propAnnotations.has(componentName)) {
+      propAnnotations.set(componentName, resolver.getPropAnnotations(componentName));
+    }
+    return propAnnotations.get(componentName) ?? null;
+  }
+
+  return {
+    settings,
+    resolver,
+    getLocalComponents,
+    getLocalRenderMap,
+    getLocalTransparentComponents,
+    getComponentTypeId,
+    getResolvedRenderMap,
+    getTransparentComponents,
+    getPropAnnotations,
+  };
+}
+
+/**
+ * Get the shared analysis of the file a rule is linting. Requires typed
+ * linting. The analysis is created by the first rule asking for it and
+ * reused by every other rule linting the same file in the same pass.
+ */
+export function getFileAnalysis(
+  context: Readonly<RuleContext<string, readonly unknown[]>>
+): FileAnalysis {
+  const parserServices = ESLintUtils.getParserServices(context);
+  const { program } = parserServices;
+  const sourceFile = program.getSourceFile(context.filename);
+  if (!sourceFile) {
+    return createFileAnalysis(context, parserServices);
+  }
+
+  let analyses = analysesByProgram.get(program);
+  if (!analyses) {
+    analyses = new WeakMap();
+    analysesByProgram.set(program, analyses);
+  }
+
+  const cached = analyses.get(sourceFile);
+  if (cached && cached.sourceCode === context.sourceCode && cached.settings === context.settings) {
+    return cached.analysis;
+  }
+
+  const analysis = createFileAnalysis(context, parserServices);
+  analyses.set(sourceFile, { sourceCode: context.sourceCode, settings: context.settings, analysis });
+  return analysis;
+}
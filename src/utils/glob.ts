@@ -0,0 +1,74 @@
+/**
+ * Minimal glob matching for rule options that take file patterns.
+ *
+ * Supports `**` (any number of path segments), `*` and `?` (within a
+ * segment) and `{a,b}` alternatives. Paths and patterns use forward slashes.
+ */
+
+const regExpCache = new Map<string, RegExp>();
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.+^$()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Convert a glob pattern to an anchored regular expression
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const cached = regExpCache.get(pattern);
+  if (cached) return cached;
+
+  let source = "";
+  let braceDepth = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === "*") {
+      if (pattern[i + 1] === "*") {
+        i++;
+        if (pattern[i + 1] === "/") {
+          // "**/" matches zero or more leading segments
+          i++;
+          source += "(?:.*/)?";
+        } else {
+          source += ".*";
+        }
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "{") {
+      braceDepth++;
+      source += "(?:";
+    } else if (char === "}" && braceDepth > 0) {
+      braceDepth--;
+      source += ")";
+    } else if (char === "," && braceDepth > 0) {
+      source += "|";
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  const regExp = new RegExp(`^${source}$`);
+  regExpCache.set(pattern, regExp);
+  return regExp;
+}
+
+/**
+ * Check if a file matches any of the patterns. Relative patterns are matched
+ * against the path relative to cwd, absolute ones against the full path.
+ */
+export function matchesAnyGlob(filename: string, patterns: readonly string[], cwd: string): boolean {
+  const absolute = filename.replace(/\\/g, "/");
+  const root = cwd.replace(/\\/g, "/").replace(/\/$/, "");
+  const relative = absolute.startsWith(`${root}/`) ? absolute.slice(root.length + 1) : absolute;
+
+  return patterns.some((pattern) => {
+    const normalized = pattern.replace(/\\/g, "/").replace(/^\.\//, "");
+    const isAbsolute = normalized.startsWith("/") || /^[A-Za-z]:\//.test(normalized);
+    return globToRegExp(normalized).test(isAbsolute ? absolute : relative);
+  });
+}
@@ -1,4 +1,4 @@
 export { createRule } from "./create-rule.js";
 export { parseRendersAnnotation } from "./jsdoc-parser.js";
 export { isComponentName, getJSXElementName } from "./component-utils.js";
-export { canRenderComponentTyped, resolveRenderChain } from "./render-chain.js";
+export { canRenderComponentTyped, findRenderPath, resolveRenderChain } from "./render-chain.js";
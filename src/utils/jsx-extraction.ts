@@ -1,5 +1,12 @@
 import type { TSESTree } from "@typescript-eslint/utils";
-import { getJSXElementName } from "./component-utils.js";
+import {
+  getCreateElementChildren,
+  getCreateElementName,
+  getCreateElementProps,
+  getJSXElementName,
+  isCreateElementCall,
+} from "./component-utils.js";
+import { resolveIdentifierValues } from "./dataflow.js";
 
 /**
  * Recursively extract component names from a JSX expression.
@@ -10,6 +17,9 @@ import { getJSXElementName } from "./component-utils.js";
  * - Conditional expressions: cond ? <A /> : <B />
  * - Logical expressions: cond && <A />, a || <B />
  * - .map()/.flatMap() callbacks: items.map(i => <A />)
+ * - createElement / jsx-runtime calls: createElement(A), jsx(A, {})
+ * - Array literals: [<A />, <B />]
+ * - Local bindings: const el = <A />; let el; el = <A />; items.push(<A />)
  */
 export function extractJSXFromExpression(
   expr: TSESTree.Expression | TSESTree.JSXEmptyExpression,
@@ -48,9 +58,23 @@ export function extractJSXFromExpression(
       if (expr.value === false) return ["false"];
       return [];
 
-    case "Identifier":
+    case "Identifier": {
       if (expr.name === "undefined") return ["undefined"];
-      return [];
+      const values = resolveIdentifierValues(expr);
+      if (!values) return [];
+      return values.flatMap((value) =>
+        extractJSXFromExpression(value, maxDepth - 1)
+      );
+    }
+
+    case "ArrayExpression":
+      return expr.elements.flatMap((element) => {
+        if (!element) return [];
+        return extractJSXFromExpression(
+          element.type === "SpreadElement" ? element.argument : element,
+          maxDepth - 1
+        );
+      });
 
     case "ConditionalExpression":
       return [
@@ -69,8 +93,13 @@ export function extractJSXFromExpression(
         ...extractJSXFromExpression(expr.right, maxDepth - 1),
       ];
 
-    case "CallExpression":
+    case "CallExpression": {
+      if (isCreateElementCall(expr)) {
+        const name = getCreateElementName(expr);
+        return name ? [name] : [];
+      }
       return extractJSXFromCallExpression(expr, maxDepth - 1);
+    }
 
     default:
       return [];
@@ -145,17 +174,14 @@ function extractJSXFromAttribute(
 
   if (attr.value.type === "JSXExpressionContainer") {
     const expr = attr.value.expression;
-    if (expr.type === "JSXElement") {
-      return extractFromJSXElement(
+    if (expr.type !== "JSXEmptyExpression") {
+      return extractFromRenderedExpression(
         expr,
         transparentComponents,
         visited,
         maxDepth
       );
     }
-    if (expr.type !== "JSXEmptyExpression") {
-      return extractJSXFromExpression(expr, maxDepth);
-    }
   } else if (attr.value.type === "JSXElement") {
     return extractFromJSXElement(
       attr.value,
@@ -247,6 +273,79 @@ function extractFromTransparentElement(
   return results;
 }
 
+/**
+ * Extract component names from a createElement / jsx call, looking through
+ * transparent wrappers the same way as for JSX elements.
+ */
+function extractFromCreateElement(
+  call: TSESTree.CallExpression,
+  transparentComponents: Map<string, Set<string>>,
+  visited: Set<string>,
+  maxDepth: number
+): string[] {
+  const name = getCreateElementName(call);
+  if (!name) return [];
+
+  const propNames = transparentComponents.get(name);
+  if (!propNames) {
+    return [name];
+  }
+
+  if (maxDepth <= 0 || visited.has(name)) return [];
+  visited.add(name);
+
+  const results: string[] = [];
+
+  // Children passed positionally or through props.children
+  if (propNames.has("children")) {
+    for (const child of getCreateElementChildren(call)) {
+      results.push(
+        ...extractFromRenderedExpression(
+          child,
+          transparentComponents,
+          new Set(visited),
+          maxDepth - 1
+        )
+      );
+    }
+  }
+
+  for (const prop of getCreateElementProps(call)) {
+    if (prop.name === "children" || !propNames.has(prop.name)) {
+      continue;
+    }
+    results.push(
+      ...extractFromRenderedExpression(
+        prop.value,
+        transparentComponents,
+        new Set(visited),
+        maxDepth - 1
+      )
+    );
+  }
+
+  return results;
+}
+
+/**
+ * Extract component names from an expression, looking through transparent
+ * wrappers created with JSX or createElement / jsx calls.
+ */
+function extractFromRenderedExpression(
+  expr: TSESTree.Expression,
+  transparentComponents: Map<string, Set<string>>,
+  visited: Set<string>,
+  maxDepth: number
+): string[] {
+  if (expr.type === "JSXElement") {
+    return extractFromJSXElement(expr, transparentComponents, visited, maxDepth);
+  }
+  if (expr.type === "CallExpression" && isCreateElementCall(expr)) {
+    return extractFromCreateElement(expr, transparentComponents, visited, maxDepth);
+  }
+  return extractJSXFromExpression(expr, maxDepth);
+}
+
 /**
  * Extract child element names from a JSX element, looking through
  * transparent wrappers and expression containers.
@@ -318,8 +417,154 @@ function extractFromChildren(
       child.expression.type !== "JSXEmptyExpression"
     ) {
       results.push(
-        ...extractJSXFromExpression(child.expression, maxDepth - 1)
+        ...extractFromRenderedExpression(
+          child.expression,
+          transparentComponents,
+          new Set(visited),
+          maxDepth - 1
+        )
       );
     }
   }
 }
+
+/**
+ * A return site of a function and the component names it may render
+ */
+export interface ReturnedElements {
+  names: string[];
+  node: TSESTree.Node;
+}
+
+/**
+ * Get the component names a return statement or implicit arrow return renders.
+ * Returns an array because transparent wrappers may contain multiple children,
+ * and expressions (ternaries, &&, .map) may yield multiple components.
+ */
+function getReturnedElementNames(
+  node: TSESTree.ReturnStatement | TSESTree.Expression,
+  transparentComponents: Map<string, Set<string>>,
+  maxDepth: number = 10
+): string[] {
+  const expr = node.type === "ReturnStatement" ? node.argument : node;
+
+  // Empty return or return;
+  if (!expr) {
+    return ["null"];
+  }
+
+  if (maxDepth <= 0) return [];
+
+  // Local binding: const content = <Wrapper><Header /></Wrapper>; return content;
+  if (expr.type === "Identifier" && expr.name !== "undefined") {
+    const values = resolveIdentifierValues(expr);
+    if (!values) return [];
+    return values.flatMap((value) =>
+      getReturnedElementNames(value, transparentComponents, maxDepth - 1)
+    );
+  }
+
+  // Direct JSX element: return <Header /> or return <Wrapper><Header /></Wrapper>
+  if (expr.type === "JSXElement") {
+    const name = getJSXElementName(expr);
+    if (name && transparentComponents.has(name)) {
+      // Look through transparent wrapper
+      return extractChildElementNames(expr, transparentComponents);
+    }
+    return name ? [name] : [];
+  }
+
+  // Element factory call: return createElement(Wrapper, null, createElement(Header))
+  if (expr.type === "CallExpression" && isCreateElementCall(expr)) {
+    return extractFromCreateElement(expr, transparentComponents, new Set(), maxDepth);
+  }
+
+  // For all other expressions (ternary, &&, .map, fragments, null, etc.)
+  return extractJSXFromExpression(expr);
+}
+
+/**
+ * Get the component names an expression renders, looking through transparent
+ * wrappers and local bindings. Used for prop values and JSX children.
+ */
+export function extractRenderedElementNames(
+  expr: TSESTree.Expression,
+  transparentComponents: Map<string, Set<string>>
+): string[] {
+  return getReturnedElementNames(expr, transparentComponents);
+}
+
+/**
+ * Recursively collect all return statements from a block
+ */
+function collectReturns(
+  node: TSESTree.Node,
+  transparentComponents: Map<string, Set<string>>,
+  results: ReturnedElements[]
+): void {
+  if (node.type === "ReturnStatement") {
+    const names = getReturnedElementNames(node, transparentComponents);
+    if (names.length > 0) {
+      results.push({ names, node });
+    }
+    return;
+  }
+
+  // Don't traverse into nested functions
+  if (
+    node.type === "FunctionDeclaration" ||
+    node.type === "FunctionExpression" ||
+    node.type === "ArrowFunctionExpression"
+  ) {
+    return;
+  }
+
+  // Traverse child nodes (skip parent to avoid circular references)
+  for (const key of Object.keys(node)) {
+    if (key === "parent") continue; // Skip parent to avoid infinite loop
+
+    const child = (node as unknown as Record<string, unknown>)[key];
+    if (child && typeof child === "object") {
+      if (Array.isArray(child)) {
+        for (const item of child) {
+          if (item && typeof item === "object" && "type" in item) {
+            collectReturns(item as TSESTree.Node, transparentComponents, results);
+          }
+        }
+      } else if ("type" in child) {
+        collectReturns(child as TSESTree.Node, transparentComponents, results);
+      }
+    }
+  }
+}
+
+/**
+ * Collect what a function returns, as rendered component names per return site.
+ * Handles implicit arrow returns and every return statement in the body
+ * (not those of nested functions), looking through transparent wrappers.
+ * Used for components and for render-prop / function-as-children callbacks.
+ */
+export function collectReturnedElements(
+  node:
+    | TSESTree.FunctionDeclaration
+    | TSESTree.FunctionExpression
+    | TSESTree.ArrowFunctionExpression,
+  transparentComponents: Map<string, Set<string>>
+): ReturnedElements[] {
+  const results: ReturnedElements[] = [];
+
+  // Arrow function with implicit return
+  if (node.type === "ArrowFunctionExpression" && node.body.type !== "BlockStatement") {
+    const names = getReturnedElementNames(node.body, transparentComponents);
+    if (names.length > 0) {
+      results.push({ names, node: node.body });
+    }
+    return results;
+  }
+
+  if (node.body) {
+    collectReturns(node.body, transparentComponents, results);
+  }
+
+  return results;
+}
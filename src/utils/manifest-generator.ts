@@ -0,0 +1,283 @@
+import ts from "typescript";
+import type {
+  AnnotationManifestJSON,
+  ComponentTypeId,
+  ManifestEntryJSON,
+  ResolvedRendersAnnotation,
+} from "../types/index.js";
+import { formatRendersAnnotation } from "./annotation-grammar.cjs";
+import {
+  MANIFEST_FILENAME,
+  findPackageDirectory,
+  getParentDirectory,
+} from "./annotation-manifest.js";
+import { createCrossFileResolver } from "./cross-file-resolver.js";
+
+export interface GenerateManifestOptions {
+  /** Path to the library's tsconfig.json */
+  project: string;
+  /**
+   * Entry modules keyed by module specifier, e.g. { "@acme/ui": "src/index.ts" }.
+   * Paths are relative to the package directory. Defaults to the package.json
+   * entry points ("exports", "types", "main") mapped back to their sources.
+   */
+  entries?: Record<string, string>;
+}
+
+export interface GenerateManifestResult {
+  manifest: AnnotationManifestJSON;
+  /** Directory of the package the manifest belongs to (next to its package.json) */
+  packageDirectory: string;
+  /** Annotations that couldn't be expressed in the manifest */
+  warnings: string[];
+}
+
+/**
+ * Normalize a path to an absolute, forward-slash path
+ */
+function toAbsolutePath(fileName: string, baseDirectory?: string): string {
+  const isAbsolute = fileName.startsWith("/") || /^[a-zA-Z]:[\\/]/.test(fileName);
+  const combined = baseDirectory && !isAbsolute ? `${baseDirectory}/${fileName}` : fileName;
+  return ts.sys.resolvePath(combined).replace(/\\/g, "/");
+}
+
+/**
+ * Read and parse a tsconfig into a program
+ */
+function createProgram(project: string): { program: ts.Program; commandLine: ts.ParsedCommandLine } {
+  const configFile = ts.readConfigFile(project, ts.sys.readFile);
+  if (configFile.error) {
+    throw new Error(ts.flattenDiagnosticMessageText(configFile.error.messageText, "\n"));
+  }
+
+  const commandLine = ts.parseJsonConfigFileContent(
+    configFile.config,
+    ts.sys,
+    getParentDirectory(project) ?? "/",
+    undefined,
+    project
+  );
+
+  const program = ts.createProgram({
+    rootNames: commandLine.fileNames,
+    options: commandLine.options,
+    projectReferences: commandLine.projectReferences,
+  });
+
+  return { program, commandLine };
+}
+
+/**
+ * Collect the file paths a package.json "exports" value points to,
+ * in condition order ("types" first when present)
+ */
+function collectExportTargets(value: unknown, targets: string[]): void {
+  if (typeof value === "string") {
+    targets.push(value);
+  } else if (Array.isArray(value)) {
+    for (const item of value) collectExportTargets(item, targets);
+  } else if (typeof value === "object" && value !== null) {
+    const conditions = value as Record<string, unknown>;
+    if ("types" in conditions) collectExportTargets(conditions.types, targets);
+    for (const [condition, target] of Object.entries(conditions)) {
+      if (condition !== "types") collectExportTargets(target, targets);
+    }
+  }
+}
+
+/**
+ * Get the module specifiers a package exposes with the files they point to.
+ * Wildcard subpaths are skipped.
+ */
+function getPackageEntryTargets(packageJson: Record<string, unknown>): Array<[string, string[]]> {
+  const name = packageJson.name;
+  if (typeof name !== "string" || name.length === 0) {
+    throw new Error("package.json has no \"name\"; pass entries explicitly");
+  }
+
+  const exportsField = packageJson.exports;
+  const isSubpathMap =
+    typeof exportsField === "object" &&
+    exportsField !== null &&
+    !Array.isArray(exportsField) &&
+    Object.keys(exportsField).some((key) => key.startsWith("."));
+
+  if (isSubpathMap) {
+    const result: Array<[string, string[]]> = [];
+    for (const [subpath, value] of Object.entries(exportsField as Record<string, unknown>)) {
+      if (!subpath.startsWith(".") || subpath.includes("*")) continue;
+      const targets: string[] = [];
+      collectExportTargets(value, targets);
+      result.push([subpath === "." ? name : `${name}${subpath.slice(1)}`, targets]);
+    }
+    return result;
+  }
+
+  const targets: string[] = [];
+  collectExportTargets(exportsField, targets);
+  for (const field of ["types", "typings", "main"]) {
+    collectExportTargets(packageJson[field], targets);
+  }
+  return [[name, targets]];
+}
+
+/**
+ * Map package.json entry points back to the program's source files through
+ * the compiler's output paths (dist/index.d.ts -> src/index.ts).
+ */
+function resolveDefaultEntries(
+  packageDirectory: string,
+  commandLine: ts.ParsedCommandLine
+): Map<string, string> {
+  const packageJsonText = ts.sys.readFile(`${packageDirectory}/package.json`);
+  const packageJson = packageJsonText ? (JSON.parse(packageJsonText) as Record<string, unknown>) : {};
+
+  const sourcesByPath = new Map<string, string>();
+  for (const fileName of commandLine.fileNames) {
+    const sourcePath = toAbsolutePath(fileName);
+    sourcesByPath.set(sourcePath, fileName);
+    for (const output of ts.getOutputFileNames(commandLine, fileName, !ts.sys.useCaseSensitiveFileNames)) {
+      sourcesByPath.set(toAbsolutePath(output), fileName);
+    }
+  }
+
+  const entries = new Map<string, string>();
+  for (const [specifier, targets] of getPackageEntryTargets(packageJson)) {
+    const source = targets
+      .map((target) => sourcesByPath.get(toAbsolutePath(target, packageDirectory)))
+      .find((fileName) => fileName !== undefined);
+    if (source) {
+      entries.set(specifier, source);
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Generate an annotation manifest for a component library from its tsconfig.
+ * Every @renders, @transparent and prop annotation on a component exported
+ * from an entry module is recorded under the entry's module specifier, with
+ * annotation targets rewritten to the names they're exported as.
+ */
+export function generateAnnotationManifest(
+  options: GenerateManifestOptions
+): GenerateManifestResult {
+  const project = toAbsolutePath(options.project);
+  const packageDirectory = findPackageDirectory(project);
+  if (!packageDirectory) {
+    throw new Error(`No package.json found for ${project}`);
+  }
+
+  // Annotation caches are scoped to the program, so the fresh one starts clean
+  const { program, commandLine } = createProgram(project);
+
+  const entries = options.entries
+    ? new Map(
+        Object.entries(options.entries).map(([specifier, fileName]) => [
+          specifier,
+          toAbsolutePath(fileName, packageDirectory),
+        ])
+      )
+    : resolveDefaultEntries(packageDirectory, commandLine);
+
+  if (entries.size === 0) {
+    throw new Error("No entry modules found in package.json; pass entries explicitly");
+  }
+
+  const manifest: AnnotationManifestJSON = {};
+  const warnings: string[] = [];
+
+  for (const [specifier, fileName] of entries) {
+    const sourceFile = program.getSourceFile(fileName);
+    if (!sourceFile) {
+      warnings.push(`${specifier}: ${fileName} is not part of the program`);
+      continue;
+    }
+
+    const resolver = createCrossFileResolver({
+      parserServices: { program },
+      filename: sourceFile.fileName,
+    });
+    const components = resolver.getExportedComponentAnnotations(sourceFile);
+
+    // Annotation targets are written as the name they're exported as
+    const exportNamesByTypeId = new Map<ComponentTypeId, string>();
+    for (const component of components) {
+      if (!exportNamesByTypeId.has(component.typeId)) {
+        exportNamesByTypeId.set(component.typeId, component.exportName);
+      }
+    }
+
+    const toManifestAnnotation = (
+      annotation: ResolvedRendersAnnotation,
+      owner: string
+    ): string | null => {
+      const names = annotation.componentNames.map((name) => {
+        const typeId = annotation.memberTypeIds?.[name];
+        return typeId ? exportNamesByTypeId.get(typeId) : undefined;
+      });
+
+      if (names.some((name) => name === undefined)) {
+        warnings.push(
+          `${specifier}: ${owner}: \`${annotation.raw}\` references components not exported from the entry module`
+        );
+        return null;
+      }
+
+      return formatRendersAnnotation(annotation.modifier, annotation.unchecked ?? false, names as string[]);
+    };
+
+    const moduleEntries: Record<string, ManifestEntryJSON> = {};
+    for (const component of components) {
+      const entry: ManifestEntryJSON = {};
+
+      if (component.renders) {
+        const renders = toManifestAnnotation(component.renders, component.exportName);
+        if (renders) entry.renders = renders;
+      }
+
+      if (component.transparent) {
+        const { propNames } = component.transparent;
+        entry.transparent =
+          propNames.length === 1 && propNames[0] === "children" ? true : [...propNames];
+      }
+
+      if (component.props) {
+        const props: Record<string, string> = {};
+        for (const [propName, annotation] of component.props) {
+          const renders = toManifestAnnotation(annotation, `${component.exportName} prop '${propName}'`);
+          if (renders) props[propName] = renders;
+        }
+        if (Object.keys(props).length > 0) entry.props = props;
+      }
+
+      if (entry.renders || entry.transparent || entry.props) {
+        moduleEntries[component.exportName] = entry;
+      }
+    }
+
+    if (Object.keys(moduleEntries).length > 0) {
+      manifest[specifier] = moduleEntries;
+    }
+  }
+
+  return { manifest, packageDirectory, warnings };
+}
+
+/**
+ * Generate an annotation manifest and write it to outFile, by default
+ * render-types.json next to the package's package.json, where the resolver
+ * picks it up for consumers.
+ */
+export function writeAnnotationManifest(
+  options: GenerateManifestOptions & { outFile?: string }
+): GenerateManifestResult & { outFile: string } {
+  const result = generateAnnotationManifest(options);
+  const outFile = options.outFile
+    ? toAbsolutePath(options.outFile)
+    : `${result.packageDirectory}/${MANIFEST_FILENAME}`;
+
+  ts.sys.writeFile(outFile, `${JSON.stringify(result.manifest, null, 2)}\n`);
+  return { ...result, outFile };
+}
@@ -1,4 +1,5 @@
 import type {
+  RendersAnnotation,
   ResolvedRendersAnnotation,
   ResolvedRenderMap,
   ComponentTypeId,
@@ -6,6 +7,91 @@ import type {
 
 const DEFAULT_MAX_DEPTH = 10;
 
+type RendersModifier = RendersAnnotation["modifier"];
+
+/**
+ * Cardinality lattice: required ⊂ optional ⊂ many.
+ * A component may fill a slot only if its cardinality is at most the slot's.
+ */
+const MODIFIER_RANK: Record<RendersModifier, number> = {
+  required: 0,
+  optional: 1,
+  many: 2,
+};
+
+const CARDINALITY_LABELS: Record<RendersModifier, string> = {
+  required: "exactly one",
+  optional: "zero or one",
+  many: "zero or more",
+};
+
+/**
+ * Check if a component rendering with the actual modifier can fill a slot
+ * annotated with the expected modifier.
+ */
+export function isModifierAssignable(
+  actual: RendersModifier,
+  expected: RendersModifier
+): boolean {
+  return MODIFIER_RANK[actual] <= MODIFIER_RANK[expected];
+}
+
+/**
+ * Combine two modifiers along a render chain (the wider one wins).
+ * `A @renders? {B}` with `B @renders* {C}` renders C with "many" cardinality.
+ */
+export function joinModifiers(
+  a: RendersModifier,
+  b: RendersModifier
+): RendersModifier {
+  return MODIFIER_RANK[a] >= MODIFIER_RANK[b] ? a : b;
+}
+
+/**
+ * Get the render graph key of a union member: its resolved type ID, or the
+ * name as written when it couldn't be resolved (local-only matching).
+ */
+function getMemberKey(
+  annotation: ResolvedRendersAnnotation,
+  member: string
+): ComponentTypeId {
+  return annotation.memberTypeIds?.[member] ?? member;
+}
+
+/**
+ * Get the cardinality of a render path returned by findRenderPath:
+ * the join of the modifiers of every annotation followed along it.
+ * A direct match (single-element path) has "required" cardinality.
+ *
+ * @param path - Component names as returned by findRenderPath
+ * @param renderMap - Render graph keyed by component type ID
+ * @param actualTypeId - Type ID of the first component on the path, if resolved
+ */
+export function getRenderPathModifier(
+  path: string[],
+  renderMap: ResolvedRenderMap,
+  actualTypeId?: ComponentTypeId
+): RendersModifier {
+  let modifier: RendersModifier = "required";
+  let key: ComponentTypeId = actualTypeId ?? path[0];
+  for (let i = 0; i < path.length - 1; i++) {
+    const annotation = renderMap.get(key);
+    if (!annotation) {
+      break;
+    }
+    modifier = joinModifiers(modifier, annotation.modifier);
+    key = getMemberKey(annotation, path[i + 1]);
+  }
+  return modifier;
+}
+
+/**
+ * Describe the cardinality of a modifier for error messages (e.g. "zero or one")
+ */
+export function describeCardinality(modifier: RendersModifier): string {
+  return CARDINALITY_LABELS[modifier];
+}
+
 /**
  * Options for type-aware component validation
  */
@@ -16,6 +102,11 @@ export interface TypeAwareValidationOptions {
   expectedTypeId?: ComponentTypeId;
   /** All expected type IDs when @renders uses a union type */
   expectedTypeIds?: ComponentTypeId[];
+  /**
+   * Modifier of the expected slot. When set, paths through annotations with a
+   * wider modifier are rejected (e.g. `@renders? {Header}` cannot fill `@renders {Header}`).
+   */
+  expectedModifier?: RendersModifier;
 }
 
 /**
@@ -77,123 +168,298 @@ function annotationMatchesExpectedTypes(
 }
 
 /**
- * Check if a component can render the expected component type using type IDs.
- * This ensures that components are actually the same type, not just the same name.
+ * Find the union member of an annotation whose type matches the expected types.
+ * Uses per-member type IDs when available; otherwise falls back to matching the
+ * annotation as a whole and picks the member named like the expected component.
+ */
+function findMatchingMember(
+  annotation: ResolvedRendersAnnotation,
+  expectedComponent: string,
+  expectedTypeId: ComponentTypeId | undefined,
+  expectedTypeIds: ComponentTypeId[] | undefined
+): string | null {
+  if (annotation.memberTypeIds) {
+    for (const member of annotation.componentNames) {
+      const memberTypeId = annotation.memberTypeIds[member];
+      if (matchesAnyExpectedType(memberTypeId, expectedTypeId, expectedTypeIds)) {
+        return member;
+      }
+    }
+    return null;
+  }
+
+  if (!annotationMatchesExpectedTypes(annotation, expectedTypeId, expectedTypeIds)) {
+    return null;
+  }
+
+  return annotation.componentNames.includes(expectedComponent)
+    ? expectedComponent
+    : annotation.componentName;
+}
+
+/**
+ * Find a render path from a component to the expected component type.
+ * Performs a depth-first search over every member of every @renders union,
+ * with cycle detection per path, so `A @renders {B | C}` with `C @renders {Header}`
+ * reaches Header through the second branch.
  *
- * For union types like @renders {Header | Footer}, returning either Header OR Footer is valid.
+ * Returns the path of component names from actualComponent to the matched
+ * component (inclusive), e.g. ["A", "C", "Header"], or null when no path exists.
+ * A direct type ID match returns [actualComponent].
+ * With options.expectedModifier, only paths whose cardinality fits the slot count
+ * (see getRenderPathModifier).
  *
- * Examples:
- * - Header (type ID: "/path/Header.tsx:Header") can render Header (same type ID)
- * - MyHeader @renders {Header} can render Header if annotations match
- * - CustomHeader @renders {MyHeader} can render Header through chain resolution
- * - FlexComp @renders {Header | Footer} can return either Header or Footer
+ * Components are looked up in the render graph by type ID, so two components
+ * with the same name in different files never collide. Names without a resolved
+ * type ID fall back to being looked up by name.
  *
  * @param actualComponent - The component name being returned/used
  * @param expectedComponent - The component name required by @renders annotation (primary)
- * @param renderMap - Map of component names to their resolved annotations
+ * @param renderMap - Render graph keyed by component type ID
  * @param options - Type IDs for the actual and expected components
- * @param maxDepth - Maximum chain depth to prevent infinite loops (default: 10)
+ * @param maxDepth - Maximum number of annotations to follow along one path (default: 10)
  */
-export function canRenderComponentTyped(
+export function findRenderPath(
   actualComponent: string,
   expectedComponent: string,
   renderMap: ResolvedRenderMap,
   options: TypeAwareValidationOptions = {},
   maxDepth: number = DEFAULT_MAX_DEPTH
-): boolean {
-  const { actualTypeId, expectedTypeId, expectedTypeIds } = options;
+): string[] | null {
+  const { actualTypeId, expectedTypeId, expectedTypeIds, expectedModifier } = options;
 
   // Direct type ID match (handles union types)
   if (matchesAnyExpectedType(actualTypeId, expectedTypeId, expectedTypeIds)) {
-    return true;
+    return [actualComponent];
   }
 
-  // Check if actualComponent has a @renders annotation
-  const annotation = renderMap.get(actualComponent);
-  if (!annotation) {
-    return false;
-  }
+  const startKey = actualTypeId ?? actualComponent;
+  const path: string[] = [actualComponent];
+  const onPath = new Set<ComponentTypeId>([startKey]);
 
-  // If the annotation has target type IDs and we have expected type IDs,
-  // we can do a type-safe comparison (handles union types)
-  if (annotationMatchesExpectedTypes(annotation, expectedTypeId, expectedTypeIds)) {
-    return true;
-  }
+  function search(
+    key: ComponentTypeId,
+    depth: number,
+    pathModifier: RendersModifier
+  ): string[] | null {
+    if (depth >= maxDepth) {
+      return null;
+    }
 
-  // Follow the chain with cycle detection
-  const visited = new Set<string>([actualComponent]);
-  let currentName = annotation.componentName;
-  let currentAnnotation: ResolvedRendersAnnotation | undefined = annotation;
-  let depth = 0;
+    const annotation = renderMap.get(key);
+    if (!annotation) {
+      return null;
+    }
 
-  while (depth < maxDepth) {
-    // Type-based match check (handles union types)
-    if (currentAnnotation) {
-      if (annotationMatchesExpectedTypes(currentAnnotation, expectedTypeId, expectedTypeIds)) {
-        return true;
-      }
+    // Modifiers only widen along a path, so a too-wide prefix can never match
+    const modifier = joinModifiers(pathModifier, annotation.modifier);
+    if (expectedModifier && !isModifierAssignable(modifier, expectedModifier)) {
+      return null;
     }
 
-    // Cycle detection
-    if (visited.has(currentName)) {
-      return false;
+    // Type-based match against any member of this annotation
+    const matched = findMatchingMember(
+      annotation,
+      expectedComponent,
+      expectedTypeId,
+      expectedTypeIds
+    );
+    if (matched) {
+      return [...path, matched];
     }
-    visited.add(currentName);
 
-    // Follow the chain
-    const nextAnnotation = renderMap.get(currentName);
-    if (!nextAnnotation) {
-      return false;
+    // Follow every union member, skipping members already on this path
+    for (const member of annotation.componentNames) {
+      const memberKey = getMemberKey(annotation, member);
+      if (onPath.has(memberKey)) {
+        continue;
+      }
+
+      path.push(member);
+      onPath.add(memberKey);
+      const found = search(memberKey, depth + 1, modifier);
+      path.pop();
+      onPath.delete(memberKey);
+
+      if (found) {
+        return found;
+      }
     }
 
-    currentName = nextAnnotation.componentName;
-    currentAnnotation = nextAnnotation;
-    depth++;
+    return null;
   }
 
-  return false;
+  return search(startKey, 0, "required");
+}
+
+/**
+ * Check if a component can render the expected component type using type IDs.
+ * This ensures that components are actually the same type, not just the same name.
+ *
+ * For union types like @renders {Header | Footer}, returning either Header OR Footer is valid.
+ * Render chains are followed through every union member (see findRenderPath).
+ *
+ * Examples:
+ * - Header (type ID: "/path/Header.tsx:Header") can render Header (same type ID)
+ * - MyHeader @renders {Header} can render Header if annotations match
+ * - CustomHeader @renders {MyHeader} can render Header through chain resolution
+ * - FlexComp @renders {Header | Footer} can return either Header or Footer
+ * - Slot @renders {Foo | Bar} with Bar @renders {Header} can render Header
+ *
+ * @param actualComponent - The component name being returned/used
+ * @param expectedComponent - The component name required by @renders annotation (primary)
+ * @param renderMap - Render graph keyed by component type ID
+ * @param options - Type IDs for the actual and expected components
+ * @param maxDepth - Maximum chain depth to prevent infinite loops (default: 10)
+ */
+export function canRenderComponentTyped(
+  actualComponent: string,
+  expectedComponent: string,
+  renderMap: ResolvedRenderMap,
+  options: TypeAwareValidationOptions = {},
+  maxDepth: number = DEFAULT_MAX_DEPTH
+): boolean {
+  return (
+    findRenderPath(actualComponent, expectedComponent, renderMap, options, maxDepth) !== null
+  );
 }
 
 /**
- * Resolve the full render chain for a component.
- * Returns an array of component names in the chain.
+ * Resolve every component a component can render through @renders annotations.
+ * Follows all union members breadth-first, so nearer components come first.
+ * Each component appears once, even when reachable through several paths.
  *
  * Example:
  * - A @renders {B}, B @renders {C} => resolveRenderChain("A") returns ["B", "C"]
+ * - A @renders {B | C}, C @renders {D} => resolveRenderChain("A") returns ["B", "C", "D"]
  *
- * @param componentName - The starting component
- * @param renderMap - Map of component names to their @renders annotations
+ * @param component - The starting component's type ID (or name, when unresolved)
+ * @param renderMap - Render graph keyed by component type ID
  * @param maxDepth - Maximum chain depth (default: 10)
+ * @returns Component names as written in the annotations
  */
 export function resolveRenderChain(
-  componentName: string,
+  component: ComponentTypeId,
   renderMap: ResolvedRenderMap,
   maxDepth: number = DEFAULT_MAX_DEPTH
 ): string[] {
   const chain: string[] = [];
-  const visited = new Set<string>([componentName]);
+  const visited = new Set<ComponentTypeId>([component]);
 
-  let current = componentName;
+  let frontier = [component];
   let depth = 0;
 
-  while (depth < maxDepth) {
-    const annotation = renderMap.get(current);
-    if (!annotation) {
-      break;
-    }
+  while (frontier.length > 0 && depth < maxDepth) {
+    const next: ComponentTypeId[] = [];
 
-    const next = annotation.componentName;
+    for (const current of frontier) {
+      const annotation = renderMap.get(current);
+      if (!annotation) {
+        continue;
+      }
 
-    // Cycle detection
-    if (visited.has(next)) {
-      break;
+      for (const member of annotation.componentNames) {
+        const memberKey = getMemberKey(annotation, member);
+        // Cycle detection
+        if (visited.has(memberKey)) {
+          continue;
+        }
+        visited.add(memberKey);
+        chain.push(member);
+        next.push(memberKey);
+      }
     }
 
-    chain.push(next);
-    visited.add(next);
-    current = next;
+    frontier = next;
     depth++;
   }
 
   return chain;
 }
+
+/**
+ * A render cycle closed by one member of a component's @renders annotation
+ */
+export interface RenderCycle {
+  /** The member of the annotation pointing back into the cycle */
+  member: string;
+  /** Component names along the cycle, starting and ending with member */
+  path: string[];
+}
+
+/**
+ * Find the render cycles a component's @renders annotation closes: for each
+ * union member, a chain of annotations leading from the member back to the
+ * component, e.g. `C @renders {A}` with A @renders {B}, B @renders {C} closes
+ * ["A", "B", "C", "A"].
+ *
+ * Each cycle is attributed to one annotation only: the one pointing at the
+ * cycle's smallest key. Keys are type IDs, so a cycle spanning several files
+ * is reported once, with the same path, whichever file is linted.
+ *
+ * @param component - The component's type ID (or name, when unresolved)
+ * @param renderMap - Render graph keyed by component type ID
+ * @param maxDepth - Maximum number of annotations to follow along one path (default: 10)
+ */
+export function findRenderCycles(
+  component: ComponentTypeId,
+  renderMap: ResolvedRenderMap,
+  maxDepth: number = DEFAULT_MAX_DEPTH
+): RenderCycle[] {
+  const annotation = renderMap.get(component);
+  if (!annotation) {
+    return [];
+  }
+
+  const cycles: RenderCycle[] = [];
+
+  for (const member of annotation.componentNames) {
+    const start = getMemberKey(annotation, member);
+
+    if (start === component) {
+      cycles.push({ member, path: [member, member] });
+      continue;
+    }
+    if (start > component) {
+      continue;
+    }
+
+    const path: string[] = [member];
+    const onPath = new Set<ComponentTypeId>([start]);
+
+    // Only components with keys above start, so start is the cycle's smallest key
+    function search(key: ComponentTypeId, depth: number): boolean {
+      const current = renderMap.get(key);
+      if (!current || depth >= maxDepth) {
+        return false;
+      }
+
+      for (const next of current.componentNames) {
+        const nextKey = getMemberKey(current, next);
+        if (nextKey === component) {
+          path.push(next);
+          return true;
+        }
+        if (nextKey <= start || onPath.has(nextKey)) {
+          continue;
+        }
+
+        path.push(next);
+        onPath.add(nextKey);
+        if (search(nextKey, depth + 1)) {
+          return true;
+        }
+        path.pop();
+        onPath.delete(nextKey);
+      }
+
+      return false;
+    }
+
+    if (search(start, 1)) {
+      cycles.push({ member, path: [...path, member] });
+    }
+  }
+
+  return cycles;
+}
@@ -0,0 +1,371 @@
+import type { TSESTree } from "@typescript-eslint/utils";
+import type { RendersAnnotation, ResolvedRendersAnnotation } from "../types/index.js";
+import {
+  getCreateElementChildren,
+  getCreateElementName,
+  getCreateElementProps,
+  getJSXElementName,
+  isCreateElementCall,
+} from "./component-utils.js";
+import { resolveIdentifierValues } from "./dataflow.js";
+import type { FileAnalysis } from "./file-analysis.js";
+import { findRenderPath, getRenderPathModifier, joinModifiers } from "./render-chain.js";
+
+/**
+ * Cardinality inference for component returns.
+ *
+ * Works out how many elements of the expected type each return renders:
+ * exactly one (required), zero or one (optional: null, `cond && <A />`) or
+ * any number (many: arrays, .map(), fragments with several children).
+ * Anything that can't be analyzed statically yields null.
+ */
+
+type RendersModifier = RendersAnnotation["modifier"];
+
+type FunctionNode =
+  | TSESTree.FunctionDeclaration
+  | TSESTree.FunctionExpression
+  | TSESTree.ArrowFunctionExpression;
+
+/**
+ * Get the cardinality a component renders the expected type with when used
+ * directly: "required" for the expected component itself, the modifier along
+ * the render chain otherwise, or null when it doesn't render the expected type.
+ */
+export type ElementModifierResolver = (name: string) => RendersModifier | null;
+
+interface InferenceContext {
+  transparentComponents: Map<string, Set<string>>;
+  getElementModifier: ElementModifierResolver;
+}
+
+const DEFAULT_MAX_DEPTH = 10;
+
+/**
+ * Join the cardinalities of alternatives, or null if any is unknown
+ */
+function joinAll(modifiers: Array<RendersModifier | null>): RendersModifier | null {
+  let result: RendersModifier = "required";
+  for (const modifier of modifiers) {
+    if (modifier === null) return null;
+    result = joinModifiers(result, modifier);
+  }
+  return result;
+}
+
+/**
+ * Get the cardinality of elements rendered side by side: a single element
+ * keeps its own, several render "many". Unknown when empty.
+ */
+function getSequenceModifier(modifiers: Array<RendersModifier | null>): RendersModifier | null {
+  if (modifiers.length === 0 || modifiers.includes(null)) return null;
+  return modifiers.length === 1 ? modifiers[0] : "many";
+}
+
+/**
+ * Get the cardinality of each rendered JSX child. Whitespace is skipped;
+ * text can't render a component, so it's unknown.
+ */
+function getChildModifiers(
+  children: TSESTree.JSXChild[],
+  context: InferenceContext,
+  maxDepth: number
+): Array<RendersModifier | null> {
+  const modifiers: Array<RendersModifier | null> = [];
+
+  for (const child of children) {
+    switch (child.type) {
+      case "JSXText":
+        if (child.value.trim().length > 0) modifiers.push(null);
+        break;
+      case "JSXExpressionContainer":
+        if (child.expression.type !== "JSXEmptyExpression") {
+          modifiers.push(getExpressionModifier(child.expression, context, maxDepth - 1));
+        }
+        break;
+      case "JSXElement":
+      case "JSXFragment":
+        modifiers.push(getExpressionModifier(child, context, maxDepth - 1));
+        break;
+      default:
+        modifiers.push(null);
+    }
+  }
+
+  return modifiers;
+}
+
+/**
+ * Get the cardinality of a transparent wrapper: the join of the props it
+ * looks through, since a wrapper such as a feature flag renders one or the other
+ */
+function getTransparentElementModifier(
+  element: TSESTree.JSXElement,
+  propNames: Set<string>,
+  context: InferenceContext,
+  maxDepth: number
+): RendersModifier | null {
+  const slots: Array<RendersModifier | null> = [];
+
+  if (propNames.has("children") && element.children.length > 0) {
+    slots.push(getSequenceModifier(getChildModifiers(element.children, context, maxDepth)));
+  }
+
+  for (const attr of element.openingElement.attributes) {
+    if (
+      attr.type !== "JSXAttribute" ||
+      attr.name.type !== "JSXIdentifier" ||
+      !propNames.has(attr.name.name) ||
+      !attr.value
+    ) {
+      continue;
+    }
+
+    if (attr.value.type === "JSXExpressionContainer") {
+      slots.push(
+        attr.value.expression.type === "JSXEmptyExpression"
+          ? null
+          : getExpressionModifier(attr.value.expression, context, maxDepth - 1)
+      );
+    } else if (attr.value.type === "JSXElement") {
+      slots.push(getExpressionModifier(attr.value, context, maxDepth - 1));
+    } else {
+      slots.push(null);
+    }
+  }
+
+  return slots.length > 0 ? joinAll(slots) : null;
+}
+
+/**
+ * Get the cardinality of a createElement / jsx call, looking through
+ * transparent wrappers like JSX elements
+ */
+function getCreateElementModifier(
+  call: TSESTree.CallExpression,
+  context: InferenceContext,
+  maxDepth: number
+): RendersModifier | null {
+  const name = getCreateElementName(call);
+  if (!name) return null;
+
+  const propNames = context.transparentComponents.get(name);
+  if (!propNames) {
+    return context.getElementModifier(name);
+  }
+
+  const slots: Array<RendersModifier | null> = [];
+  const children = getCreateElementChildren(call);
+  if (propNames.has("children") && children.length > 0) {
+    slots.push(
+      getSequenceModifier(children.map((child) => getExpressionModifier(child, context, maxDepth - 1)))
+    );
+  }
+  for (const prop of getCreateElementProps(call)) {
+    if (prop.name !== "children" && propNames.has(prop.name)) {
+      slots.push(getExpressionModifier(prop.value, context, maxDepth - 1));
+    }
+  }
+
+  return slots.length > 0 ? joinAll(slots) : null;
+}
+
+/**
+ * Get the cardinality an expression renders the expected type with
+ */
+function getExpressionModifier(
+  expr: TSESTree.Expression,
+  context: InferenceContext,
+  maxDepth: number
+): RendersModifier | null {
+  if (maxDepth <= 0) return null;
+
+  switch (expr.type) {
+    case "Literal":
+      return expr.value === null || expr.value === false ? "optional" : null;
+
+    case "Identifier": {
+      if (expr.name === "undefined") return "optional";
+      const values = resolveIdentifierValues(expr);
+      if (!values || values.length === 0) return null;
+      return joinAll(values.map((value) => getExpressionModifier(value, context, maxDepth - 1)));
+    }
+
+    case "JSXElement": {
+      const name = getJSXElementName(expr);
+      if (!name) return null;
+      const propNames = context.transparentComponents.get(name);
+      return propNames
+        ? getTransparentElementModifier(expr, propNames, context, maxDepth)
+        : context.getElementModifier(name);
+    }
+
+    case "JSXFragment": {
+      // An empty fragment renders nothing, like null
+      if (expr.children.every((child) => child.type === "JSXText" && child.value.trim().length === 0)) {
+        return "optional";
+      }
+      return getSequenceModifier(getChildModifiers(expr.children, context, maxDepth));
+    }
+
+    case "ConditionalExpression":
+      return joinAll([
+        getExpressionModifier(expr.consequent, context, maxDepth - 1),
+        getExpressionModifier(expr.alternate, context, maxDepth - 1),
+      ]);
+
+    case "LogicalExpression":
+      // cond && <A /> renders the falsy condition or A
+      return joinAll([
+        expr.operator === "&&" ? "optional" : getExpressionModifier(expr.left, context, maxDepth - 1),
+        getExpressionModifier(expr.right, context, maxDepth - 1),
+      ]);
+
+    case "ArrayExpression":
+      for (const element of expr.elements) {
+        if (!element) continue;
+        const value = element.type === "SpreadElement" ? element.argument : element;
+        if (getExpressionModifier(value, context, maxDepth - 1) === null) return null;
+      }
+      return "many";
+
+    case "CallExpression": {
+      if (isCreateElementCall(expr)) {
+        return getCreateElementModifier(expr, context, maxDepth);
+      }
+      const { callee } = expr;
+      if (
+        callee.type !== "MemberExpression" ||
+        callee.property.type !== "Identifier" ||
+        (callee.property.name !== "map" && callee.property.name !== "flatMap")
+      ) {
+        return null;
+      }
+
+      // items.map(...) renders a list, if every element the callback returns
+      // renders the expected type. Callbacks passed by reference are unknown.
+      const [callback] = expr.arguments;
+      if (
+        !callback ||
+        (callback.type !== "ArrowFunctionExpression" && callback.type !== "FunctionExpression")
+      ) {
+        return null;
+      }
+      return joinAll(getFunctionReturnModifiers(callback, context, maxDepth - 1)) === null ? null : "many";
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Collect the return statements of a function body, not those of nested functions
+ */
+function collectReturnStatements(node: TSESTree.Node, results: TSESTree.ReturnStatement[]): void {
+  if (node.type === "ReturnStatement") {
+    results.push(node);
+    return;
+  }
+
+  if (
+    node.type === "FunctionDeclaration" ||
+    node.type === "FunctionExpression" ||
+    node.type === "ArrowFunctionExpression"
+  ) {
+    return;
+  }
+
+  for (const key of Object.keys(node)) {
+    if (key === "parent") continue;
+
+    const child = (node as unknown as Record<string, unknown>)[key];
+    if (Array.isArray(child)) {
+      for (const item of child) {
+        if (item && typeof item === "object" && "type" in item) {
+          collectReturnStatements(item as TSESTree.Node, results);
+        }
+      }
+    } else if (child && typeof child === "object" && "type" in child) {
+      collectReturnStatements(child as TSESTree.Node, results);
+    }
+  }
+}
+
+/**
+ * Get the cardinality of each return of a function. A bare `return;` renders
+ * nothing; a function without returns is unknown.
+ */
+function getFunctionReturnModifiers(
+  node: FunctionNode,
+  context: InferenceContext,
+  maxDepth: number
+): Array<RendersModifier | null> {
+  if (node.type === "ArrowFunctionExpression" && node.body.type !== "BlockStatement") {
+    return [getExpressionModifier(node.body, context, maxDepth)];
+  }
+
+  const returns: TSESTree.ReturnStatement[] = [];
+  if (node.body) {
+    collectReturnStatements(node.body, returns);
+  }
+  if (returns.length === 0) {
+    return [null];
+  }
+
+  return returns.map(({ argument }) =>
+    argument ? getExpressionModifier(argument, context, maxDepth) : "optional"
+  );
+}
+
+/**
+ * Infer the narrowest @renders modifier covering every return of a function.
+ * Returns null when the function has no returns or any return can't be analyzed.
+ *
+ * @param node - The component function (or class render function)
+ * @param transparentComponents - Wrappers to look through, by name
+ * @param getElementModifier - Cardinality of a directly rendered component
+ */
+export function inferReturnModifier(
+  node: FunctionNode,
+  transparentComponents: Map<string, Set<string>>,
+  getElementModifier: ElementModifierResolver
+): RendersModifier | null {
+  const context: InferenceContext = { transparentComponents, getElementModifier };
+  return joinAll(getFunctionReturnModifiers(node, context, DEFAULT_MAX_DEPTH));
+}
+
+/**
+ * Infer the narrowest modifier covering every return of an annotated local
+ * component, matching returns against its @renders targets the way
+ * valid-render-return does. Returns null when a return can't be analyzed or
+ * doesn't render the annotated type.
+ */
+export function inferComponentReturnModifier(
+  analysis: FileAnalysis,
+  node: FunctionNode,
+  componentName: string,
+  annotation: RendersAnnotation
+): RendersModifier | null {
+  const resolvedRenderMap = analysis.getResolvedRenderMap();
+
+  // Alias members are resolved where the alias is declared, so prefer those
+  const componentTypeId = analysis.getComponentTypeId(componentName) ?? componentName;
+  const expandedAnnotation: ResolvedRendersAnnotation = resolvedRenderMap.get(componentTypeId) ?? annotation;
+  const expectedTypeId = expandedAnnotation.targetTypeId
+    ?? analysis.getComponentTypeId(expandedAnnotation.componentName)
+    ?? undefined;
+  const expectedTypeIds = expandedAnnotation.targetTypeIds ?? expandedAnnotation.componentNames
+    .map((name) => analysis.getComponentTypeId(name))
+    .filter((id): id is string => id !== null);
+
+  return inferReturnModifier(node, analysis.getTransparentComponents(), (name) => {
+    const actualTypeId = analysis.getComponentTypeId(name) ?? undefined;
+    const path = findRenderPath(name, expandedAnnotation.componentName, resolvedRenderMap, {
+      actualTypeId,
+      expectedTypeId,
+      expectedTypeIds: expectedTypeIds.length > 0 ? expectedTypeIds : undefined,
+    });
+    return path ? getRenderPathModifier(path, resolvedRenderMap, actualTypeId) : null;
+  });
+}
@@ -1,13 +1,19 @@
 import type { TSESLint } from "@typescript-eslint/utils";
+import type { AnnotationManifest } from "../types/index.js";
+import { parseAnnotationManifest } from "./annotation-manifest.js";
 
 /**
  * Parsed plugin settings.
  * transparentComponentsMap: component name → set of prop names to extract JSX from.
  * additionalComponentWrappers: extra wrapper function names treated like forwardRef/memo.
+ * externalAnnotations: annotations for components in other modules, by module specifier and export name.
+ * cacheDirectory: directory for persistent per-file annotation summaries, or null when disabled.
  */
 export interface PluginSettings {
   transparentComponentsMap: Map<string, Set<string>>;
   additionalComponentWrappers: Set<string>;
+  externalAnnotations: AnnotationManifest;
+  cacheDirectory: string | null;
 }
 
 /**
@@ -37,6 +43,9 @@ function isTransparentComponentEntry(
  * additionalTransparentComponents accepts:
  *   - string entries: treated as { name: value, props: ["children"] }
  *   - object entries: { name: string; props: string[] }
+ *
+ * externalAnnotations uses the render-types.json manifest format:
+ *   { [moduleSpecifier]: { [exportName]: { renders?, transparent?, props? } } }
  */
 export function getPluginSettings(
   settings: TSESLint.SharedConfigurationSettings
@@ -69,5 +78,13 @@ export function getPluginSettings(
     }
   }
 
-  return { transparentComponentsMap: map, additionalComponentWrappers: wrappers };
+  return {
+    transparentComponentsMap: map,
+    additionalComponentWrappers: wrappers,
+    externalAnnotations: parseAnnotationManifest(raw.externalAnnotations),
+    cacheDirectory:
+      typeof raw.cacheDirectory === "string" && raw.cacheDirectory.length > 0
+        ? raw.cacheDirectory
+        : null,
+  };
 }
@@ -0,0 +1,187 @@
+import ts from "typescript";
+import type {
+  ComponentTypeId,
+  ResolvedRendersAnnotation,
+  TransparentAnnotation,
+} from "../types/index.js";
+import { getParentDirectory } from "./annotation-manifest.js";
+
+/**
+ * Bump when the summary format or the analysis producing it changes,
+ * so summaries written by older versions are ignored.
+ */
+const SUMMARY_VERSION = 3;
+
+/**
+ * JSDoc annotations of one component, with targets resolved to type IDs
+ */
+export interface ComponentSummary {
+  renders: ResolvedRendersAnnotation | null;
+  transparent: TransparentAnnotation | null;
+  props: Record<string, ResolvedRendersAnnotation> | null;
+}
+
+/**
+ * Annotations of the components a file exports, keyed by type ID
+ */
+export interface FileSummary {
+  components: Record<ComponentTypeId, ComponentSummary>;
+}
+
+/**
+ * Summary as stored on disk. key covers the file's text, the compiler
+ * options and the additionalComponentWrappers setting; dependencies maps
+ * every other file the summary was derived from to the hash of its text
+ * when the summary was written.
+ */
+interface StoredSummary extends FileSummary {
+  version: number;
+  key: string;
+  dependencies: Record<string, string>;
+}
+
+export interface SummaryCache {
+  /** Read a file's summary, or null when missing or out of date */
+  read(sourceFile: ts.SourceFile): FileSummary | null;
+  /** Store a file's summary along with the files it was derived from */
+  write(sourceFile: ts.SourceFile, summary: FileSummary, dependencies: Iterable<string>): void;
+}
+
+// Hashes of source file texts; SourceFile objects are replaced when a file changes
+const textHashes = new WeakMap<ts.SourceFile, string>();
+const compilerOptionsHashes = new WeakMap<ts.Program, string>();
+
+function isStoredSummary(value: unknown): value is StoredSummary {
+  if (typeof value !== "object" || value === null) return false;
+  const stored = value as Record<string, unknown>;
+  return (
+    stored.version === SUMMARY_VERSION &&
+    typeof stored.key === "string" &&
+    typeof stored.dependencies === "object" &&
+    stored.dependencies !== null &&
+    typeof stored.components === "object" &&
+    stored.components !== null
+  );
+}
+
+/**
+ * Create directories along a forward-slash path
+ */
+function ensureDirectory(directory: string): void {
+  if (ts.sys.directoryExists(directory)) return;
+
+  const parent = getParentDirectory(directory);
+  if (parent) {
+    ensureDirectory(parent);
+  }
+  ts.sys.createDirectory(directory);
+}
+
+/**
+ * Settings that change how components resolve, and so what a summary contains
+ */
+export interface SummaryResolutionSettings {
+  /** Wrappers followed from default exports: `export default myWrapper(Card)` */
+  additionalComponentWrappers?: ReadonlySet<string>;
+}
+
+/**
+ * Create an on-disk cache of per-file annotation summaries in cacheDirectory,
+ * shared across lint runs and workers. Returns null when the TypeScript
+ * host can't hash content.
+ */
+export function createSummaryCache(
+  cacheDirectory: string,
+  program: ts.Program,
+  settings: SummaryResolutionSettings = {}
+): SummaryCache | null {
+  const createHash = ts.sys.createSHA256Hash ?? ts.sys.createHash;
+  if (!createHash) {
+    return null;
+  }
+  const hash = (data: string): string => createHash.call(ts.sys, data);
+  const directory = ts.sys.resolvePath(cacheDirectory).replace(/\\/g, "/");
+  const settingsHash = hash(JSON.stringify([...(settings.additionalComponentWrappers ?? [])].sort()));
+
+  function hashSourceFile(sourceFile: ts.SourceFile): string {
+    let textHash = textHashes.get(sourceFile);
+    if (textHash === undefined) {
+      textHash = hash(sourceFile.text);
+      textHashes.set(sourceFile, textHash);
+    }
+    return textHash;
+  }
+
+  function getCompilerOptionsHash(): string {
+    let optionsHash = compilerOptionsHashes.get(program);
+    if (optionsHash === undefined) {
+      optionsHash = hash(JSON.stringify(program.getCompilerOptions()));
+      compilerOptionsHashes.set(program, optionsHash);
+    }
+    return optionsHash;
+  }
+
+  function getKey(sourceFile: ts.SourceFile): string {
+    return hash(
+      `${SUMMARY_VERSION}\0${getCompilerOptionsHash()}\0${settingsHash}\0${hashSourceFile(sourceFile)}`
+    );
+  }
+
+  function getEntryPath(sourceFile: ts.SourceFile): string {
+    return `${directory}/${hash(sourceFile.fileName)}.json`;
+  }
+
+  function isUpToDate(stored: StoredSummary, sourceFile: ts.SourceFile): boolean {
+    if (stored.key !== getKey(sourceFile)) {
+      return false;
+    }
+
+    return Object.entries(stored.dependencies).every(([fileName, textHash]) => {
+      const dependency = program.getSourceFile(fileName);
+      return dependency !== undefined && hashSourceFile(dependency) === textHash;
+    });
+  }
+
+  return {
+    read(sourceFile) {
+      const text = ts.sys.readFile(getEntryPath(sourceFile));
+      if (text === undefined) {
+        return null;
+      }
+
+      try {
+        const stored: unknown = JSON.parse(text);
+        return isStoredSummary(stored) && isUpToDate(stored, sourceFile)
+          ? { components: stored.components }
+          : null;
+      } catch {
+        // Partially written by a concurrent worker, or corrupted
+        return null;
+      }
+    },
+
+    write(sourceFile, summary, dependencies) {
+      const dependencyHashes: Record<string, string> = {};
+      for (const fileName of dependencies) {
+        const dependency = program.getSourceFile(fileName);
+        if (dependency && dependency !== sourceFile) {
+          dependencyHashes[fileName] = hashSourceFile(dependency);
+        }
+      }
+
+      const stored: StoredSummary = {
+        version: SUMMARY_VERSION,
+        key: getKey(sourceFile),
+        dependencies: dependencyHashes,
+        components: summary.components,
+      };
+
+      try {
+        ensureDirectory(directory);
+        ts.sys.writeFile(getEntryPath(sourceFile), JSON.stringify(stored));
+      } catch {
+        // The cache is an optimization; lint results don't depend on it
+      }
+    },
+  };
+}
@@ -0,0 +1,7 @@
+import { MenuItem } from "./MenuItem";
+import type { MenuSlot } from "./types";
+
+/** @renders {MenuSlot} */
+export function Group() {
+  return <MenuItem />;
+}
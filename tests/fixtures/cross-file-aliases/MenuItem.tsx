@@ -0,0 +1,3 @@
+export function MenuItem() {
+  return <li>Item</li>;
+}
@@ -0,0 +1,3 @@
+export function SubMenu() {
+  return <ul />;
+}
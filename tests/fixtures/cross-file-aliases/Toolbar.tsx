@@ -0,0 +1,11 @@
+import type { ReactNode } from "react";
+import type { MenuChild } from "./types";
+
+export interface ToolbarProps {
+  /** @renders {MenuChild} */
+  item: ReactNode;
+}
+
+export function Toolbar({ item }: ToolbarProps) {
+  return <nav>{item}</nav>;
+}
@@ -0,0 +1,7 @@
+import type { MenuItem } from "./MenuItem";
+import type { Divider } from "./Divider";
+
+// @ts-expect-error -- circular on purpose, expansion must terminate
+export type Ping = Pong | typeof MenuItem;
+// @ts-expect-error -- circular on purpose, expansion must terminate
+export type Pong = Ping | typeof Divider;
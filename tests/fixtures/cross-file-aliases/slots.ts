@@ -0,0 +1 @@
+export type { MenuSlot as Slot } from "./types";
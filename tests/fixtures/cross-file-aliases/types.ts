@@ -0,0 +1,8 @@
+import type { MenuItem } from "./MenuItem";
+import type { SubMenu } from "./SubMenu";
+import type { Divider } from "./Divider";
+
+export type MenuChild = typeof MenuItem | typeof SubMenu;
+
+// Alias of an alias, with a member only this file imports
+export type MenuSlot = MenuChild | (typeof Divider);
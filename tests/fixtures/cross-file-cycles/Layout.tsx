@@ -0,0 +1,6 @@
+import { Page } from "./Page";
+
+/** @renders {Page} */
+export function Layout() {
+  return <Page />;
+}
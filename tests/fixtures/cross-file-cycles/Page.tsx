@@ -0,0 +1,6 @@
+import { Shell } from "./Shell";
+
+/** @renders {Shell} */
+export function Page() {
+  return <Shell />;
+}
@@ -0,0 +1,6 @@
+import { Layout } from "./Layout";
+
+/** @renders {Layout} */
+export function Shell() {
+  return <Layout />;
+}
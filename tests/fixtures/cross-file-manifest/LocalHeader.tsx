@@ -0,0 +1,6 @@
+import { CardHeader, CardTitle } from "@acme/ui";
+
+/** @renders {CardHeader} */
+export function LocalHeader({ title }: { title: string }) {
+  return <CardTitle title={title} />;
+}
@@ -0,0 +1,14 @@
+// Re-exports package components, so files importing from here
+// don't import @acme/ui themselves.
+import { Card, CardBody, CardHeader, CardTitle } from "@acme/ui";
+
+export { Card, CardBody, CardHeader, CardTitle };
+
+/** @renders {CardHeader} */
+export function TitleWrapper({ title }: { title: string }) {
+  return <CardTitle title={title} />;
+}
+
+export function TitledCard({ title }: { title: string }) {
+  return <Card header={<CardTitle title={title} />} />;
+}
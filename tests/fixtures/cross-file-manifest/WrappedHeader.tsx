@@ -0,0 +1,17 @@
+import { CardHeader, CardTitle } from "./TitleWrapper";
+
+/** @renders {CardHeader} */
+export function WrappedHeader({ title }: { title: string }) {
+  return <CardTitle title={title} />;
+}
+
+interface PanelProps {
+  /** @renders {CardHeader} */
+  header: unknown;
+}
+
+export declare function Panel(props: PanelProps): unknown;
+
+export function TitledPanel({ title }: { title: string }) {
+  return <Panel header={<CardTitle title={title} />} />;
+}
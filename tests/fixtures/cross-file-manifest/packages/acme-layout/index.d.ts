@@ -0,0 +1,6 @@
+// Third-party components annotated through the externalAnnotations setting.
+
+export declare function Shell(props: { sidebar?: unknown }): unknown;
+export declare function SidebarPanel(props: { children?: unknown }): unknown;
+export declare function NavPanel(props: { children?: unknown }): unknown;
+export declare function Slot(props: { content?: unknown }): unknown;
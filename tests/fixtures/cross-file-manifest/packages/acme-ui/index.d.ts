@@ -0,0 +1,14 @@
+// Third-party components without JSDoc annotations: render-types.json
+// in this package declares them instead.
+
+export interface CardProps {
+  header?: unknown;
+  children?: unknown;
+}
+
+export declare function Card(props: CardProps): unknown;
+export declare function CardHeader(props: { title: string }): unknown;
+export declare function CardTitle(props: { title: string }): unknown;
+export declare function CardBody(props: { children?: unknown }): unknown;
+export declare function Box(props: { children?: unknown }): unknown;
+export declare function Button(props: { label: string }): unknown;
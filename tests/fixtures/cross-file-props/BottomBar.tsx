@@ -0,0 +1,11 @@
+import type { NavSlots } from "./NavSlots";
+import { NavLink } from "./NavLink";
+
+type BottomBarProps = Omit<NavSlots, "secondary"> & {
+  /** @renders {NavLink} */
+  brand: React.ReactNode;
+};
+
+export function BottomBar({ primary, brand }: BottomBarProps) {
+  return <footer>{brand}{primary}</footer>;
+}
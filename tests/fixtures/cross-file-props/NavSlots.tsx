@@ -0,0 +1,8 @@
+import { NavItem } from "./NavItem";
+
+export interface NavSlots {
+  /** @renders {NavItem} */
+  primary: React.ReactNode;
+  /** @renders* {NavItem} */
+  secondary?: React.ReactNode;
+}
@@ -0,0 +1,10 @@
+import { NavLink } from "./NavLink";
+
+interface PrimaryNavLinkProps {
+  label: string;
+}
+
+/** @renders {NavLink} */
+export function PrimaryNavLink({ label }: PrimaryNavLinkProps) {
+  return <NavLink label={label} />;
+}
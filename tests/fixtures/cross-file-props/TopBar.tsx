@@ -0,0 +1,9 @@
+import type { NavSlots } from "./NavSlots";
+
+interface TopBarProps extends NavSlots {
+  title: string;
+}
+
+export function TopBar({ title, primary, secondary }: TopBarProps) {
+  return <header>{title}{primary}{secondary}</header>;
+}
@@ -0,0 +1,4 @@
+export { Nav as Root } from "./Nav";
+export { NavItem as Item } from "./NavItem";
+export { NavLink as Link } from "./NavLink";
+export { NavGroup as Group } from "./NavGroup";
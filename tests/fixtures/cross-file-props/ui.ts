@@ -0,0 +1,2 @@
+export * from "./barrel";
+export * as Nav from "./nav-namespace";
@@ -0,0 +1,9 @@
+export type ReactNode = string | number | boolean | null | undefined | { type: unknown; props: unknown };
+
+export interface CardProps {
+  /** @renders {Header} */
+  header: ReactNode;
+  children: ReactNode;
+  /** @renders-any */
+  footer?: ReactNode;
+}
@@ -0,0 +1,6 @@
+import { Header } from "./Header";
+
+export const Card = {
+  /** @renders {Header} */
+  Title: () => <Header />,
+};
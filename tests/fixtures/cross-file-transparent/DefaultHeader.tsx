@@ -0,0 +1,6 @@
+import { Header } from "./Header";
+
+/** @renders {Header} */
+export default function () {
+  return <Header />;
+}
@@ -0,0 +1,13 @@
+import { Component } from "react";
+import type { ReactNode } from "react";
+
+interface ErrorBoundaryProps {
+  children: ReactNode;
+}
+
+/** @transparent */
+export class ErrorBoundary extends Component<ErrorBoundaryProps> {
+  render() {
+    return this.props.children;
+  }
+}
@@ -0,0 +1,9 @@
+import { Component } from "react";
+import { Header } from "./Header";
+
+/** @renders {Header} */
+export class HeaderBoundary extends Component {
+  render() {
+    return <Header />;
+  }
+}
@@ -0,0 +1,5 @@
+import { memo } from "react";
+import { Header } from "./Header";
+
+/** @renders {Header} */
+export default memo(() => <Header />);
@@ -0,0 +1,11 @@
+import type { ReactNode } from "react";
+import { Header } from "./Header";
+
+export function Menu({ children }: { children: ReactNode }) {
+  return <ul>{children}</ul>;
+}
+
+/** @renders {Header} */
+Menu.Heading = function Heading() {
+  return <Header />;
+};
@@ -0,0 +1,6 @@
+import { BrandHeader } from "./BrandHeader";
+
+/** @renders {BrandHeader} */
+export function PageHeader() {
+  return <BrandHeader />;
+}
@@ -0,0 +1,17 @@
+import type { ReactNode } from "react";
+import { Header } from "./Header";
+
+function TabsRoot({ children }: { children: ReactNode }) {
+  return <div role="tablist">{children}</div>;
+}
+
+/** @renders {Header} */
+function TabTitle() {
+  return <Header />;
+}
+
+export const Tabs = Object.assign(TabsRoot, {
+  Title: TabTitle,
+  /** @transparent */
+  Panel: ({ children }: { children: ReactNode }) => <section>{children}</section>,
+});
@@ -0,0 +1,9 @@
+import { forwardRef } from "react";
+import { Header } from "./Header";
+
+/** @renders {Header} */
+export function InnerHeader() {
+  return <Header />;
+}
+
+export default forwardRef(InnerHeader);
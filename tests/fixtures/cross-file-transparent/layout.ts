@@ -0,0 +1,2 @@
+export { TransparentWrapper as Wrapper } from "./TransparentWrapper";
+export { NonTransparentWrapper as Box } from "./NonTransparentWrapper";
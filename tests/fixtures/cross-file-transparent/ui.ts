@@ -0,0 +1,4 @@
+export * from "./Header";
+export * from "./Footer";
+export * from "./TransparentWrapper";
+export * as Layout from "./layout";
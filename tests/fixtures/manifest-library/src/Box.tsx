@@ -0,0 +1,9 @@
+/** @transparent */
+export function Box({ children }: { children?: unknown }) {
+  return <div>{children}</div>;
+}
+
+/** @transparent {fallback, children} */
+export function Gate({ fallback, children }: { fallback?: unknown; children?: unknown }) {
+  return <>{children ?? fallback}</>;
+}
@@ -0,0 +1,28 @@
+export function CardHeader({ title }: { title: string }) {
+  return <h2>{title}</h2>;
+}
+
+/** @renders {CardHeader} */
+export function CardTitle({ title }: { title: string }) {
+  return <CardHeader title={title} />;
+}
+
+export function CardBody({ children }: { children?: unknown }) {
+  return <div>{children}</div>;
+}
+
+interface CardProps {
+  /** @renders? {CardHeader} */
+  header?: unknown;
+  /** @renders* {CardBody} */
+  children?: unknown;
+}
+
+export function Card({ header, children }: CardProps) {
+  return (
+    <section>
+      {header}
+      {children}
+    </section>
+  );
+}
@@ -0,0 +1,23 @@
+function InternalItem() {
+  return <li />;
+}
+
+export function MenuItem() {
+  return <li />;
+}
+
+/** @renders {MenuItem} */
+function MenuLink() {
+  return <MenuItem />;
+}
+
+function MenuRoot({ children }: { children?: unknown }) {
+  return <ul>{children}</ul>;
+}
+
+export const Menu = Object.assign(MenuRoot, { Link: MenuLink });
+
+/** @renders {InternalItem} */
+export function LegacyItem() {
+  return <InternalItem />;
+}
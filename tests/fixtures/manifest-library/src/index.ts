@@ -0,0 +1,3 @@
+export * from "./Card";
+export { Box, Gate } from "./Box";
+export { Menu, MenuItem, LegacyItem } from "./Menu";
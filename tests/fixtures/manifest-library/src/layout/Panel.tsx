@@ -0,0 +1,10 @@
+export function PanelSection() {
+  return <div />;
+}
+
+export function Panel(props: {
+  /** @renders* {PanelSection} */
+  children?: unknown;
+}) {
+  return <aside>{props.children}</aside>;
+}
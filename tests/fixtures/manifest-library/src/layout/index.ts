@@ -0,0 +1 @@
+export { Panel, PanelSection } from "./Panel";
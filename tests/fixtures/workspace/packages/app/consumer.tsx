@@ -0,0 +1,3 @@
+// Placeholder: tests lint this file with their own code, inside the
+// app project (so its project references apply)
+export {};
@@ -0,0 +1,4 @@
+/** @transparent */
+export function Frame({ children }: { children?: unknown }) {
+  return <div>{children}</div>;
+}
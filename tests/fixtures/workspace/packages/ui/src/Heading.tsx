@@ -0,0 +1,8 @@
+export function Heading({ text }: { text: string }) {
+  return <h1>{text}</h1>;
+}
+
+/** @renders {Heading} */
+export function PageTitle({ text }: { text: string }) {
+  return <Heading text={text} />;
+}
@@ -0,0 +1,17 @@
+import { Heading } from "./Heading.js";
+
+interface SectionProps {
+  /** @renders {Heading} */
+  title: unknown;
+  children?: unknown;
+}
+
+export function Section({ title, children }: SectionProps) {
+  return (
+    <section>
+      {title}
+      {children}
+    </section>
+  );
+}
+
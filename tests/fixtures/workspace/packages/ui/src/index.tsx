@@ -0,0 +1,3 @@
+export { Frame } from "./Frame.js";
+export { Heading, PageTitle } from "./Heading.js";
+export { Section } from "./Section.js";
@@ -1,5 +1,6 @@
 import { describe, it, expect } from "vitest";
 import ts from "typescript";
+import { getTypeReferences, parseRendersAnnotations } from "../src/utils/annotation-grammar.cjs";
 
 /**
  * Replicate the diagnostic name extraction logic from isRendersReferencedImport.
@@ -16,22 +17,13 @@ function extractNameFromDiagnostic(messageText: string | { messageText: string }
 
 /**
  * Replicate the getRendersComponentNames logic from the TS plugin
- * to test the regex extraction independently.
+ * to test the extraction independently.
  * This must stay in sync with src/language-service-plugin.ts.
  */
 function getRendersComponentNames(sourceText: string): Set<string> {
-  const regex =
-    /(?:^|[^a-zA-Z@])@renders(?:\?|\*)?(?:!)?\s*\{\s*([^}]+)\s*\}/g;
   const names = new Set<string>();
-  let match: RegExpExecArray | null;
-  while ((match = regex.exec(sourceText)) !== null) {
-    const typeExpr = match[1];
-    for (const part of typeExpr.split("|")) {
-      const name = part.trim().split(".")[0];
-      if (name && /^[A-Z]/.test(name)) {
-        names.add(name);
-      }
-    }
+  for (const span of getRendersComponentSpans(sourceText)) {
+    names.add(span.name);
   }
   return names;
 }
@@ -165,31 +157,15 @@ interface RendersComponentSpan {
  * Must stay in sync with src/language-service-plugin.ts.
  */
 function getRendersComponentSpans(sourceText: string): RendersComponentSpan[] {
-  const regex = /(?:^|[^a-zA-Z@])@renders(?:\?|\*)?(?:!)?\s*\{\s*([^}]+)\s*\}/g;
   const spans: RendersComponentSpan[] = [];
-  let match: RegExpExecArray | null;
-  while ((match = regex.exec(sourceText)) !== null) {
-    const typeExpr = match[1];
-    const typeExprStart = match.index + match[0].indexOf(typeExpr);
-
-    let offset = 0;
-    for (const part of typeExpr.split("|")) {
-      const partStart = typeExpr.indexOf(part, offset);
-      const trimmed = part.trimStart();
-      const leadingSpaces = part.length - trimmed.length;
-      const fullName = trimmed.trimEnd();
-
-      if (fullName && /^[A-Z]/.test(fullName)) {
-        const absoluteStart = typeExprStart + partStart + leadingSpaces;
-        spans.push({
-          name: fullName.split(".")[0],
-          fullName,
-          start: absoluteStart,
-          length: fullName.length,
-        });
-      }
-
-      offset = partStart + part.length;
+  for (const result of parseRendersAnnotations(sourceText)) {
+    for (const reference of result.references) {
+      spans.push({
+        name: reference.segments[0].name,
+        fullName: reference.name,
+        start: reference.start,
+        length: reference.end - reference.start,
+      });
     }
   }
   return spans;
@@ -313,6 +289,28 @@ function B() {}`;
     expect(getRendersComponentSpans(text)).toEqual([]);
   });
 
+  it("keeps spans of well-formed names while the annotation is being typed", () => {
+    const text = `/** @renders {Header | } */`;
+    const spans = getRendersComponentSpans(text);
+    expect(spans).toHaveLength(1);
+    expect(text.substring(spans[0].start, spans[0].start + spans[0].length)).toBe("Header");
+  });
+
+  it("extracts names from a union that spans lines", () => {
+    const text = `/**
+ * @renders {Header |
+ *   Footer}
+ */`;
+    const spans = getRendersComponentSpans(text);
+    expect(spans.map((s) => s.name)).toEqual(["Header", "Footer"]);
+    expect(text.substring(spans[1].start, spans[1].start + spans[1].length)).toBe("Footer");
+  });
+
+  it("does not treat @renders-any as an annotation", () => {
+    const text = `/** @renders-any {Header} */`;
+    expect(getRendersComponentSpans(text)).toEqual([]);
+  });
+
   describe("hit detection", () => {
     it("finds span when cursor is at start of name", () => {
       const text = `/** @renders {Header} */`;
@@ -440,41 +438,28 @@ function formatRendersTag(
 
   const rawText = tag.text.map((p) => p.text).join("");
 
-  let modifier = "";
-  let name = tag.name;
-  const nameModifierMatch = name.match(/^renders([?*]?!?)$/);
-  if (nameModifierMatch && nameModifierMatch[1]) {
-    modifier = nameModifierMatch[1];
-  } else {
-    const textModifierMatch = rawText.match(/^([?*]!?|!)\s*\{/);
-    if (textModifierMatch && textModifierMatch[1]) {
-      modifier = textModifierMatch[1];
-      name = `renders${modifier}`;
-    }
-  }
+  const tagText = `@${tag.name}${/^[?*!]/.test(rawText) ? "" : " "}${rawText}`;
+  const annotation = parseRendersAnnotations(tagText)[0]?.annotation;
+  if (!annotation) return null;
 
-  const contentMatch = rawText.match(/[?*]*!?\s*\{\s*([^}]+)\s*\}/);
-  if (!contentMatch) return null;
+  const modifierEnd = annotation.uncheckedSpan?.end ?? annotation.modifierSpan?.end ?? annotation.tag.end;
+  const modifier = tagText.slice(annotation.tag.end, modifierEnd);
+  const name = `renders${modifier}`;
 
-  const typeContent = contentMatch[1].trim();
   const parts: SymbolDisplayPart[] = [];
 
-  const typeNames = typeContent.split("|");
-  typeNames.forEach((typeName, i) => {
-    const trimmed = typeName.trim();
-    if (!trimmed) return;
+  getTypeReferences(annotation.typeExpression).forEach((reference, i) => {
     if (i > 0) {
       parts.push({ kind: "text", text: " | " });
     }
 
-    const baseName = trimmed.split(".")[0];
-    const target = resolveDefinition?.(baseName);
+    const target = resolveDefinition?.(reference.segments[0].name);
     if (target) {
       parts.push({ kind: "link", text: "{@linkcode " });
-      (parts as any[]).push({ kind: "linkName", text: trimmed, target });
+      (parts as any[]).push({ kind: "linkName", text: reference.name, target });
       parts.push({ kind: "link", text: "}" });
     } else {
-      parts.push({ kind: "text", text: `\`${trimmed}\`` });
+      parts.push({ kind: "text", text: `\`${reference.name}\`` });
     }
   });
 
@@ -554,6 +539,12 @@ describe("formatRendersTag", () => {
     expect(partsToText(result!.text)).toBe("`Header` — *optional*");
   });
 
+  it("keeps combined modifiers in the tag name", () => {
+    const result = formatRendersTag({ name: "renders?!", text: [{ kind: "text", text: "{Header}" }] });
+    expect(result!.name).toBe("renders?!");
+    expect(partsToText(result!.text)).toBe("`Header` — *optional*");
+  });
+
   it("returns null when no braces in text", () => {
     expect(formatRendersTag({ name: "renders", text: [{ kind: "text", text: "no braces" }] })).toBeNull();
   });
@@ -667,17 +658,14 @@ function getRendersCompletionContext(
   sourceText: string,
   position: number,
 ): RendersCompletionContext | null {
-  const regex = /(?:^|[^a-zA-Z@])@renders(?:\?|\*)?(?:!)?\s*\{/g;
-  let match: RegExpExecArray | null;
-  while ((match = regex.exec(sourceText)) !== null) {
-    const braceOpen = match.index + match[0].length - 1;
-    const braceClose = sourceText.indexOf("}", braceOpen + 1);
-    if (braceClose === -1) continue;
-
-    if (position > braceOpen && position <= braceClose) {
-      const inner = sourceText.substring(braceOpen + 1, position);
+  for (const result of parseRendersAnnotations(sourceText)) {
+    const body = result.body;
+    if (!body) continue;
+
+    if (position >= body.start && position <= body.end) {
+      const inner = sourceText.substring(body.start, position);
       const lastPipe = inner.lastIndexOf("|");
-      const segmentStart = lastPipe !== -1 ? braceOpen + 1 + lastPipe + 1 : braceOpen + 1;
+      const segmentStart = lastPipe !== -1 ? body.start + lastPipe + 1 : body.start;
       const raw = sourceText.substring(segmentStart, position);
       const prefix = raw.trimStart();
       const prefixStart = segmentStart + (raw.length - prefix.length);
@@ -847,6 +835,14 @@ describe("getRendersCompletionContext", () => {
     expect(ctx!.prefix).toBe("Fo");
   });
 
+  it("returns prefix when the closing brace has not been typed yet", () => {
+    const text = `/** @renders {Header | Fo\n */`;
+    const pos = text.indexOf("Fo") + 2;
+    const ctx = getRendersCompletionContext(text, pos);
+    expect(ctx).not.toBeNull();
+    expect(ctx!.prefix).toBe("Fo");
+  });
+
   it("handles whitespace variations", () => {
     const text = `/**  @renders  {  He} */`;
     const pos = text.indexOf("He") + 2;
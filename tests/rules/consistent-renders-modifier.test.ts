@@ -0,0 +1,507 @@
+import { RuleTester } from "@typescript-eslint/rule-tester";
+import * as vitest from "vitest";
+import rule from "../../src/rules/consistent-renders-modifier.js";
+
+// Configure rule tester to use vitest
+RuleTester.afterAll = vitest.afterAll;
+RuleTester.it = vitest.it;
+RuleTester.itOnly = vitest.it.only;
+RuleTester.itSkip = vitest.it.skip;
+RuleTester.describe = vitest.describe;
+RuleTester.describeSkip = vitest.describe.skip;
+
+const ruleTester = new RuleTester({
+  languageOptions: {
+    parserOptions: {
+      ecmaFeatures: { jsx: true },
+      projectService: {
+        allowDefaultProject: ["*.tsx"],
+      },
+    },
+  },
+});
+
+ruleTester.run("consistent-renders-modifier", rule, {
+  valid: [
+    {
+      name: "required annotation with a single element",
+      code: `
+        function Header() { return <h1 />; }
+        /** @renders {Header} */
+        function MyHeader() { return <Header />; }
+      `,
+      filename: "test.tsx",
+    },
+    {
+      name: "optional annotation with a null branch",
+      code: `
+        function Header() { return <h1 />; }
+        /** @renders? {Header} */
+        function MaybeHeader({ show }: { show: boolean }) {
+          if (!show) return null;
+          return <Header />;
+        }
+      `,
+      filename: "test.tsx",
+    },
+    {
+      name: "optional annotation with a conditional",
+      code: `
+        function Header() { return <h1 />; }
+        /** @renders? {Header} */
+        const MaybeHeader = ({ show }: { show: boolean }) => show && <Header />;
+      `,
+      filename: "test.tsx",
+    },
+    {
+      name: "many annotation with a mapped list",
+      code: `
+        function Item() { return <li />; }
+        /** @renders* {Item} */
+        function Items({ items }: { items: string[] }) {
+          return <>{items.map((item) => <Item key={item} />)}</>;
+        }
+      `,
+      filename: "test.tsx",
+    },
+    {
+      name: "mapped list of a different component is left to valid-render-return",
+      code: `
+        function Header() { return <h1 />; }
+        function Other() { return <p />; }
+        /** @renders {Header} */
+        function Headers({ items }: { items: string[] }) {
+          return items.map(() => <Other />);
+        }
+      `,
+      filename: "test.tsx",
+    },
+    {
+      name: "mapped list with a callback returning a different component on one branch",
+      code: `
+        function Header() { return <h1 />; }
+        function Other() { return <p />; }
+        /** @renders? {Header} */
+        function Headers({ items }: { items: string[] }) {
+          return items.flatMap((item) => {
+            if (item) return <Header key={item} />;
+            return <Other key={item} />;
+          });
+        }
+      `,
+      filename: "test.tsx",
+    },
+    {
+      name: "mapped list with a callback passed by reference",
+      code: `
+        function Header() { return <h1 />; }
+        declare function renderItem(item: string): unknown;
+        /** @renders {Header} */
+        function Headers({ items }: { items: string[] }) {
+          return items.map(renderItem);
+        }
+      `,
+      filename: "test.tsx",
+    },
+    {
+      name: "many annotation with several fragment children",
+      code: `
+        function Item() { return <li />; }
+        /** @renders* {Item} */
+        function Pair() {
+          return (
+            <>
+              <Item />
+              <Item />
+            </>
+          );
+        }
+      `,
+      filename: "test.tsx",
+    },
+    {
+      name: "many annotation with an array",
+      code: `
+        function Item() { return <li />; }
+        /** @renders* {Item} */
+        function One() { return [<Item key="a" />]; }
+      `,
+      filename: "test.tsx",
+    },
+    {
+      name: "cardinality widened by the render chain",
+      code: `
+        function Header() { return <h1 />; }
+        /** @renders? {Header} */
+        function MaybeHeader({ show }: { show: boolean }) { return show ? <Header /> : null; }
+        /** @renders? {Header} */
+        function Page() { return <MaybeHeader show />; }
+      `,
+      filename: "test.tsx",
+    },
+    {
+      name: "unanalyzable returns are skipped",
+      code: `
+        function Header() { return <h1 />; }
+        /** @renders* {Header} */
+        function Dynamic({ render }: { render: () => unknown }) { return render(); }
+      `,
+      filename: "test.tsx",
+    },
+    {
+      name: "returns that don't render the expected type are left to valid-render-return",
+      code: `
+        function Header() { return <h1 />; }
+        function Footer() { return <footer />; }
+        /** @renders* {Header} */
+        function Wrong() { return <Footer />; }
+      `,
+      filename: "test.tsx",
+    },
+    {
+      name: "unchecked annotations are skipped",
+      code: `
+        function Header() { return <h1 />; }
+        /** @renders*! {Header} */
+        function Registry() { return <Header />; }
+      `,
+      filename: "test.tsx",
+    },
+    {
+      name: "narrowing disabled with direction: widen",
+      code: `
+        function Header() { return <h1 />; }
+        /** @renders* {Header} */
+        function MyHeader() { return <Header />; }
+      `,
+      filename: "test.tsx",
+      options: [{ direction: "widen" }],
+    },
+    {
+      name: "widening disabled with direction: narrow",
+      code: `
+        function Header() { return <h1 />; }
+        /** @renders {Header} */
+        function MaybeHeader({ show }: { show: boolean }) {
+          return show ? <Header /> : null;
+        }
+      `,
+      filename: "test.tsx",
+      options: [{ direction: "narrow" }],
+    },
+  ],
+  invalid: [
+    {
+      name: "required annotation with an empty fragment branch is widened to optional",
+      code: `
+        function Header() { return <h1 />; }
+        /** @renders {Header} */
+        function MaybeHeader({ show }: { show: boolean }) {
+          if (!show) return <></>;
+          return <Header />;
+        }
+      `,
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "widenModifier",
+          data: {
+            componentName: "MaybeHeader",
+            expected: "Header",
+            annotation: "@renders {Header}",
+            replacement: "@renders? {Header}",
+            declaredCardinality: "exactly one",
+            inferredCardinality: "zero or one",
+          },
+          line: 3,
+          column: 13,
+          endColumn: 21,
+          suggestions: [
+            {
+              messageId: "useModifier",
+              data: { replacement: "@renders? {Header}" },
+              output: `
+        function Header() { return <h1 />; }
+        /** @renders? {Header} */
+        function MaybeHeader({ show }: { show: boolean }) {
+          if (!show) return <></>;
+          return <Header />;
+        }
+      `,
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: "required annotation with a null branch is widened by suggestion",
+      code: `
+        function Header() { return <h1 />; }
+        /** @renders {Header} */
+        function MaybeHeader({ show }: { show: boolean }) {
+          if (!show) return null;
+          return <Header />;
+        }
+      `,
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "widenModifier",
+          data: {
+            componentName: "MaybeHeader",
+            expected: "Header",
+            annotation: "@renders {Header}",
+            replacement: "@renders? {Header}",
+            declaredCardinality: "exactly one",
+            inferredCardinality: "zero or one",
+          },
+          line: 3,
+          column: 13,
+          endColumn: 21,
+          suggestions: [
+            {
+              messageId: "useModifier",
+              data: { replacement: "@renders? {Header}" },
+              output: `
+        function Header() { return <h1 />; }
+        /** @renders? {Header} */
+        function MaybeHeader({ show }: { show: boolean }) {
+          if (!show) return null;
+          return <Header />;
+        }
+      `,
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: "optional annotation rendering a list is widened to many",
+      code: `
+        function Item() { return <li />; }
+        /** @renders? {Item} */
+        function Items({ items }: { items: string[] }) {
+          return items.map((item) => <Item key={item} />);
+        }
+      `,
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "widenModifier",
+          suggestions: [
+            {
+              messageId: "useModifier",
+              data: { replacement: "@renders* {Item}" },
+              output: `
+        function Item() { return <li />; }
+        /** @renders* {Item} */
+        function Items({ items }: { items: string[] }) {
+          return items.map((item) => <Item key={item} />);
+        }
+      `,
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: "list from a block-bodied callback is widened to many",
+      code: `
+        function Item() { return <li />; }
+        /** @renders {Item} */
+        function Items({ items }: { items: string[] }) {
+          return items.map(function (item) {
+            if (!item) return null;
+            return <Item key={item} />;
+          });
+        }
+      `,
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "widenModifier",
+          suggestions: [
+            {
+              messageId: "useModifier",
+              output: `
+        function Item() { return <li />; }
+        /** @renders* {Item} */
+        function Items({ items }: { items: string[] }) {
+          return items.map(function (item) {
+            if (!item) return null;
+            return <Item key={item} />;
+          });
+        }
+      `,
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: "required annotation rendering an optional component is widened",
+      code: `
+        function Header() { return <h1 />; }
+        /** @renders? {Header} */
+        function MaybeHeader({ show }: { show: boolean }) { return show ? <Header /> : null; }
+        /** @renders {Header} */
+        function Page() { return <MaybeHeader show />; }
+      `,
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "widenModifier",
+          line: 5,
+          suggestions: [
+            {
+              messageId: "useModifier",
+              data: { replacement: "@renders? {Header}" },
+              output: `
+        function Header() { return <h1 />; }
+        /** @renders? {Header} */
+        function MaybeHeader({ show }: { show: boolean }) { return show ? <Header /> : null; }
+        /** @renders? {Header} */
+        function Page() { return <MaybeHeader show />; }
+      `,
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: "many annotation always rendering one element is narrowed",
+      code: `
+        function Header() { return <h1 />; }
+        /** @renders* {Header} */
+        function MyHeader() { return <Header />; }
+      `,
+      output: `
+        function Header() { return <h1 />; }
+        /** @renders {Header} */
+        function MyHeader() { return <Header />; }
+      `,
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "narrowModifier",
+          data: {
+            componentName: "MyHeader",
+            expected: "Header",
+            annotation: "@renders* {Header}",
+            replacement: "@renders {Header}",
+            declaredCardinality: "zero or more",
+            inferredCardinality: "exactly one",
+          },
+        },
+      ],
+    },
+    {
+      name: "many annotation rendering zero or one element is narrowed to optional",
+      code: `
+        function Header() { return <h1 />; }
+        /** @renders* {Header} */
+        const MaybeHeader = ({ show }: { show: boolean }) => (show ? <Header /> : null);
+      `,
+      output: `
+        function Header() { return <h1 />; }
+        /** @renders? {Header} */
+        const MaybeHeader = ({ show }: { show: boolean }) => (show ? <Header /> : null);
+      `,
+      filename: "test.tsx",
+      errors: [{ messageId: "narrowModifier" }],
+    },
+    {
+      name: "union annotation on a multi-line JSDoc",
+      code: `
+        function Header() { return <h1 />; }
+        function Footer() { return <footer />; }
+        /**
+         * Page section.
+         * @renders? {Header | Footer}
+         */
+        function Section({ top }: { top: boolean }) {
+          return top ? <Header /> : <Footer />;
+        }
+      `,
+      output: `
+        function Header() { return <h1 />; }
+        function Footer() { return <footer />; }
+        /**
+         * Page section.
+         * @renders {Header | Footer}
+         */
+        function Section({ top }: { top: boolean }) {
+          return top ? <Header /> : <Footer />;
+        }
+      `,
+      filename: "test.tsx",
+      errors: [{ messageId: "narrowModifier", line: 6 }],
+    },
+    {
+      name: "optional annotation through a transparent wrapper",
+      code: `
+        function Header() { return <h1 />; }
+        /** @transparent */
+        function Wrapper({ children }: { children: unknown }) { return <div>{children}</div>; }
+        /** @renders? {Header} */
+        function MyHeader() {
+          return (
+            <Wrapper>
+              <Header />
+            </Wrapper>
+          );
+        }
+      `,
+      output: `
+        function Header() { return <h1 />; }
+        /** @transparent */
+        function Wrapper({ children }: { children: unknown }) { return <div>{children}</div>; }
+        /** @renders {Header} */
+        function MyHeader() {
+          return (
+            <Wrapper>
+              <Header />
+            </Wrapper>
+          );
+        }
+      `,
+      filename: "test.tsx",
+      errors: [{ messageId: "narrowModifier" }],
+    },
+    {
+      name: "class component render()",
+      code: `
+        import { Component } from "react";
+        function Header() { return <h1 />; }
+        /** @renders {Header} */
+        class MaybeHeader extends Component<{ show: boolean }> {
+          render() {
+            return this.props.show && <Header />;
+          }
+        }
+      `,
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "widenModifier",
+          suggestions: [
+            {
+              messageId: "useModifier",
+              data: { replacement: "@renders? {Header}" },
+              output: `
+        import { Component } from "react";
+        function Header() { return <h1 />; }
+        /** @renders? {Header} */
+        class MaybeHeader extends Component<{ show: boolean }> {
+          render() {
+            return this.props.show && <Header />;
+          }
+        }
+      `,
+            },
+          ],
+        },
+      ],
+    },
+  ],
+});
@@ -0,0 +1,121 @@
+import fs from "node:fs";
+import path from "node:path";
+import { RuleTester } from "@typescript-eslint/rule-tester";
+import * as vitest from "vitest";
+import validRenderProp from "../../src/rules/valid-render-prop.js";
+import validRenderReturn from "../../src/rules/valid-render-return.js";
+import { clearAnnotationCache } from "../../src/utils/cross-file-resolver.js";
+
+// Configure rule tester to use vitest
+RuleTester.afterAll = vitest.afterAll;
+RuleTester.it = vitest.it;
+RuleTester.itOnly = vitest.it.only;
+RuleTester.itSkip = vitest.it.skip;
+RuleTester.describe = vitest.describe;
+RuleTester.describeSkip = vitest.describe.skip;
+
+// A pnpm-style workspace: the app depends on @mono/ui through a node_modules
+// symlink, references its tsconfig, and imports it through package.json
+// "exports" pointing at build output that doesn't exist. Only the program
+// (following the project reference back to the sources) can resolve it.
+const workspaceDir = path.resolve(__dirname, "../fixtures/workspace");
+const appDir = path.join(workspaceDir, "packages/app");
+const uiDir = path.join(workspaceDir, "packages/ui");
+const appNodeModules = path.join(appDir, "node_modules");
+
+const uiLink = path.join(appNodeModules, "@mono/ui");
+fs.mkdirSync(path.dirname(uiLink), { recursive: true });
+if (!fs.existsSync(uiLink)) {
+  fs.symlinkSync(uiDir, uiLink, "junction");
+}
+
+vitest.afterAll(() => {
+  fs.rmSync(appNodeModules, { recursive: true, force: true });
+});
+
+// consumer.tsx exists on disk so it's linted inside the app project
+const ruleTester = new RuleTester({
+  languageOptions: {
+    parserOptions: {
+      ecmaFeatures: { jsx: true },
+      projectService: true,
+      tsconfigRootDir: appDir,
+    },
+  },
+});
+
+const filename = path.join(appDir, "consumer.tsx");
+
+vitest.beforeEach(() => {
+  clearAnnotationCache();
+});
+
+ruleTester.run("valid-render-return (workspace packages)", validRenderReturn, {
+  valid: [
+    {
+      name: "workspace: @transparent component from a referenced project",
+      code: `
+        import { Frame, Heading } from "@mono/ui";
+
+        /** @renders {Heading} */
+        export function Title() {
+          return <Frame><Heading text="Hi" /></Frame>;
+        }
+      `,
+      filename,
+    },
+    {
+      name: "workspace: @renders chain into a referenced project",
+      code: `
+        import { Heading, PageTitle } from "@mono/ui";
+
+        /** @renders {Heading} */
+        export function Title() {
+          return <PageTitle text="Hi" />;
+        }
+      `,
+      filename,
+    },
+  ],
+  invalid: [
+    {
+      name: "workspace: wrong component inside a @transparent wrapper",
+      code: `
+        import { Frame, Heading, Section } from "@mono/ui";
+
+        /** @renders {Heading} */
+        export function Title() {
+          return <Frame><Section title={null} /></Frame>;
+        }
+      `,
+      filename,
+      errors: [{ messageId: "invalidRenderReturn", line: 6 }],
+    },
+  ],
+});
+
+ruleTester.run("valid-render-prop (workspace packages)", validRenderProp, {
+  valid: [
+    {
+      name: "workspace: prop annotation from a referenced project",
+      code: `
+        import { Frame, PageTitle, Section } from "@mono/ui";
+
+        <Section title={<Frame><PageTitle text="Hi" /></Frame>} />;
+      `,
+      filename,
+    },
+  ],
+  invalid: [
+    {
+      name: "workspace: wrong component in a prop from a referenced project",
+      code: `
+        import { Frame, Heading, Section } from "@mono/ui";
+
+        <Section title={<Frame><Section title={<Heading text="Hi" />} /></Frame>} />;
+      `,
+      filename,
+      errors: [{ messageId: "invalidRenderProp", line: 4 }],
+    },
+  ],
+});
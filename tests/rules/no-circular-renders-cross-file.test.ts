@@ -0,0 +1,80 @@
+import fs from "node:fs";
+import path from "node:path";
+import { RuleTester } from "@typescript-eslint/rule-tester";
+import * as vitest from "vitest";
+import rule from "../../src/rules/no-circular-renders.js";
+import { clearAnnotationCache } from "../../src/utils/cross-file-resolver.js";
+
+// Configure rule tester to use vitest
+RuleTester.afterAll = vitest.afterAll;
+RuleTester.it = vitest.it;
+RuleTester.itOnly = vitest.it.only;
+RuleTester.itSkip = vitest.it.skip;
+RuleTester.describe = vitest.describe;
+RuleTester.describeSkip = vitest.describe.skip;
+
+const fixturesDir = path.resolve(__dirname, "../fixtures/cross-file-cycles");
+
+const ruleTester = new RuleTester({
+  languageOptions: {
+    parserOptions: {
+      ecmaFeatures: { jsx: true },
+      projectService: {
+        allowDefaultProject: ["consumer.tsx"],
+        defaultProject: "tsconfig.json",
+      },
+      tsconfigRootDir: fixturesDir,
+    },
+  },
+});
+
+const consumer = path.resolve(fixturesDir, "consumer.tsx");
+
+/** Lint a fixture file as it is on disk */
+function fixture(name: string): { code: string; filename: string } {
+  const filename = path.resolve(fixturesDir, name);
+  return { code: fs.readFileSync(filename, "utf8"), filename };
+}
+
+vitest.beforeEach(() => {
+  clearAnnotationCache();
+});
+
+// Layout.tsx @renders {Page}, Page.tsx @renders {Shell}, Shell.tsx @renders {Layout}
+ruleTester.run("no-circular-renders (cross-file)", rule, {
+  valid: [
+    {
+      name: "cycle member whose annotation doesn't close the loop",
+      ...fixture("Layout.tsx"),
+    },
+    {
+      name: "another cycle member",
+      ...fixture("Page.tsx"),
+    },
+    {
+      name: "component rendering into a cycle without being part of it",
+      code: `
+        import { Layout } from "./Layout";
+
+        /** @renders {Layout} */
+        export function App() {
+          return <Layout />;
+        }
+      `,
+      filename: consumer,
+    },
+  ],
+  invalid: [
+    {
+      name: "annotation closing a cycle across three files",
+      ...fixture("Shell.tsx"),
+      errors: [
+        {
+          messageId: "circularRenders",
+          data: { path: "Layout → Page → Shell → Layout" },
+          line: 3,
+        },
+      ],
+    },
+  ],
+});
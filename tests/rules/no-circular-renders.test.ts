@@ -0,0 +1,148 @@
+import { RuleTester } from "@typescript-eslint/rule-tester";
+import * as vitest from "vitest";
+import rule from "../../src/rules/no-circular-renders.js";
+
+// Configure rule tester to use vitest
+RuleTester.afterAll = vitest.afterAll;
+RuleTester.it = vitest.it;
+RuleTester.itOnly = vitest.it.only;
+RuleTester.itSkip = vitest.it.skip;
+RuleTester.describe = vitest.describe;
+RuleTester.describeSkip = vitest.describe.skip;
+
+const ruleTester = new RuleTester({
+  languageOptions: {
+    parserOptions: {
+      ecmaFeatures: { jsx: true },
+      projectService: {
+        allowDefaultProject: ["*.tsx"],
+      },
+    },
+  },
+});
+
+ruleTester.run("no-circular-renders", rule, {
+  valid: [
+    {
+      name: "acyclic chain",
+      code: `
+        function Header() { return <h1 />; }
+        /** @renders {Header} */
+        function MyHeader() { return <Header />; }
+        /** @renders {MyHeader} */
+        function FancyHeader() { return <MyHeader />; }
+      `,
+      filename: "test.tsx",
+    },
+    {
+      name: "union members reaching the same component",
+      code: `
+        function Header() { return <h1 />; }
+        /** @renders {Header} */
+        function A() { return <Header />; }
+        /** @renders {A | Header} */
+        function B() { return <A />; }
+      `,
+      filename: "test.tsx",
+    },
+    {
+      name: "unresolved annotation targets",
+      code: `
+        /** @renders {Missing} */
+        function A() { return null; }
+      `,
+      filename: "test.tsx",
+    },
+  ],
+  invalid: [
+    {
+      name: "component rendering itself",
+      code: `
+        /** @renders {Tree} */
+        function Tree() { return <Tree />; }
+      `,
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "circularRenders",
+          data: { path: "Tree → Tree" },
+          line: 2,
+          column: 23,
+          endColumn: 27,
+        },
+      ],
+    },
+    {
+      name: "two components rendering each other, reported once",
+      code: `
+        /** @renders {B} */
+        function A() { return <B />; }
+        /** @renders {A} */
+        function B() { return <A />; }
+      `,
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "circularRenders",
+          data: { path: "A → B → A" },
+          line: 4,
+        },
+      ],
+    },
+    {
+      name: "three-component cycle",
+      code: `
+        /** @renders {B} */
+        function A() { return <B />; }
+        /** @renders {C} */
+        function B() { return <C />; }
+        /** @renders? {A} */
+        function C() { return <A />; }
+      `,
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "circularRenders",
+          data: { path: "A → B → C → A" },
+          line: 6,
+          column: 24,
+          endColumn: 25,
+        },
+      ],
+    },
+    {
+      name: "cycle through a union member",
+      code: `
+        function Header() { return <h1 />; }
+        /** @renders {Header | Section} */
+        function Layout() { return <Header />; }
+        /** @renders {Layout} */
+        const Section = () => <Layout />;
+      `,
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "circularRenders",
+          data: { path: "Layout → Section → Layout" },
+          line: 5,
+        },
+      ],
+    },
+    {
+      name: "cycle through a type alias",
+      code: `
+        type Slot = typeof Panel;
+        /** @renders {Slot} */
+        function Panel() { return <Panel />; }
+      `,
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "circularRenders",
+          data: { path: "Panel → Panel" },
+          line: 3,
+        },
+      ],
+    },
+  ],
+});
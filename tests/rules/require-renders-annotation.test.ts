@@ -23,6 +23,28 @@ const ruleTester = new RuleTester({
 
 ruleTester.run("require-renders-annotation", rule, {
   valid: [
+    // Same-named factories that don't create React elements
+    {
+      name: "document.createElement isn't a React element",
+      code: `
+        export function PortalNode() {
+          return document.createElement("div");
+        }
+      `,
+      filename: "test.tsx",
+    },
+    {
+      name: "locally defined jsx() isn't the JSX runtime",
+      code: `
+        function jsx(tag: string) {
+          return { tag };
+        }
+        export function Markup() {
+          return jsx("div");
+        }
+      `,
+      filename: "test.tsx",
+    },
     // Component with @renders annotation
     {
       name: "function declaration with @renders",
@@ -207,6 +229,25 @@ ruleTester.run("require-renders-annotation", rule, {
       `,
       filename: "test.tsx",
     },
+    // Anonymous default export with @renders
+    {
+      name: "anonymous default export with @renders",
+      code: `
+        /** @renders {Header} */
+        export default function () {
+          return <Header />;
+        }
+      `,
+      filename: "test.tsx",
+    },
+    {
+      name: "default-exported memo() with @renders",
+      code: `
+        /** @renders {Header} */
+        export default memo(() => <Header />);
+      `,
+      filename: "test.tsx",
+    },
   ],
   invalid: [
     // Missing annotation on function declaration
@@ -406,5 +447,64 @@ ruleTester.run("require-renders-annotation", rule, {
         },
       ],
     },
+    // Components creating elements without JSX syntax
+    {
+      name: "component returning React.createElement missing @renders",
+      code: `
+        import * as React from "react";
+        function MyHeader() {
+          return React.createElement(Header, null);
+        }
+      `,
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "missingRendersAnnotation",
+          data: { componentName: "MyHeader" },
+        },
+      ],
+    },
+    {
+      name: "arrow component returning a jsx-runtime call missing @renders",
+      code: `
+        import { jsx as _jsx } from "react/jsx-runtime";
+        const MyHeader = () => _jsx(Header, {});
+      `,
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "missingRendersAnnotation",
+          data: { componentName: "MyHeader" },
+        },
+      ],
+    },
+    {
+      name: "anonymous default export missing @renders",
+      code: `
+        export default function () {
+          return <Header />;
+        }
+      `,
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "missingRendersAnnotation",
+          data: { componentName: "default export" },
+        },
+      ],
+    },
+    {
+      name: "default-exported memo() missing @renders",
+      code: `
+        export default memo(() => <Header />);
+      `,
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "missingRendersAnnotation",
+          data: { componentName: "default export" },
+        },
+      ],
+    },
   ],
 });
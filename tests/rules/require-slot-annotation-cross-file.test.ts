@@ -0,0 +1,93 @@
+import path from "node:path";
+import { RuleTester } from "@typescript-eslint/rule-tester";
+import * as vitest from "vitest";
+import rule from "../../src/rules/require-slot-annotation.js";
+import { clearAnnotationCache } from "../../src/utils/cross-file-resolver.js";
+
+// Configure rule tester to use vitest
+RuleTester.afterAll = vitest.afterAll;
+RuleTester.it = vitest.it;
+RuleTester.itOnly = vitest.it.only;
+RuleTester.itSkip = vitest.it.skip;
+RuleTester.describe = vitest.describe;
+RuleTester.describeSkip = vitest.describe.skip;
+
+const fixturesDir = path.resolve(__dirname, "../fixtures/cross-file-slots");
+
+const ruleTester = new RuleTester({
+  languageOptions: {
+    parserOptions: {
+      ecmaFeatures: { jsx: true },
+      projectService: {
+        allowDefaultProject: ["consumer.tsx"],
+        defaultProject: "tsconfig.json",
+      },
+      tsconfigRootDir: fixturesDir,
+    },
+  },
+});
+
+const consumer = path.resolve(fixturesDir, "consumer.tsx");
+
+vitest.beforeEach(() => {
+  clearAnnotationCache();
+});
+
+// slot-props.ts exports a ReactNode alias and CardProps with annotated header and footer slots
+ruleTester.run("require-slot-annotation (cross-file)", rule, {
+  valid: [
+    {
+      name: "annotated slot typed with an imported alias",
+      code: `
+        import type { ReactNode } from "./slot-props";
+        export function Panel(props: {
+          /** @renders-any */
+          children: ReactNode;
+        }) {
+          return <div>{props.children}</div>;
+        }
+      `,
+      filename: consumer,
+    },
+  ],
+  invalid: [
+    {
+      name: "unannotated slot typed with an imported alias",
+      code: `
+        import type { ReactNode } from "./slot-props";
+        export function Panel({ children }: { children?: ReactNode }) {
+          return <div>{children}</div>;
+        }
+      `,
+      filename: consumer,
+      errors: [
+        {
+          messageId: "missingSlotAnnotation",
+          data: { propName: "children", componentName: "Panel" },
+          line: 3,
+          column: 47,
+          endColumn: 55,
+        },
+      ],
+    },
+    {
+      name: "unannotated slot of an imported props type is reported at the component",
+      code: `
+        import type { CardProps } from "./slot-props";
+        export function Card({ header, children }: CardProps) {
+          return <div>{header}{children}</div>;
+        }
+      `,
+      filename: consumer,
+      errors: [
+        {
+          messageId: "missingSlotAnnotation",
+          data: { propName: "children", componentName: "Card" },
+          line: 3,
+          column: 25,
+          endColumn: 29,
+        },
+      ],
+    },
+  ],
+});
@@ -0,0 +1,255 @@
+import { RuleTester } from "@typescript-eslint/rule-tester";
+import * as vitest from "vitest";
+import rule from "../../src/rules/require-slot-annotation.js";
+
+// Configure rule tester to use vitest
+RuleTester.afterAll = vitest.afterAll;
+RuleTester.it = vitest.it;
+RuleTester.itOnly = vitest.it.only;
+RuleTester.itSkip = vitest.it.skip;
+RuleTester.describe = vitest.describe;
+RuleTester.describeSkip = vitest.describe.skip;
+
+const ruleTester = new RuleTester({
+  languageOptions: {
+    parserOptions: {
+      ecmaFeatures: { jsx: true },
+      projectService: {
+        allowDefaultProject: ["*.tsx"],
+      },
+    },
+  },
+});
+
+ruleTester.run("require-slot-annotation", rule, {
+  valid: [
+    {
+      name: "slot props with @renders annotations",
+      code: `
+        interface CardProps {
+          /** @renders {Header} */
+          header: React.ReactNode;
+          /** @renders* {Item} */
+          children: React.ReactNode;
+        }
+        export function Card({ header, children }: CardProps) {
+          return <div>{header}{children}</div>;
+        }
+      `,
+      filename: "test.tsx",
+    },
+    {
+      name: "slot prop opted out with @renders-any",
+      code: `
+        interface PanelProps {
+          /** @renders-any */
+          children: React.ReactNode;
+        }
+        export const Panel = ({ children }: PanelProps) => <section>{children}</section>;
+      `,
+      filename: "test.tsx",
+    },
+    {
+      name: "@renders-any alongside a description",
+      code: `
+        export function Tooltip(props: {
+          /**
+           * Content shown on hover.
+           * @renders-any
+           */
+          content: JSX.Element;
+        }) {
+          return <div>{props.content}</div>;
+        }
+      `,
+      filename: "test.tsx",
+    },
+    {
+      name: "annotated slot props of a class component",
+      code: `
+        declare class Component<P> { props: Readonly<P>; }
+        interface LayoutProps {
+          /** @renders {Header} */
+          header: React.ReactNode;
+          /** @renders-any */
+          children: React.ReactNode;
+        }
+        export class Layout extends Component<LayoutProps> {
+          render() {
+            return <div>{this.props.header}{this.props.children}</div>;
+          }
+        }
+      `,
+      filename: "test.tsx",
+    },
+    {
+      name: "props that aren't slots",
+      code: `
+        export function Badge({ label, count }: { label: string; count: number }) {
+          return <span>{label}{count}</span>;
+        }
+      `,
+      filename: "test.tsx",
+    },
+    {
+      name: "components that aren't exported",
+      code: `
+        function Card({ children }: { children: React.ReactNode }) {
+          return <div>{children}</div>;
+        }
+        export function Page() {
+          return <Card>hello</Card>;
+        }
+      `,
+      filename: "test.tsx",
+    },
+    {
+      name: "render props aren't slots",
+      code: `
+        export function List({ renderItem }: { renderItem: (index: number) => React.ReactNode }) {
+          return <ul>{renderItem(0)}</ul>;
+        }
+      `,
+      filename: "test.tsx",
+    },
+    {
+      name: "slot types limited by the option",
+      code: `
+        export function Card({ children }: { children: React.ReactNode }) {
+          return <div>{children}</div>;
+        }
+      `,
+      filename: "test.tsx",
+      options: [{ slotTypes: ["JSX.Element"] }],
+    },
+  ],
+  invalid: [
+    {
+      name: "unannotated children",
+      code: `
+        interface CardProps {
+          title: string;
+          children: React.ReactNode;
+        }
+        export function Card({ title, children }: CardProps) {
+          return <div>{title}{children}</div>;
+        }
+      `,
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "missingSlotAnnotation",
+          data: { propName: "children", componentName: "Card" },
+          line: 4,
+          column: 11,
+          endColumn: 19,
+        },
+      ],
+    },
+    {
+      name: "each unannotated slot type",
+      code: `
+        export const Layout = (props: {
+          /** @renders {Header} */
+          header: React.ReactNode;
+          sidebar?: React.ReactElement<{ collapsed: boolean }> | null;
+          footer: JSX.Element;
+          main: ReactNode;
+        }) => <div>{props.main}</div>;
+      `,
+      filename: "test.tsx",
+      errors: [
+        { messageId: "missingSlotAnnotation", data: { propName: "sidebar", componentName: "Layout" }, line: 5 },
+        { messageId: "missingSlotAnnotation", data: { propName: "footer", componentName: "Layout" }, line: 6 },
+        { messageId: "missingSlotAnnotation", data: { propName: "main", componentName: "Layout" }, line: 7 },
+      ],
+    },
+    {
+      name: "slot type behind a local alias",
+      code: `
+        interface ReactElement { type: unknown }
+        type Slot = ReactElement | null;
+        export function Dialog({ actions }: { actions: Slot }) {
+          return <div>{actions}</div>;
+        }
+      `,
+      filename: "test.tsx",
+      errors: [{ messageId: "missingSlotAnnotation", data: { propName: "actions", componentName: "Dialog" } }],
+    },
+    {
+      name: "custom slot types",
+      code: `
+        type Slot = { type: unknown };
+        export function Dialog({ actions, children }: { actions: Slot; children: React.ReactNode }) {
+          return <div>{children}</div>;
+        }
+      `,
+      filename: "test.tsx",
+      options: [{ slotTypes: ["Slot"] }],
+      errors: [{ messageId: "missingSlotAnnotation", data: { propName: "actions", componentName: "Dialog" } }],
+    },
+    {
+      name: "props inherited from an extended interface",
+      code: `
+        interface BaseProps {
+          children: React.ReactNode;
+        }
+        interface ButtonProps extends BaseProps {
+          /** @renders {Icon} */
+          icon: React.ReactNode;
+        }
+        export function Button({ icon, children }: ButtonProps) {
+          return <button>{icon}{children}</button>;
+        }
+      `,
+      filename: "test.tsx",
+      errors: [{ messageId: "missingSlotAnnotation", data: { propName: "children", componentName: "Button" }, line: 3 }],
+    },
+    {
+      name: "props of either union member",
+      code: `
+        type Props = { kind: "link"; href: string; label: React.ReactNode } | { kind: "button"; icon: React.ReactNode };
+        export function Action(props: Props) {
+          return <a />;
+        }
+      `,
+      filename: "test.tsx",
+      errors: [
+        { messageId: "missingSlotAnnotation", data: { propName: "label", componentName: "Action" } },
+        { messageId: "missingSlotAnnotation", data: { propName: "icon", componentName: "Action" } },
+      ],
+    },
+    {
+      name: "component exported by a specifier",
+      code: `
+        const Card = ({ children }: { children: React.ReactNode }) => <div>{children}</div>;
+        export { Card };
+      `,
+      filename: "test.tsx",
+      errors: [{ messageId: "missingSlotAnnotation", data: { propName: "children", componentName: "Card" } }],
+    },
+    {
+      name: "class component",
+      code: `
+        declare class Component<P> { props: P; }
+        export class Boundary extends Component<{ fallback: React.ReactNode }> {
+          render() {
+            return this.props.fallback;
+          }
+        }
+      `,
+      filename: "test.tsx",
+      errors: [{ messageId: "missingSlotAnnotation", data: { propName: "fallback", componentName: "Boundary" } }],
+    },
+    {
+      name: "anonymous default export",
+      code: `
+        export default function ({ children }: { children: React.ReactNode }) {
+          return <div>{children}</div>;
+        }
+      `,
+      filename: "test.tsx",
+      errors: [{ messageId: "missingSlotAnnotation", data: { propName: "children", componentName: "default export" } }],
+    },
+  ],
+});
@@ -0,0 +1,327 @@
+import { RuleTester } from "@typescript-eslint/rule-tester";
+import * as vitest from "vitest";
+import rule from "../../src/rules/restrict-unchecked-renders.js";
+
+// Configure rule tester to use vitest
+RuleTester.afterAll = vitest.afterAll;
+RuleTester.it = vitest.it;
+RuleTester.itOnly = vitest.it.only;
+RuleTester.itSkip = vitest.it.skip;
+RuleTester.describe = vitest.describe;
+RuleTester.describeSkip = vitest.describe.skip;
+
+const ruleTester = new RuleTester({
+  languageOptions: {
+    parserOptions: {
+      ecmaFeatures: { jsx: true },
+      projectService: {
+        allowDefaultProject: ["*.tsx"],
+      },
+    },
+  },
+});
+
+ruleTester.run("restrict-unchecked-renders", rule, {
+  valid: [
+    {
+      name: "checked annotations are ignored",
+      code: `
+        function Header() { return <h1 />; }
+        /** @renders {Header} */
+        function MyHeader() { return <Header />; }
+      `,
+      filename: "test.tsx",
+    },
+    {
+      name: "unchecked annotation with a justification",
+      code: `
+        declare const registry: Record<string, unknown>;
+        /** @renders! {Header} -- registry lookup */
+        function DynamicHeader({ type }: { type: string }) {
+          return registry[type];
+        }
+      `,
+      filename: "test.tsx",
+    },
+    {
+      name: "justification in a multi-line JSDoc",
+      code: `
+        declare const registry: Record<string, unknown>;
+        /**
+         * Picks the header from the registry.
+         * @renders?! {Header} -- headers are registered at runtime
+         */
+        function DynamicHeader({ type }: { type: string }) {
+          return registry[type];
+        }
+      `,
+      filename: "test.tsx",
+    },
+    {
+      name: "justification in a line comment",
+      code: `
+        declare const registry: Record<string, unknown>;
+        // @renders! {Header} -- registry lookup
+        function DynamicHeader({ type }: { type: string }) {
+          return registry[type];
+        }
+      `,
+      filename: "test.tsx",
+    },
+    {
+      name: "unchecked annotation in an allowed file",
+      code: `
+        declare const registry: Record<string, unknown>;
+        /** @renders! {Header} */
+        function DynamicHeader({ type }: { type: string }) {
+          return registry[type];
+        }
+      `,
+      filename: "headers.registry.tsx",
+      options: [{ allowedFiles: ["**/*.registry.tsx"] }],
+    },
+    {
+      name: "unchecked annotation whose returns would fail validation",
+      code: `
+        function Header() { return <h1 />; }
+        /** @renders! {Header} -- returns a div until the migration lands */
+        function LegacyHeader() {
+          return <div />;
+        }
+      `,
+      filename: "test.tsx",
+    },
+    {
+      name: "mapped list of a different component would fail validation",
+      code: `
+        function Header() { return <h1 />; }
+        function Other() { return <p />; }
+        /** @renders*! {Header} -- migrating to Header */
+        function List({ items }: { items: string[] }) {
+          return items.map((i) => <Other key={i} />);
+        }
+      `,
+      filename: "test.tsx",
+    },
+    {
+      name: "returns narrower than required aren't enough to pass",
+      code: `
+        function Header() { return <h1 />; }
+        /** @renders! {Header} -- parent handles the empty case */
+        function MaybeHeader({ show }: { show: boolean }) {
+          return show ? <Header /> : null;
+        }
+      `,
+      filename: "test.tsx",
+    },
+  ],
+  invalid: [
+    {
+      name: "unchecked annotation without a justification",
+      code: `
+        declare const registry: Record<string, unknown>;
+        /** @renders! {Header} */
+        function DynamicHeader({ type }: { type: string }) {
+          return registry[type];
+        }
+      `,
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "uncheckedNotAllowed",
+          data: { annotation: "@renders! {Header}", componentName: "DynamicHeader" },
+          line: 3,
+          column: 21,
+          endColumn: 22,
+        },
+      ],
+    },
+    {
+      name: "dashes without a reason don't count as a justification",
+      code: `
+        declare const registry: Record<string, unknown>;
+        /** @renders*! {Item} -- */
+        function DynamicItems({ type }: { type: string }) {
+          return registry[type];
+        }
+      `,
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "uncheckedNotAllowed",
+          data: { annotation: "@renders*! {Item}", componentName: "DynamicItems" },
+        },
+      ],
+    },
+    {
+      name: "mapped list of a different component still needs a justification",
+      code: `
+        function Header() { return <h1 />; }
+        function Other() { return <p />; }
+        /** @renders*! {Header} */
+        function List({ items }: { items: string[] }) {
+          return items.map((i) => <Other key={i} />);
+        }
+      `,
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "uncheckedNotAllowed",
+          data: { annotation: "@renders*! {Header}", componentName: "List" },
+        },
+      ],
+    },
+    {
+      name: "file outside the allowed globs",
+      code: `
+        declare const registry: Record<string, unknown>;
+        /** @renders! {Header} */
+        function DynamicHeader({ type }: { type: string }) {
+          return registry[type];
+        }
+      `,
+      filename: "test.tsx",
+      options: [{ allowedFiles: ["src/registry/**"] }],
+      errors: [{ messageId: "uncheckedNotAllowed" }],
+    },
+    {
+      name: "anonymous default export",
+      code: `
+        declare const registry: Record<string, unknown>;
+        /** @renders! {Header} */
+        export default function ({ type }: { type: string }) {
+          return registry[type];
+        }
+      `,
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "uncheckedNotAllowed",
+          data: { annotation: "@renders! {Header}", componentName: "default export" },
+        },
+      ],
+    },
+    {
+      name: "returns that pass validation",
+      code: `
+        function Header() { return <h1 />; }
+        /** @renders! {Header} */
+        function MyHeader() {
+          return <Header />;
+        }
+      `,
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "unnecessaryUnchecked",
+          data: { annotation: "@renders! {Header}", componentName: "MyHeader" },
+          line: 3,
+          column: 21,
+          endColumn: 22,
+          suggestions: [
+            {
+              messageId: "removeUnchecked",
+              output: `
+        function Header() { return <h1 />; }
+        /** @renders {Header} */
+        function MyHeader() {
+          return <Header />;
+        }
+      `,
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: "justified annotation that is no longer needed drops its justification",
+      code: `
+        function Header() { return <h1 />; }
+        /** @renders?! {Header} -- registry lookup */
+        function MaybeHeader({ show }: { show: boolean }) {
+          return show ? <Header /> : null;
+        }
+      `,
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "unnecessaryUnchecked",
+          suggestions: [
+            {
+              messageId: "removeUnchecked",
+              output: `
+        function Header() { return <h1 />; }
+        /** @renders? {Header} */
+        function MaybeHeader({ show }: { show: boolean }) {
+          return show ? <Header /> : null;
+        }
+      `,
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: "returns narrower than a many annotation pass validation",
+      code: `
+        function Item() { return <li />; }
+        /** @renders*! {Item} */
+        function Items({ ids }: { ids: string[] }) {
+          return <>{ids.map((id) => <Item key={id} />)}</>;
+        }
+      `,
+      filename: "headers.registry.tsx",
+      options: [{ allowedFiles: ["**/*.registry.tsx"] }],
+      errors: [
+        {
+          messageId: "unnecessaryUnchecked",
+          suggestions: [
+            {
+              messageId: "removeUnchecked",
+              output: `
+        function Item() { return <li />; }
+        /** @renders* {Item} */
+        function Items({ ids }: { ids: string[] }) {
+          return <>{ids.map((id) => <Item key={id} />)}</>;
+        }
+      `,
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: "returns passing through a render chain",
+      code: `
+        function Header() { return <h1 />; }
+        /** @renders {Header} */
+        function BaseHeader() { return <Header />; }
+        /** @renders! {Header} */
+        function PageHeader() {
+          return <BaseHeader />;
+        }
+      `,
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "unnecessaryUnchecked",
+          line: 5,
+          suggestions: [
+            {
+              messageId: "removeUnchecked",
+              output: `
+        function Header() { return <h1 />; }
+        /** @renders {Header} */
+        function BaseHeader() { return <Header />; }
+        /** @renders {Header} */
+        function PageHeader() {
+          return <BaseHeader />;
+        }
+      `,
+            },
+          ],
+        },
+      ],
+    },
+  ],
+});
@@ -0,0 +1,85 @@
+import path from "node:path";
+import { RuleTester } from "@typescript-eslint/rule-tester";
+import * as vitest from "vitest";
+import rule from "../../src/rules/valid-render-prop.js";
+import { clearAnnotationCache } from "../../src/utils/cross-file-resolver.js";
+
+// Configure rule tester to use vitest
+RuleTester.afterAll = vitest.afterAll;
+RuleTester.it = vitest.it;
+RuleTester.itOnly = vitest.it.only;
+RuleTester.itSkip = vitest.it.skip;
+RuleTester.describe = vitest.describe;
+RuleTester.describeSkip = vitest.describe.skip;
+
+const fixturesDir = path.resolve(__dirname, "../fixtures/cross-file-aliases");
+
+const ruleTester = new RuleTester({
+  languageOptions: {
+    parserOptions: {
+      ecmaFeatures: { jsx: true },
+      projectService: {
+        allowDefaultProject: ["consumer.tsx"],
+        defaultProject: "tsconfig.json",
+      },
+      tsconfigRootDir: fixturesDir,
+    },
+  },
+});
+
+const filename = path.resolve(fixturesDir, "consumer.tsx");
+
+vitest.beforeEach(() => {
+  clearAnnotationCache();
+});
+
+ruleTester.run("valid-render-prop (cross-file aliases)", rule, {
+  valid: [
+    // Prop annotated with an alias the consumer never imports
+    {
+      name: "prop annotated with an imported typeof alias",
+      code: `
+        import { Toolbar } from "./Toolbar";
+        import { SubMenu } from "./SubMenu";
+
+        const toolbar = <Toolbar item={<SubMenu />} />;
+      `,
+      filename,
+    },
+    // Component annotated with an alias of an alias fills the prop
+    {
+      name: "component annotated with an alias chains into the prop",
+      code: `
+        import { Toolbar } from "./Toolbar";
+        import { MenuItem } from "./MenuItem";
+        import type { MenuChild } from "./types";
+
+        /** @renders {MenuChild} */
+        function Entry() {
+          return <MenuItem />;
+        }
+
+        const toolbar = <Toolbar item={<Entry />} />;
+      `,
+      filename,
+    },
+  ],
+  invalid: [
+    {
+      name: "prop annotated with an imported alias: component outside the alias",
+      code: `
+        import { Toolbar } from "./Toolbar";
+        import { Divider } from "./Divider";
+
+        const toolbar = <Toolbar item={<Divider />} />;
+      `,
+      filename,
+      errors: [
+        {
+          messageId: "invalidRenderProp",
+          data: { propName: "item", expected: "MenuItem | SubMenu", actual: "Divider" },
+        },
+      ],
+    },
+  ],
+});
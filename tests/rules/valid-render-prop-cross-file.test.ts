@@ -46,6 +46,19 @@ ruleTester.run("valid-render-prop (cross-file)", rule, {
       `,
       filename: path.resolve(fixturesDir, "consumer.tsx"),
     },
+    // Transitive chain through a component that isn't imported into this file
+    {
+      name: "cross-file: transitive chain through non-imported intermediate",
+      code: `
+        import { Sidebar } from "./Sidebar";
+        import { PrimaryNavLink } from "./PrimaryNavLink";
+
+        <Sidebar>
+          <PrimaryNavLink label="Home" />
+        </Sidebar>;
+      `,
+      filename: path.resolve(fixturesDir, "consumer.tsx"),
+    },
     // Union @renders* named prop accepts both annotated chain and direct match
     {
       name: "cross-file: union @renders* named prop accepts annotated and unannotated",
@@ -114,8 +127,102 @@ ruleTester.run("valid-render-prop (cross-file)", rule, {
       `,
       filename: path.resolve(fixturesDir, "consumer.tsx"),
     },
+    // Annotations inherited from a base interface in another file
+    {
+      name: "cross-file: props inherited through extends, Omit and intersections",
+      code: `
+        import { TopBar } from "./TopBar";
+        import { BottomBar } from "./BottomBar";
+        import { NavLink } from "./NavLink";
+
+        <TopBar title="App" primary={<NavLink label="Home" />} />;
+        <BottomBar primary={<NavLink label="Home" />} brand={<NavLink label="Logo" />} />;
+      `,
+      filename: path.resolve(fixturesDir, "consumer.tsx"),
+    },
+    // Namespace imports and export * barrels
+    {
+      name: "cross-file: namespace import through export * barrel",
+      code: `
+        import * as UI from "./ui";
+
+        <UI.Nav>
+          <UI.NavItem label="Home" />
+          <UI.NavItems links={["a", "b"]} />
+        </UI.Nav>;
+      `,
+      filename: path.resolve(fixturesDir, "consumer.tsx"),
+    },
+    {
+      name: "cross-file: deep member paths through export * as ns",
+      code: `
+        import * as UI from "./ui";
+
+        <UI.Nav.Root>
+          <UI.Nav.Item label="Home" />
+          <UI.Nav.Link label="Docs" />
+          <UI.Nav.Group title="More">
+            <UI.Nav.Item label="About" />
+          </UI.Nav.Group>
+        </UI.Nav.Root>;
+      `,
+      filename: path.resolve(fixturesDir, "consumer.tsx"),
+    },
   ],
   invalid: [
+    // Wrong components in slots inherited from a base interface in another file
+    {
+      name: "cross-file: wrong components in inherited and intersected props",
+      code: `
+        import { TopBar } from "./TopBar";
+        import { BottomBar } from "./BottomBar";
+        import { NavSection } from "./NavSection";
+        import { NavItem } from "./NavItem";
+
+        <TopBar title="App" primary={<NavSection title="Main" />} />;
+        <BottomBar primary={<NavItem label="Home" />} brand={<NavItem label="Logo" />} />;
+      `,
+      filename: path.resolve(fixturesDir, "consumer.tsx"),
+      errors: [
+        {
+          messageId: "invalidRenderProp",
+          data: { propName: "primary", expected: "NavItem", actual: "NavSection" },
+        },
+        {
+          messageId: "invalidRenderProp",
+          data: { propName: "brand", expected: "NavLink", actual: "NavItem" },
+        },
+      ],
+    },
+    // A local component sharing the intermediate's name doesn't hijack the chain
+    {
+      name: "cross-file: local component with same name as chain link does not collide",
+      code: `
+        import { Sidebar } from "./Sidebar";
+        import { PrimaryNavLink } from "./PrimaryNavLink";
+
+        function Brand() {
+          return <div />;
+        }
+
+        /** @renders {Brand} */
+        function NavLink() {
+          return <Brand />;
+        }
+
+        <Sidebar>
+          <PrimaryNavLink label="Home" />
+          <NavLink />
+        </Sidebar>;
+      `,
+      filename: path.resolve(fixturesDir, "consumer.tsx"),
+      errors: [
+        {
+          messageId: "invalidRenderChildren",
+          data: { expected: "NavItem", actual: "NavLink" },
+        },
+      ],
+    },
     // Unannotated component in cross-file @renders* children
     {
       name: "cross-file: unannotated component in @renders* children",
@@ -205,5 +312,23 @@ ruleTester.run("valid-render-prop (cross-file)", rule, {
         },
       ],
     },
+    {
+      name: "cross-file: unannotated component through namespace import",
+      code: `
+        import * as UI from "./ui";
+
+        <UI.Nav.Root>
+          <UI.Nav.Item label="Home" />
+          <UI.NavSection title="Settings" />
+        </UI.Nav.Root>;
+      `,
+      filename: path.resolve(fixturesDir, "consumer.tsx"),
+      errors: [
+        {
+          messageId: "invalidRenderChildren",
+          data: { expected: "NavItem | NavGroup", actual: "UI.NavSection" },
+        },
+      ],
+    },
   ],
 });
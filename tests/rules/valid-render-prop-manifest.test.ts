@@ -0,0 +1,203 @@
+import fs from "node:fs";
+import path from "node:path";
+import { RuleTester } from "@typescript-eslint/rule-tester";
+import * as vitest from "vitest";
+import rule from "../../src/rules/valid-render-prop.js";
+import { clearAnnotationCache } from "../../src/utils/cross-file-resolver.js";
+
+// Configure rule tester to use vitest
+RuleTester.afterAll = vitest.afterAll;
+RuleTester.it = vitest.it;
+RuleTester.itOnly = vitest.it.only;
+RuleTester.itSkip = vitest.it.skip;
+RuleTester.describe = vitest.describe;
+RuleTester.describeSkip = vitest.describe.skip;
+
+const fixturesDir = path.resolve(__dirname, "../fixtures/cross-file-manifest");
+
+/** Lint a fixture file as it is on disk */
+function fixture(name: string): { code: string; filename: string } {
+  const filename = path.resolve(fixturesDir, name);
+  return { code: fs.readFileSync(filename, "utf8"), filename };
+}
+
+const ruleTester = new RuleTester({
+  languageOptions: {
+    parserOptions: {
+      ecmaFeatures: { jsx: true },
+      projectService: {
+        allowDefaultProject: ["consumer.tsx"],
+        defaultProject: "tsconfig.json",
+      },
+      tsconfigRootDir: fixturesDir,
+    },
+  },
+});
+
+const layoutSettings = {
+  "react-render-types": {
+    externalAnnotations: {
+      "@acme/layout": {
+        Shell: { props: { sidebar: "@renders {SidebarPanel}" } },
+        NavPanel: { renders: "@renders {SidebarPanel}" },
+        Slot: { transparent: ["content"] },
+      },
+    },
+  },
+};
+
+vitest.describe("fresh cache", () => {
+  vitest.beforeEach(() => {
+    clearAnnotationCache();
+  });
+
+  ruleTester.run("valid-render-prop (annotation manifests)", rule, {
+    valid: [
+      {
+        name: "render-types.json: prop receives the declared component",
+        code: `
+          import { Card, CardHeader } from "@acme/ui";
+
+          <Card header={<CardHeader title="Hi" />} />;
+        `,
+        filename: path.resolve(fixturesDir, "consumer.tsx"),
+      },
+      {
+        name: "render-types.json: chain through a manifest @renders",
+        code: `
+          import { Card, CardTitle } from "@acme/ui";
+
+          <Card header={<CardTitle title="Hi" />} />;
+        `,
+        filename: path.resolve(fixturesDir, "consumer.tsx"),
+      },
+      {
+        name: "render-types.json: local component rendering a manifest component",
+        code: `
+          import { Card } from "@acme/ui";
+          import { LocalHeader } from "./LocalHeader";
+
+          <Card header={<LocalHeader title="Hi" />} />;
+        `,
+        filename: path.resolve(fixturesDir, "consumer.tsx"),
+      },
+      {
+        name: "render-types.json: children through a manifest @transparent wrapper",
+        code: `
+          import { Card, CardBody, Box } from "@acme/ui";
+
+          <Card>
+            <Box><CardBody /></Box>
+            <CardBody />
+          </Card>;
+        `,
+        filename: path.resolve(fixturesDir, "consumer.tsx"),
+      },
+      {
+        name: "render-types.json: namespace import",
+        code: `
+          import * as UI from "@acme/ui";
+
+          <UI.Card header={<UI.CardTitle title="Hi" />} />;
+        `,
+        filename: path.resolve(fixturesDir, "consumer.tsx"),
+      },
+      {
+        name: "settings: prop receives the declared component",
+        code: `
+          import { Shell, SidebarPanel } from "@acme/layout";
+
+          <Shell sidebar={<SidebarPanel />} />;
+        `,
+        filename: path.resolve(fixturesDir, "consumer.tsx"),
+        settings: layoutSettings,
+      },
+      {
+        name: "settings: chain and transparent props",
+        code: `
+          import { Shell, NavPanel, Slot } from "@acme/layout";
+
+          <Shell sidebar={<Slot content={<NavPanel />} />} />;
+        `,
+        filename: path.resolve(fixturesDir, "consumer.tsx"),
+        settings: layoutSettings,
+      },
+      {
+        name: "without settings, unannotated packages are not checked",
+        code: `
+          import { Shell, Slot } from "@acme/layout";
+
+          <Shell sidebar={<Slot />} />;
+        `,
+        filename: path.resolve(fixturesDir, "consumer.tsx"),
+      },
+    ],
+    invalid: [
+      {
+        name: "render-types.json: wrong component in a manifest-annotated prop",
+        code: `
+          import { Card, Button } from "@acme/ui";
+
+          <Card header={<Button label="Hi" />} />;
+        `,
+        filename: path.resolve(fixturesDir, "consumer.tsx"),
+        errors: [{ messageId: "invalidRenderProp", line: 4 }],
+      },
+      {
+        name: "render-types.json: wrong component in a prop of a re-exported manifest component",
+        code: `
+          import { Card, CardBody } from "./TitleWrapper";
+
+          <Card header={<CardBody />} />;
+        `,
+        filename: path.resolve(fixturesDir, "consumer.tsx"),
+        errors: [{ messageId: "invalidRenderProp", line: 4 }],
+      },
+      {
+        name: "render-types.json: wrong child inside a manifest @transparent wrapper",
+        code: `
+          import { Card, Box, Button } from "@acme/ui";
+
+          <Card>
+            <Box><Button label="Hi" /></Box>
+          </Card>;
+        `,
+        filename: path.resolve(fixturesDir, "consumer.tsx"),
+        errors: [{ messageId: "invalidRenderChildren", line: 5 }],
+      },
+      {
+        name: "settings: wrong component in a settings-annotated prop",
+        code: `
+          import { Shell } from "@acme/layout";
+
+          <Shell sidebar={<Shell />} />;
+        `,
+        filename: path.resolve(fixturesDir, "consumer.tsx"),
+        settings: layoutSettings,
+        errors: [{ messageId: "invalidRenderProp", line: 4 }],
+      },
+    ],
+  });
+});
+
+// Manifest entries are found from the component's package, not the linted
+// file's imports, so results cached while linting one file hold for the next
+vitest.describe("cache shared across files", () => {
+  vitest.beforeAll(() => {
+    clearAnnotationCache();
+  });
+
+  ruleTester.run("valid-render-prop (annotation manifests, shared cache)", rule, {
+    valid: [
+      {
+        name: "file without @acme/ui imports first",
+        ...fixture("WrappedHeader.tsx"),
+      },
+      {
+        name: "file importing @acme/ui second",
+        ...fixture("TitleWrapper.tsx"),
+      },
+    ],
+    invalid: [],
+  });
+});
@@ -21,10 +21,16 @@ const ruleTester = new RuleTester({
   },
 });
 
-// Helper to add component declarations to test code
+// Helper to add component declarations to test code.
+// "Menu: MenuProps" declares a component whose props parameter is MenuProps.
 const withComponents = (code: string, components: string[] = []) => {
   const declarations = components
-    .map((c) => `declare const ${c}: React.FC<any>;`)
+    .map((c) => {
+      const [name, propsType] = c.split(":").map((part) => part.trim());
+      return propsType
+        ? `declare const ${name}: (props: ${propsType}) => any;`
+        : `declare const ${name}: React.FC<any>;`;
+    })
     .join("\n");
   return declarations ? `${declarations}\n${code}` : code;
 };
@@ -47,7 +53,7 @@ ruleTester.run("valid-render-prop", rule, {
 
         <Menu item={<MenuItem />} />;
       `,
-        ["MenuItem", "Menu"]
+        ["MenuItem", "Menu: MenuProps"]
       ),
       filename: "test.tsx",
     },
@@ -68,7 +74,7 @@ ruleTester.run("valid-render-prop", rule, {
 
         <Menu item={<MyMenuItem />} />;
       `,
-        ["MenuItem", "Menu"]
+        ["MenuItem", "Menu: MenuProps"]
       ),
       filename: "test.tsx",
     },
@@ -84,7 +90,7 @@ ruleTester.run("valid-render-prop", rule, {
 
         <Card header={null} />;
       `,
-        ["CardHeader", "Card"]
+        ["CardHeader", "Card: CardProps"]
       ),
       filename: "test.tsx",
     },
@@ -102,7 +108,7 @@ ruleTester.run("valid-render-prop", rule, {
           <Tab />
         </Tabs>;
       `,
-        ["Tab", "Tabs"]
+        ["Tab", "Tabs: TabsProps"]
       ),
       filename: "test.tsx",
     },
@@ -121,7 +127,7 @@ ruleTester.run("valid-render-prop", rule, {
           <ListItem />
         </List>;
       `,
-        ["ListItem", "List"]
+        ["ListItem", "List: ListProps"]
       ),
       filename: "test.tsx",
     },
@@ -137,7 +143,7 @@ ruleTester.run("valid-render-prop", rule, {
 
         <Layout slot={<Header />} />;
       `,
-        ["Header", "Footer", "Layout"]
+        ["Header", "Footer", "Layout: LayoutProps"]
       ),
       filename: "test.tsx",
     },
@@ -153,7 +159,7 @@ ruleTester.run("valid-render-prop", rule, {
 
         <Layout slot={<Footer />} />;
       `,
-        ["Header", "Footer", "Layout"]
+        ["Header", "Footer", "Layout: LayoutProps"]
       ),
       filename: "test.tsx",
     },
@@ -172,7 +178,7 @@ ruleTester.run("valid-render-prop", rule, {
           <Divider />
         </Menu>;
       `,
-        ["MenuItem", "Divider", "Menu"]
+        ["MenuItem", "Divider", "Menu: MenuProps"]
       ),
       filename: "test.tsx",
     },
@@ -190,7 +196,7 @@ ruleTester.run("valid-render-prop", rule, {
 
         <Layout slot={<Header />} />;
       `,
-        ["Header", "Footer", "Layout"]
+        ["Header", "Footer", "Layout: LayoutProps"]
       ),
       filename: "test.tsx",
     },
@@ -210,7 +216,7 @@ ruleTester.run("valid-render-prop", rule, {
           <MenuItem />
         </Menu>;
       `,
-        ["MenuItem", "Divider", "Menu"]
+        ["MenuItem", "Divider", "Menu: MenuProps"]
       ),
       filename: "test.tsx",
     },
@@ -231,7 +237,7 @@ ruleTester.run("valid-render-prop", rule, {
 
         <Menu item={<Wrapper><MenuItem /></Wrapper>} />;
       `,
-        ["MenuItem", "Menu"]
+        ["MenuItem", "Menu: MenuProps"]
       ),
       filename: "test.tsx",
     },
@@ -254,7 +260,7 @@ ruleTester.run("valid-render-prop", rule, {
           <Wrapper><Tab /></Wrapper>
         </Tabs>;
       `,
-        ["Tab", "Tabs"]
+        ["Tab", "Tabs: TabsProps"]
       ),
       filename: "test.tsx",
     },
@@ -269,7 +275,7 @@ ruleTester.run("valid-render-prop", rule, {
 
         <Menu item={<div>Anything</div>} />;
       `,
-        ["Menu"]
+        ["Menu: MenuProps"]
       ),
       filename: "test.tsx",
     },
@@ -285,7 +291,7 @@ ruleTester.run("valid-render-prop", rule, {
 
         <Menu item={<div>Anything</div>} />;
       `,
-        ["Menu"]
+        ["Menu: MenuProps"]
       ),
       filename: "test.tsx",
     },
@@ -302,7 +308,7 @@ ruleTester.run("valid-render-prop", rule, {
         declare const show: boolean;
         <Tabs>{show && <Tab />}</Tabs>;
       `,
-        ["Tab", "Tabs"]
+        ["Tab", "Tabs: TabsProps"]
       ),
       filename: "test.tsx",
     },
@@ -319,7 +325,7 @@ ruleTester.run("valid-render-prop", rule, {
         declare const isTop: boolean;
         <Layout slot={isTop ? <Header /> : <Footer />} />;
       `,
-        ["Header", "Footer", "Layout"]
+        ["Header", "Footer", "Layout: LayoutProps"]
       ),
       filename: "test.tsx",
     },
@@ -340,7 +346,7 @@ ruleTester.run("valid-render-prop", rule, {
 
         <Menu item={<MyMenuItem />} />;
       `,
-        ["MenuItem", "Menu"]
+        ["MenuItem", "Menu: MenuProps"]
       ),
       filename: "test.tsx",
     },
@@ -361,7 +367,7 @@ ruleTester.run("valid-render-prop", rule, {
           <MyTab />
         </Tabs>;
       `,
-        ["Tab", "Tabs"]
+        ["Tab", "Tabs: TabsProps"]
       ),
       filename: "test.tsx",
     },
@@ -387,7 +393,7 @@ ruleTester.run("valid-render-prop", rule, {
 
         <Menu item={<CustomMenuItem />} />;
       `,
-        ["MenuItem", "Menu"]
+        ["MenuItem", "Menu: MenuProps"]
       ),
       filename: "test.tsx",
     },
@@ -408,7 +414,7 @@ ruleTester.run("valid-render-prop", rule, {
 
         <Menu item={<Wrapper><MenuItem /></Wrapper>} />;
       `,
-        ["MenuItem", "Menu"]
+        ["MenuItem", "Menu: MenuProps"]
       ),
       filename: "test.tsx",
     },
@@ -425,7 +431,7 @@ ruleTester.run("valid-render-prop", rule, {
         declare const items: string[];
         <Menu>{items.map(item => <MenuItem key={item} />)}</Menu>;
       `,
-        ["MenuItem", "Menu"]
+        ["MenuItem", "Menu: MenuProps"]
       ),
       filename: "test.tsx",
     },
@@ -449,7 +455,7 @@ ruleTester.run("valid-render-prop", rule, {
           <NavSection />
         </Sidebar>;
       `,
-        ["NavItem", "NavSection", "Sidebar"]
+        ["NavItem", "NavSection", "Sidebar: SidebarProps"]
       ),
       filename: "test.tsx",
     },
@@ -470,7 +476,7 @@ ruleTester.run("valid-render-prop", rule, {
 
         <Layout navigation={<><NavLink /><NavSection /></>} />;
       `,
-        ["NavItem", "NavSection", "Layout"]
+        ["NavItem", "NavSection", "Layout: LayoutProps"]
       ),
       filename: "test.tsx",
     },
@@ -486,7 +492,7 @@ ruleTester.run("valid-render-prop", rule, {
 
         <Toolbar action={<Suspense fallback={null}><ToolbarButton /></Suspense>} />;
       `,
-        ["ToolbarButton", "Toolbar", "Suspense"]
+        ["ToolbarButton", "Toolbar: ToolbarProps", "Suspense"]
       ),
       filename: "test.tsx",
       settings: {
@@ -508,7 +514,7 @@ ruleTester.run("valid-render-prop", rule, {
           <Suspense fallback={null}><AccordionItem /></Suspense>
         </Accordion>;
       `,
-        ["AccordionItem", "Accordion", "Suspense"]
+        ["AccordionItem", "Accordion: AccordionProps", "Suspense"]
       ),
       filename: "test.tsx",
       settings: {
@@ -539,7 +545,7 @@ ruleTester.run("valid-render-prop", rule, {
           </>
         </Tabs>;
       `,
-        ["Tab", "Tabs"]
+        ["Tab", "Tabs: TabsProps"]
       ),
       filename: "test.tsx",
       settings: {
@@ -571,7 +577,7 @@ ruleTester.run("valid-render-prop", rule, {
           </Suspense>
         </Tabs>;
       `,
-        ["Tab", "Tabs", "Suspense"]
+        ["Tab", "Tabs: TabsProps", "Suspense"]
       ),
       filename: "test.tsx",
       settings: {
@@ -601,7 +607,7 @@ ruleTester.run("valid-render-prop", rule, {
           <NavGroup />
         </Nav>;
       `,
-        ["NavItem", "NavGroup", "Nav"]
+        ["NavItem", "NavGroup", "Nav: NavProps"]
       ),
       filename: "test.tsx",
     },
@@ -622,7 +628,7 @@ ruleTester.run("valid-render-prop", rule, {
 
         <Sidebar items={<FeatureGate name="feat" off={<SidebarItem />}><SidebarItem /></FeatureGate>} />;
       `,
-        ["SidebarItem", "Sidebar"]
+        ["SidebarItem", "Sidebar: SidebarProps"]
       ),
       filename: "test.tsx",
     },
@@ -644,7 +650,7 @@ ruleTester.run("valid-render-prop", rule, {
           <FlagComp name="feat" off={<ListItem />}><ListItem /></FlagComp>
         </List>;
       `,
-        ["ListItem", "List"]
+        ["ListItem", "List: ListProps"]
       ),
       filename: "test.tsx",
     },
@@ -661,7 +667,7 @@ ruleTester.run("valid-render-prop", rule, {
 
         <Panel content={<Switch name="feat" off={<PanelCard />}><PanelCard /></Switch>} />;
       `,
-        ["PanelCard", "Panel", "Switch"]
+        ["PanelCard", "Panel: PanelProps", "Switch"]
       ),
       filename: "test.tsx",
       settings: {
@@ -672,8 +678,597 @@ ruleTester.run("valid-render-prop", rule, {
         },
       },
     },
+    // Cardinality: narrower annotations fill wider slots
+    {
+      name: "required-rendering component in optional and many slots",
+      code: withComponents(
+        `
+        /** @renders {MenuItem} */
+        function MyItem() {
+          return <MenuItem />;
+        }
+
+        /** @renders? {MenuItem} */
+        function MaybeItem() {
+          return null;
+        }
+
+        interface MenuProps {
+          /** @renders? {MenuItem} */
+          item: React.ReactNode;
+          /** @renders* {MenuItem} */
+          children: React.ReactNode;
+        }
+
+        <Menu item={<MaybeItem />}>
+          <MyItem />
+          <MaybeItem />
+        </Menu>;
+      `,
+        ["MenuItem", "Menu: MenuProps"]
+      ),
+      filename: "test.tsx",
+    },
+    // Props resolved through the component's own props type: any naming convention
+    {
+      name: "props type with arbitrary name",
+      code: withComponents(
+        `
+        interface TabOptions {
+          /** @renders {Tab} */
+          children: React.ReactNode;
+        }
+
+        <Tabs>
+          <Tab />
+        </Tabs>;
+      `,
+        ["Tab", "Tabs: TabOptions"]
+      ),
+      filename: "test.tsx",
+    },
+    // Another interface's annotated prop with the same name doesn't apply
+    {
+      name: "annotation on unrelated interface with same prop name is ignored",
+      code: withComponents(
+        `
+        interface ModalProps {
+          /** @renders {Header} */
+          header: React.ReactNode;
+        }
+
+        interface CardProps {
+          header: React.ReactNode;
+        }
+
+        <Card header={<Footer />} />;
+      `,
+        ["Header", "Footer", "Modal: ModalProps", "Card: CardProps"]
+      ),
+      filename: "test.tsx",
+    },
+    // Generic props type
+    {
+      name: "generic component props type",
+      code: withComponents(
+        `
+        interface ListProps<T> {
+          items: T[];
+          /** @renders* {ListItem} */
+          children: React.ReactNode;
+        }
+
+        function List<T>(props: ListProps<T>) {
+          return null;
+        }
+
+        <List items={[1, 2]}>
+          <ListItem />
+        </List>;
+      `,
+        ["ListItem"]
+      ),
+      filename: "test.tsx",
+    },
+    // Render prop returning the expected component
+    {
+      name: "render prop callback returning expected component",
+      code: withComponents(
+        `
+        interface ListProps {
+          items: string[];
+          /** @renders {Row} */
+          renderItem: (item: string) => React.ReactNode;
+          /** @renders? {Row} */
+          renderEmpty?: () => React.ReactNode;
+        }
+
+        <List
+          items={[]}
+          renderItem={(item) => <Row key={item} />}
+          renderEmpty={function () {
+            if (Math.random() > 0.5) return null;
+            return <Row />;
+          }}
+        />;
+      `,
+        ["Row", "List: ListProps"]
+      ),
+      filename: "test.tsx",
+    },
+    // Function as children returning the expected components
+    {
+      name: "function as children returning expected components",
+      code: withComponents(
+        `
+        interface SelectProps {
+          /** @renders* {Option} */
+          children: (options: string[]) => React.ReactNode;
+        }
+
+        <Select>
+          {(options) => <>{options.map((o) => <Option key={o} />)}</>}
+        </Select>;
+      `,
+        ["Option", "Select: SelectProps"]
+      ),
+      filename: "test.tsx",
+    },
+    // Dataflow: local bindings as prop values and children
+    {
+      name: "const binding passed as prop value",
+      code: withComponents(
+        `
+        interface LayoutProps {
+          /** @renders {Header} */
+          header: React.ReactNode;
+        }
+
+        function Page() {
+          const header = <Header />;
+          return <Layout header={header} />;
+        }
+      `,
+        ["Header", "Layout: LayoutProps"]
+      ),
+      filename: "test.tsx",
+    },
+    {
+      name: "array built with push passed as children",
+      code: withComponents(
+        `
+        interface MenuProps {
+          /** @renders* {MenuItem} */
+          children: React.ReactNode;
+        }
+
+        function Nav({ labels }: { labels: string[] }) {
+          const items = [];
+          for (const label of labels) {
+            items.push(<MenuItem key={label} />);
+          }
+          return <Menu>{items}</Menu>;
+        }
+      `,
+        ["MenuItem", "Menu: MenuProps"]
+      ),
+      filename: "test.tsx",
+    },
+    // createElement / jsx-runtime calls
+    {
+      name: "createElement with valid prop and positional children",
+      code: withComponents(
+        `
+        import * as React from "react";
+        interface MenuProps {
+          /** @renders {Header} */
+          header: React.ReactNode;
+          /** @renders* {MenuItem} */
+          children: React.ReactNode;
+        }
+
+        React.createElement(
+          Menu,
+          { header: React.createElement(Header) },
+          React.createElement(MenuItem),
+          React.createElement(MenuItem)
+        );
+      `,
+        ["Header", "MenuItem", "Menu: MenuProps"]
+      ),
+      filename: "test.tsx",
+    },
+    {
+      name: "jsxs call with children array in props",
+      code: withComponents(
+        `
+        import { jsx, jsxs } from "react/jsx-runtime";
+        interface MenuProps {
+          /** @renders* {MenuItem} */
+          children: React.ReactNode;
+        }
+
+        jsxs(Menu, { children: [jsx(MenuItem, {}), jsx(MenuItem, {})] });
+      `,
+        ["MenuItem", "Menu: MenuProps"]
+      ),
+      filename: "test.tsx",
+    },
+    // Class components
+    {
+      name: "class component with @renders fills a prop slot",
+      code: withComponents(
+        `
+        import * as React from "react";
+        interface LayoutProps {
+          /** @renders {Header} */
+          header: React.ReactNode;
+        }
+
+        /** @renders {Header} */
+        class HeaderBoundary extends React.Component {
+          render() {
+            return <Header />;
+          }
+        }
+
+        <Layout header={<HeaderBoundary />} />;
+      `,
+        ["Header", "Layout: LayoutProps"]
+      ),
+      filename: "test.tsx",
+    },
+    {
+      name: "annotated prop of a class component receives a compatible component",
+      code: withComponents(
+        `
+        declare class Component<P> { props: Readonly<P>; }
+        interface LayoutProps {
+          /** @renders {Header} */
+          header: React.ReactNode;
+        }
+
+        class Layout extends Component<LayoutProps> {
+          render() {
+            return <div>{this.props.header}</div>;
+          }
+        }
+
+        <Layout header={<Header />} />;
+      `,
+        ["Header"]
+      ),
+      filename: "test.tsx",
+    },
+    // Compound components
+    {
+      name: "compound member with @renders fills a prop slot",
+      code: withComponents(
+        `
+        interface LayoutProps {
+          /** @renders {Header} */
+          header: React.ReactNode;
+        }
+
+        function PageRoot() {
+          return null;
+        }
+
+        const Page = Object.assign(PageRoot, {
+          /** @renders {Header} */
+          Header: () => <Header />,
+        });
+
+        <Layout header={<Page.Header />} />;
+      `,
+        ["Header", "Layout: LayoutProps"]
+      ),
+      filename: "test.tsx",
+    },
   ],
   invalid: [
+    {
+      name: "annotated prop of a class component receives the wrong component",
+      code: withComponents(
+        `
+        declare class Component<P> { props: Readonly<P>; }
+        interface LayoutProps {
+          /** @renders {Header} */
+          header: React.ReactNode;
+        }
+
+        class Layout extends Component<LayoutProps> {
+          render() {
+            return <div>{this.props.header}</div>;
+          }
+        }
+
+        <Layout header={<Other />} />;
+      `,
+        ["Header", "Other"]
+      ),
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "invalidRenderProp",
+          data: { propName: "header", expected: "Header", actual: "Other" },
+        },
+      ],
+    },
+    // Render prop returning the wrong component
+    {
+      name: "render prop callback returning wrong component",
+      code: withComponents(
+        `
+        interface ListProps {
+          /** @renders {Row} */
+          renderItem: (item: string) => React.ReactNode;
+        }
+
+        <List
+          renderItem={(item) => {
+            if (!item) return null;
+            return item ? <Row /> : <Cell />;
+          }}
+        />;
+      `,
+        ["Row", "Cell", "List: ListProps"]
+      ),
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "invalidRenderProp",
+          data: { propName: "renderItem", expected: "Row", actual: "null" },
+          line: 12,
+        },
+        {
+          messageId: "invalidRenderProp",
+          data: { propName: "renderItem", expected: "Row", actual: "Cell" },
+          line: 13,
+        },
+      ],
+    },
+    // Function as children returning the wrong component
+    {
+      name: "function as children returning wrong component",
+      code: withComponents(
+        `
+        interface SelectProps {
+          /** @renders {Option} */
+          children: (value: string) => React.ReactNode;
+        }
+
+        <Select>
+          {(value) => <Button />}
+        </Select>;
+      `,
+        ["Option", "Button", "Select: SelectProps"]
+      ),
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "invalidRenderChildren",
+          data: { expected: "Option", actual: "Button" },
+        },
+      ],
+    },
+    // Props inherited through interface extends
+    {
+      name: "annotation inherited through interface extends",
+      code: withComponents(
+        `
+        interface BaseSlots {
+          /** @renders {CardHeader} */
+          header: React.ReactNode;
+        }
+
+        interface CardProps extends BaseSlots {
+          title: string;
+        }
+
+        <Card title="x" header={<Footer />} />;
+      `,
+        ["CardHeader", "Footer", "Card: CardProps"]
+      ),
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "invalidRenderProp",
+          data: { propName: "header", expected: "CardHeader", actual: "Footer" },
+        },
+      ],
+    },
+    // Props combined through an intersection
+    {
+      name: "annotations on both sides of an intersection",
+      code: withComponents(
+        `
+        type BaseSlots = {
+          /** @renders {CardHeader} */
+          header: React.ReactNode;
+        };
+
+        type CardProps = BaseSlots & {
+          /** @renders {CardFooter} */
+          footer: React.ReactNode;
+        };
+
+        <Card header={<CardFooter />} footer={<CardHeader />} />;
+      `,
+        ["CardHeader", "CardFooter", "Card: CardProps"]
+      ),
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "invalidRenderProp",
+          data: { propName: "header", expected: "CardHeader", actual: "CardFooter" },
+        },
+        {
+          messageId: "invalidRenderProp",
+          data: { propName: "footer", expected: "CardFooter", actual: "CardHeader" },
+        },
+      ],
+    },
+    // Props picked and omitted through utility types
+    {
+      name: "annotations preserved through Omit and Pick",
+      code: withComponents(
+        `
+        interface LayoutSlots {
+          /** @renders {Header} */
+          header: React.ReactNode;
+          /** @renders {Footer} */
+          footer: React.ReactNode;
+          /** @renders {Sidebar} */
+          sidebar: React.ReactNode;
+        }
+
+        type PageProps = Omit<LayoutSlots, "sidebar">;
+        type PanelProps = Partial<Pick<LayoutSlots, "sidebar">>;
+
+        <Page header={<Footer />} footer={<Footer />} />;
+        <Panel sidebar={<Header />} />;
+      `,
+        ["Header", "Footer", "Sidebar", "Page: PageProps", "Panel: PanelProps"]
+      ),
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "invalidRenderProp",
+          data: { propName: "header", expected: "Header", actual: "Footer" },
+        },
+        {
+          messageId: "invalidRenderProp",
+          data: { propName: "sidebar", expected: "Sidebar", actual: "Header" },
+        },
+      ],
+    },
+    // Type alias props type
+    {
+      name: "type alias props type",
+      code: withComponents(
+        `
+        type CardProps = {
+          /** @renders {CardHeader} */
+          header: React.ReactNode;
+        };
+
+        function Card({ header }: CardProps) {
+          return <div>{header}</div>;
+        }
+
+        <Card header={<Footer />} />;
+      `,
+        ["CardHeader", "Footer"]
+      ),
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "invalidRenderProp",
+          data: { propName: "header", expected: "CardHeader", actual: "Footer" },
+        },
+      ],
+    },
+    // Inline props type
+    {
+      name: "inline props type",
+      code: withComponents(
+        `
+        function Panel({ children }: {
+          /** @renders {PanelCard} */
+          children: React.ReactNode;
+        }) {
+          return <div>{children}</div>;
+        }
+
+        <Panel>
+          <Footer />
+        </Panel>;
+      `,
+        ["PanelCard", "Footer"]
+      ),
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "invalidRenderChildren",
+          data: { expected: "PanelCard", actual: "Footer" },
+        },
+      ],
+    },
+    // Optional-rendering component in an exactly-one prop
+    {
+      name: "optional-rendering component passed to required prop",
+      code: withComponents(
+        `
+        /** @renders? {MenuItem} */
+        function MaybeItem() {
+          return null;
+        }
+
+        interface MenuProps {
+          /** @renders {MenuItem} */
+          item: React.ReactNode;
+        }
+
+        <Menu item={<MaybeItem />} />;
+      `,
+        ["MenuItem", "Menu: MenuProps"]
+      ),
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "invalidRenderPropCardinality",
+          data: {
+            propName: "item",
+            expected: "@renders {MenuItem}",
+            expectedCardinality: "exactly one",
+            actual: "MaybeItem",
+            actualCardinality: "zero or one",
+            path: "MaybeItem → MenuItem",
+          },
+        },
+      ],
+    },
+    // Many-rendering component in optional children, through a chain
+    {
+      name: "many-rendering chain passed as optional children",
+      code: withComponents(
+        `
+        /** @renders* {Tab} */
+        function TabList() {
+          return <><Tab /><Tab /></>;
+        }
+
+        /** @renders {TabList} */
+        function MyTabs() {
+          return <TabList />;
+        }
+
+        interface TabsProps {
+          /** @renders? {Tab} */
+          children: React.ReactNode;
+        }
+
+        <Tabs>
+          <MyTabs />
+        </Tabs>;
+      `,
+        ["Tab", "Tabs: TabsProps"]
+      ),
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "invalidRenderChildrenCardinality",
+          data: {
+            expected: "@renders? {Tab}",
+            expectedCardinality: "zero or one",
+            actual: "MyTabs",
+            actualCardinality: "zero or more",
+            path: "MyTabs → TabList → Tab",
+          },
+        },
+      ],
+    },
     // Wrong component passed to prop
     {
       name: "wrong component passed to prop",
@@ -691,7 +1286,7 @@ ruleTester.run("valid-render-prop", rule, {
 
         <Menu item={<MyFooter />} />;
       `,
-        ["Footer", "MenuItem", "Menu"]
+        ["Footer", "MenuItem", "Menu: MenuProps"]
       ),
       filename: "test.tsx",
       errors: [
@@ -717,7 +1312,7 @@ ruleTester.run("valid-render-prop", rule, {
 
         <Menu item={<div>Not a MenuItem</div>} />;
       `,
-        ["MenuItem", "Menu"]
+        ["MenuItem", "Menu: MenuProps"]
       ),
       filename: "test.tsx",
       errors: [
@@ -745,7 +1340,7 @@ ruleTester.run("valid-render-prop", rule, {
           <Button />
         </Tabs>;
       `,
-        ["Tab", "Button", "Tabs"]
+        ["Tab", "Button", "Tabs: TabsProps"]
       ),
       filename: "test.tsx",
       errors: [
@@ -770,7 +1365,7 @@ ruleTester.run("valid-render-prop", rule, {
 
         <Layout slot={<Sidebar />} />;
       `,
-        ["Header", "Footer", "Sidebar", "Layout"]
+        ["Header", "Footer", "Sidebar", "Layout: LayoutProps"]
       ),
       filename: "test.tsx",
       errors: [
@@ -798,7 +1393,7 @@ ruleTester.run("valid-render-prop", rule, {
           <Button />
         </Menu>;
       `,
-        ["MenuItem", "Divider", "Button", "Menu"]
+        ["MenuItem", "Divider", "Button", "Menu: MenuProps"]
       ),
       filename: "test.tsx",
       errors: [
@@ -823,7 +1418,7 @@ ruleTester.run("valid-render-prop", rule, {
 
         <Card header={<Footer />} />;
       `,
-        ["CardHeader", "Footer", "Card"]
+        ["CardHeader", "Footer", "Card: CardProps"]
       ),
       filename: "test.tsx",
       errors: [
@@ -854,7 +1449,7 @@ ruleTester.run("valid-render-prop", rule, {
 
         <Menu item={<Wrapper><Footer /></Wrapper>} />;
       `,
-        ["MenuItem", "Footer", "Menu"]
+        ["MenuItem", "Footer", "Menu: MenuProps"]
       ),
       filename: "test.tsx",
       errors: [
@@ -887,7 +1482,7 @@ ruleTester.run("valid-render-prop", rule, {
           <Wrapper><Button /></Wrapper>
         </Tabs>;
       `,
-        ["Tab", "Button", "Tabs"]
+        ["Tab", "Button", "Tabs: TabsProps"]
       ),
       filename: "test.tsx",
       errors: [
@@ -913,7 +1508,7 @@ ruleTester.run("valid-render-prop", rule, {
         declare const show: boolean;
         <Tabs>{show && <Button />}</Tabs>;
       `,
-        ["Tab", "Button", "Tabs"]
+        ["Tab", "Button", "Tabs: TabsProps"]
       ),
       filename: "test.tsx",
       errors: [
@@ -943,7 +1538,7 @@ ruleTester.run("valid-render-prop", rule, {
 
         <Menu item={<MyFooter />} />;
       `,
-        ["Footer", "MenuItem", "Menu"]
+        ["Footer", "MenuItem", "Menu: MenuProps"]
       ),
       filename: "test.tsx",
       errors: [
@@ -974,7 +1569,7 @@ ruleTester.run("valid-render-prop", rule, {
           <MyFooter />
         </Tabs>;
       `,
-        ["Footer", "Tab", "Tabs"]
+        ["Footer", "Tab", "Tabs: TabsProps"]
       ),
       filename: "test.tsx",
       errors: [
@@ -1007,7 +1602,7 @@ ruleTester.run("valid-render-prop", rule, {
           <NavSection />
         </Sidebar>;
       `,
-        ["NavItem", "NavSection", "Sidebar"]
+        ["NavItem", "NavSection", "Sidebar: SidebarProps"]
       ),
       filename: "test.tsx",
       errors: [
@@ -1037,7 +1632,7 @@ ruleTester.run("valid-render-prop", rule, {
 
         <Layout navigation={<><NavLink /><NavSection /></>} />;
       `,
-        ["NavItem", "NavSection", "Layout"]
+        ["NavItem", "NavSection", "Layout: LayoutProps"]
       ),
       filename: "test.tsx",
       errors: [
@@ -1064,7 +1659,7 @@ ruleTester.run("valid-render-prop", rule, {
         declare const cond: boolean;
         <Card header={cond ? <Footer /> : <CardHeader />} />;
       `,
-        ["CardHeader", "Footer", "Card"]
+        ["CardHeader", "Footer", "Card: CardProps"]
       ),
       filename: "test.tsx",
       errors: [
@@ -1090,7 +1685,7 @@ ruleTester.run("valid-render-prop", rule, {
 
         <Toolbar action={<Suspense fallback={null}><Footer /></Suspense>} />;
       `,
-        ["ToolbarButton", "Footer", "Toolbar", "Suspense"]
+        ["ToolbarButton", "Footer", "Toolbar: ToolbarProps", "Suspense"]
       ),
       filename: "test.tsx",
       settings: {
@@ -1122,7 +1717,7 @@ ruleTester.run("valid-render-prop", rule, {
           <Suspense fallback={null}><Button /></Suspense>
         </Accordion>;
       `,
-        ["AccordionItem", "Button", "Accordion", "Suspense"]
+        ["AccordionItem", "Button", "Accordion: AccordionProps", "Suspense"]
       ),
       filename: "test.tsx",
       settings: {
@@ -1164,7 +1759,7 @@ ruleTester.run("valid-render-prop", rule, {
           </>
         </Tabs>;
       `,
-        ["Tab", "Tabs", "Footer"]
+        ["Tab", "Tabs: TabsProps", "Footer"]
       ),
       filename: "test.tsx",
       settings: {
@@ -1205,7 +1800,7 @@ ruleTester.run("valid-render-prop", rule, {
           </Suspense>
         </Tabs>;
       `,
-        ["Tab", "Tabs", "Suspense", "Footer"]
+        ["Tab", "Tabs: TabsProps", "Suspense", "Footer"]
       ),
       filename: "test.tsx",
       settings: {
@@ -1241,7 +1836,7 @@ ruleTester.run("valid-render-prop", rule, {
 
         <Sidebar items={<FlagGate name="feat" off={<Banner />}><SidebarItem /></FlagGate>} />;
       `,
-        ["SidebarItem", "Banner", "Sidebar"]
+        ["SidebarItem", "Banner", "Sidebar: SidebarProps"]
       ),
       filename: "test.tsx",
       errors: [
@@ -1273,7 +1868,7 @@ ruleTester.run("valid-render-prop", rule, {
           <FlagToggle name="feat" off={<ListItem />}><Banner /></FlagToggle>
         </List>;
       `,
-        ["ListItem", "Banner", "List"]
+        ["ListItem", "Banner", "List: ListProps"]
       ),
       filename: "test.tsx",
       errors: [
@@ -1297,7 +1892,7 @@ ruleTester.run("valid-render-prop", rule, {
 
         <Panel content={<Switch name="feat" off={<Banner />}><PanelCard /></Switch>} />;
       `,
-        ["PanelCard", "Banner", "Panel", "Switch"]
+        ["PanelCard", "Banner", "Panel: PanelProps", "Switch"]
       ),
       filename: "test.tsx",
       settings: {
@@ -1318,5 +1913,112 @@ ruleTester.run("valid-render-prop", rule, {
         },
       ],
     },
+    // Dataflow: local bindings as prop values and children
+    {
+      name: "const binding with the wrong component passed as prop value",
+      code: withComponents(
+        `
+        interface LayoutProps {
+          /** @renders {Header} */
+          header: React.ReactNode;
+        }
+
+        function Page() {
+          const header = <Footer />;
+          return <Layout header={header} />;
+        }
+      `,
+        ["Header", "Footer", "Layout: LayoutProps"]
+      ),
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "invalidRenderProp",
+          data: { propName: "header", expected: "Header", actual: "Footer" },
+        },
+      ],
+    },
+    {
+      name: "single-assignment let binding with the wrong component passed as children",
+      code: withComponents(
+        `
+        interface MenuProps {
+          /** @renders* {MenuItem} */
+          children: React.ReactNode;
+        }
+
+        function Nav({ compact }: { compact: boolean }) {
+          let item;
+          item = compact ? <MenuItem /> : <Button />;
+          return <Menu>{item}</Menu>;
+        }
+      `,
+        ["MenuItem", "Button", "Menu: MenuProps"]
+      ),
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "invalidRenderChildren",
+          data: { expected: "MenuItem", actual: "Button" },
+        },
+      ],
+    },
+    // createElement / jsx-runtime calls
+    {
+      name: "createElement with the wrong prop value and positional child",
+      code: withComponents(
+        `
+        import * as React from "react";
+        interface MenuProps {
+          /** @renders {Header} */
+          header: React.ReactNode;
+          /** @renders* {MenuItem} */
+          children: React.ReactNode;
+        }
+
+        React.createElement(
+          Menu,
+          { header: React.createElement(Footer) },
+          React.createElement(MenuItem),
+          React.createElement(Button)
+        );
+      `,
+        ["Header", "Footer", "MenuItem", "Button", "Menu: MenuProps"]
+      ),
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "invalidRenderProp",
+          data: { propName: "header", expected: "Header", actual: "Footer" },
+        },
+        {
+          messageId: "invalidRenderChildren",
+          data: { expected: "MenuItem", actual: "Button" },
+        },
+      ],
+    },
+    {
+      name: "jsx call with the wrong component in props.children",
+      code: withComponents(
+        `
+        import { jsx as _jsx } from "react/jsx-runtime";
+        declare const UI: { Footer: React.FC<any> };
+        interface CardProps {
+          /** @renders {CardBody} */
+          children: React.ReactNode;
+        }
+
+        _jsx(Card, { children: _jsx(UI.Footer, {}) });
+      `,
+        ["CardBody", "Card: CardProps"]
+      ),
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "invalidRenderChildren",
+          data: { expected: "CardBody", actual: "UI.Footer" },
+        },
+      ],
+    },
   ],
 });
@@ -0,0 +1,193 @@
+import path from "node:path";
+import { RuleTester } from "@typescript-eslint/rule-tester";
+import * as vitest from "vitest";
+import rule from "../../src/rules/valid-render-return.js";
+import { clearAnnotationCache } from "../../src/utils/cross-file-resolver.js";
+
+// Configure rule tester to use vitest
+RuleTester.afterAll = vitest.afterAll;
+RuleTester.it = vitest.it;
+RuleTester.itOnly = vitest.it.only;
+RuleTester.itSkip = vitest.it.skip;
+RuleTester.describe = vitest.describe;
+RuleTester.describeSkip = vitest.describe.skip;
+
+const fixturesDir = path.resolve(__dirname, "../fixtures/cross-file-aliases");
+
+const ruleTester = new RuleTester({
+  languageOptions: {
+    parserOptions: {
+      ecmaFeatures: { jsx: true },
+      projectService: {
+        allowDefaultProject: ["consumer.tsx"],
+        defaultProject: "tsconfig.json",
+      },
+      tsconfigRootDir: fixturesDir,
+    },
+  },
+});
+
+const filename = path.resolve(fixturesDir, "consumer.tsx");
+
+vitest.beforeEach(() => {
+  clearAnnotationCache();
+});
+
+ruleTester.run("valid-render-return (cross-file aliases)", rule, {
+  valid: [
+    // Alias imported from a types module, member imported only there
+    {
+      name: "imported alias of an alias: typeof member imported only by the alias file",
+      code: `
+        import { Divider } from "./Divider";
+        import type { MenuSlot } from "./types";
+
+        /** @renders {MenuSlot} */
+        function Menu() {
+          return <Divider />;
+        }
+      `,
+      filename,
+    },
+    // Nested alias member reached through the outer alias
+    {
+      name: "imported alias: member of the nested alias",
+      code: `
+        import { SubMenu } from "./SubMenu";
+        import type { MenuSlot } from "./types";
+
+        /** @renders {MenuSlot} */
+        function Menu() {
+          return <SubMenu />;
+        }
+      `,
+      filename,
+    },
+    // Alias re-exported under another name
+    {
+      name: "alias re-exported under another name",
+      code: `
+        import { MenuItem } from "./MenuItem";
+        import type { Slot } from "./slots";
+
+        /** @renders {Slot} */
+        function Menu() {
+          return <MenuItem />;
+        }
+      `,
+      filename,
+    },
+    // Alias through a namespace import
+    {
+      name: "alias through a namespace import",
+      code: `
+        import { MenuItem } from "./MenuItem";
+        import type * as Types from "./types";
+
+        /** @renders {Types.MenuChild} */
+        function Menu() {
+          return <MenuItem />;
+        }
+      `,
+      filename,
+    },
+    // Alias inside an annotation union
+    {
+      name: "alias inside an annotation union",
+      code: `
+        import { Header } from "./Header";
+        import { SubMenu } from "./SubMenu";
+        import type { MenuChild } from "./types";
+
+        /** @renders {Header | MenuChild} */
+        function Slot({ heading }: { heading: boolean }) {
+          return heading ? <Header /> : <SubMenu />;
+        }
+      `,
+      filename,
+    },
+    // Chain through a component annotated with an imported alias in another file
+    {
+      name: "chain through a component annotated with an alias in another file",
+      code: `
+        import { Group } from "./Group";
+        import type { MenuSlot } from "./types";
+
+        /** @renders {MenuSlot} */
+        function Menu() {
+          return <Group />;
+        }
+      `,
+      filename,
+    },
+    // Circular aliases terminate with the members found
+    {
+      name: "circular aliases expand to their members",
+      code: `
+        import { Divider } from "./Divider";
+        import type { Ping } from "./cycle";
+
+        /** @renders {Ping} */
+        function Menu() {
+          return <Divider />;
+        }
+      `,
+      filename,
+    },
+  ],
+  invalid: [
+    {
+      name: "imported alias: component outside the alias",
+      code: `
+        import { Header } from "./Header";
+        import type { MenuSlot } from "./types";
+
+        /** @renders {MenuSlot} */
+        function Menu() {
+          return <Header />;
+        }
+      `,
+      filename,
+      errors: [
+        {
+          messageId: "invalidRenderReturn",
+          data: { expected: "MenuItem | SubMenu | Divider", actual: "Header" },
+        },
+      ],
+    },
+    {
+      name: "alias inside an annotation union: component outside both",
+      code: `
+        import { Header } from "./Header";
+        import { Divider } from "./Divider";
+        import type { MenuChild } from "./types";
+
+        /** @renders {Header | MenuChild} */
+        function Slot() {
+          return <Divider />;
+        }
+      `,
+      filename,
+      errors: [
+        {
+          messageId: "invalidRenderReturn",
+          data: { expected: "Header | MenuItem | SubMenu", actual: "Divider" },
+        },
+      ],
+    },
+    {
+      name: "circular aliases: component outside the cycle",
+      code: `
+        import { SubMenu } from "./SubMenu";
+        import type { Ping } from "./cycle";
+
+        /** @renders {Ping} */
+        function Menu() {
+          return <SubMenu />;
+        }
+      `,
+      filename,
+      errors: [{ messageId: "invalidRenderReturn" }],
+    },
+  ],
+});
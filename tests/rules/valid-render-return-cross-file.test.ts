@@ -74,6 +74,163 @@ ruleTester.run("valid-render-return (cross-file transparent)", rule, {
       `,
       filename: path.resolve(fixturesDir, "consumer.tsx"),
     },
+    // Transitive chain through a component that isn't imported into this file
+    {
+      name: "cross-file: transitive chain through non-imported intermediate",
+      code: `
+        import { PageHeader } from "./PageHeader";
+        import { Header } from "./Header";
+        import { Footer } from "./Footer";
+
+        /** @renders {Footer} */
+        function BrandHeader() {
+          return <Footer />;
+        }
+
+        /** @renders {Header} */
+        function MyComponent() {
+          return <PageHeader />;
+        }
+      `,
+      filename: path.resolve(fixturesDir, "consumer.tsx"),
+    },
+    // Imported class components
+    {
+      name: "cross-file: imported class component with @renders in a chain",
+      code: `
+        import { HeaderBoundary } from "./HeaderBoundary";
+        import { Header } from "./Header";
+
+        /** @renders {Header} */
+        function MyComponent() {
+          return <HeaderBoundary />;
+        }
+      `,
+      filename: path.resolve(fixturesDir, "consumer.tsx"),
+    },
+    {
+      name: "cross-file: imported @transparent class component",
+      code: `
+        import { ErrorBoundary } from "./ErrorBoundary";
+        import { Header } from "./Header";
+
+        /** @renders {Header} */
+        function MyComponent() {
+          return <ErrorBoundary><Header /></ErrorBoundary>;
+        }
+      `,
+      filename: path.resolve(fixturesDir, "consumer.tsx"),
+    },
+    // Namespace imports and export * barrels
+    {
+      name: "cross-file: @renders target and transparent wrapper through namespace import",
+      code: `
+        import * as UI from "./ui";
+        import { Header } from "./Header";
+
+        /** @renders {UI.Header} */
+        function MyComponent() {
+          return <UI.Layout.Wrapper><Header /></UI.Layout.Wrapper>;
+        }
+      `,
+      filename: path.resolve(fixturesDir, "consumer.tsx"),
+    },
+    {
+      name: "cross-file: transparent wrapper re-exported with export * through namespace import",
+      code: `
+        import * as UI from "./ui";
+
+        /** @renders {UI.Header} */
+        function MyComponent() {
+          return <UI.TransparentWrapper><UI.Header /></UI.TransparentWrapper>;
+        }
+      `,
+      filename: path.resolve(fixturesDir, "consumer.tsx"),
+    },
+    // Compound components
+    {
+      name: "cross-file: Object.assign compound members with @renders and @transparent",
+      code: `
+        import { Tabs } from "./Tabs";
+        import { Header } from "./Header";
+
+        /** @renders {Header} */
+        function MyComponent() {
+          return <Tabs.Panel><Tabs.Title /></Tabs.Panel>;
+        }
+      `,
+      filename: path.resolve(fixturesDir, "consumer.tsx"),
+    },
+    {
+      name: "cross-file: static property and object literal compound members",
+      code: `
+        import { Menu } from "./Menu";
+        import { Card } from "./Card";
+        import { Header } from "./Header";
+
+        /** @renders {Header} */
+        function MyComponent({ compact }: { compact: boolean }) {
+          return compact ? <Menu.Heading /> : <Card.Title />;
+        }
+      `,
+      filename: path.resolve(fixturesDir, "consumer.tsx"),
+    },
+    // Anonymous default export chains through its annotation
+    {
+      name: "cross-file: anonymous default export with @renders",
+      code: `
+        import DefaultHeader from "./DefaultHeader";
+        import { Header } from "./Header";
+
+        /** @renders {Header} */
+        function MyComponent() {
+          return <DefaultHeader />;
+        }
+      `,
+      filename: path.resolve(fixturesDir, "consumer.tsx"),
+    },
+    // Same identity when imported as a named default binding
+    {
+      name: "cross-file: default export imported as { default as X }",
+      code: `
+        import { default as PageHeading } from "./DefaultHeader";
+        import { Header } from "./Header";
+
+        /** @renders {Header} */
+        function MyComponent() {
+          return <PageHeading />;
+        }
+      `,
+      filename: path.resolve(fixturesDir, "consumer.tsx"),
+    },
+    // Default export wrapped in memo()
+    {
+      name: "cross-file: memo() default export with @renders",
+      code: `
+        import MemoHeader from "./MemoHeader";
+        import { Header } from "./Header";
+
+        /** @renders {Header} */
+        function MyComponent() {
+          return <MemoHeader />;
+        }
+      `,
+      filename: path.resolve(fixturesDir, "consumer.tsx"),
+    },
+    // forwardRef(InnerHeader) default export shares InnerHeader's identity
+    {
+      name: "cross-file: wrapped default export is the component it wraps",
+      code: `
+        import WrappedHeader from "./WrappedHeader";
+        import { InnerHeader } from "./WrappedHeader";
+
+        /** @renders {InnerHeader} */
+        function MyComponent() {
+          return <WrappedHeader />;
+        }
+      `,
+      filename: path.resolve(fixturesDir, "consumer.tsx"),
+    },
   ],
   invalid: [
     // Imported @transparent wrapper with wrong child
@@ -146,5 +303,118 @@ ruleTester.run("valid-render-return (cross-file transparent)", rule, {
         },
       ],
     },
+    {
+      name: "cross-file: imported @transparent class component with wrong child",
+      code: `
+        import { ErrorBoundary } from "./ErrorBoundary";
+        import { Footer } from "./Footer";
+
+        /** @renders {Header} */
+        function MyComponent() {
+          return <ErrorBoundary><Footer /></ErrorBoundary>;
+        }
+      `,
+      filename: path.resolve(fixturesDir, "consumer.tsx"),
+      errors: [
+        {
+          messageId: "invalidRenderReturn",
+          data: { expected: "Header", actual: "Footer" },
+        },
+      ],
+    },
+    {
+      name: "cross-file: namespace transparent wrapper with wrong child",
+      code: `
+        import * as UI from "./ui";
+
+        /** @renders {UI.Header} */
+        function MyComponent() {
+          return <UI.Layout.Wrapper><UI.Footer /></UI.Layout.Wrapper>;
+        }
+      `,
+      filename: path.resolve(fixturesDir, "consumer.tsx"),
+      errors: [
+        {
+          messageId: "invalidRenderReturn",
+          data: { expected: "UI.Header", actual: "UI.Footer" },
+        },
+      ],
+    },
+    {
+      name: "cross-file: non-transparent wrapper through namespace import is not looked through",
+      code: `
+        import * as UI from "./ui";
+
+        /** @renders {UI.Header} */
+        function MyComponent() {
+          return <UI.Layout.Box><UI.Header /></UI.Layout.Box>;
+        }
+      `,
+      filename: path.resolve(fixturesDir, "consumer.tsx"),
+      errors: [
+        {
+          messageId: "invalidRenderReturn",
+          data: { expected: "UI.Header", actual: "UI.Layout.Box" },
+        },
+      ],
+    },
+    {
+      name: "cross-file: Object.assign @transparent member with wrong child",
+      code: `
+        import { Tabs } from "./Tabs";
+        import { Footer } from "./Footer";
+        import { Header } from "./Header";
+
+        /** @renders {Header} */
+        function MyComponent() {
+          return <Tabs.Panel><Footer /></Tabs.Panel>;
+        }
+      `,
+      filename: path.resolve(fixturesDir, "consumer.tsx"),
+      errors: [
+        {
+          messageId: "invalidRenderReturn",
+          data: { expected: "Header", actual: "Footer" },
+        },
+      ],
+    },
+    {
+      name: "cross-file: anonymous default export rendering the wrong component",
+      code: `
+        import DefaultHeader from "./DefaultHeader";
+        import { Footer } from "./Footer";
+
+        /** @renders {Footer} */
+        function MyComponent() {
+          return <DefaultHeader />;
+        }
+      `,
+      filename: path.resolve(fixturesDir, "consumer.tsx"),
+      errors: [
+        {
+          messageId: "invalidRenderReturn",
+          data: { expected: "Footer", actual: "DefaultHeader" },
+        },
+      ],
+    },
+    {
+      name: "cross-file: memo() default export rendering the wrong component",
+      code: `
+        import MemoHeader from "./MemoHeader";
+        import { Footer } from "./Footer";
+
+        /** @renders {Footer} */
+        function MyComponent() {
+          return <MemoHeader />;
+        }
+      `,
+      filename: path.resolve(fixturesDir, "consumer.tsx"),
+      errors: [
+        {
+          messageId: "invalidRenderReturn",
+          data: { expected: "Footer", actual: "MemoHeader" },
+        },
+      ],
+    },
   ],
 });
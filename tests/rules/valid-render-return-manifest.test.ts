@@ -0,0 +1,178 @@
+import fs from "node:fs";
+import path from "node:path";
+import { RuleTester } from "@typescript-eslint/rule-tester";
+import * as vitest from "vitest";
+import rule from "../../src/rules/valid-render-return.js";
+import { clearAnnotationCache } from "../../src/utils/cross-file-resolver.js";
+
+// Configure rule tester to use vitest
+RuleTester.afterAll = vitest.afterAll;
+RuleTester.it = vitest.it;
+RuleTester.itOnly = vitest.it.only;
+RuleTester.itSkip = vitest.it.skip;
+RuleTester.describe = vitest.describe;
+RuleTester.describeSkip = vitest.describe.skip;
+
+const fixturesDir = path.resolve(__dirname, "../fixtures/cross-file-manifest");
+
+/** Lint a fixture file as it is on disk */
+function fixture(name: string): { code: string; filename: string } {
+  const filename = path.resolve(fixturesDir, name);
+  return { code: fs.readFileSync(filename, "utf8"), filename };
+}
+
+const ruleTester = new RuleTester({
+  languageOptions: {
+    parserOptions: {
+      ecmaFeatures: { jsx: true },
+      projectService: {
+        allowDefaultProject: ["consumer.tsx"],
+        defaultProject: "tsconfig.json",
+      },
+      tsconfigRootDir: fixturesDir,
+    },
+  },
+});
+
+vitest.describe("fresh cache", () => {
+  vitest.beforeEach(() => {
+    clearAnnotationCache();
+  });
+
+  ruleTester.run("valid-render-return (annotation manifests)", rule, {
+    valid: [
+      {
+        name: "render-types.json: chain through a manifest @renders",
+        code: `
+          import { CardHeader, CardTitle } from "@acme/ui";
+
+          /** @renders {CardHeader} */
+          function Header() {
+            return <CardTitle title="Hi" />;
+          }
+        `,
+        filename: path.resolve(fixturesDir, "consumer.tsx"),
+      },
+      {
+        name: "render-types.json: chain through a re-exported manifest component",
+        code: `
+          import { CardHeader, CardTitle } from "./TitleWrapper";
+
+          /** @renders {CardHeader} */
+          function Header() {
+            return <CardTitle title="Hi" />;
+          }
+        `,
+        filename: path.resolve(fixturesDir, "consumer.tsx"),
+      },
+      {
+        name: "render-types.json: return through a manifest @transparent wrapper",
+        code: `
+          import { CardHeader, Box } from "@acme/ui";
+
+          /** @renders {CardHeader} */
+          function Header() {
+            return <Box><CardHeader title="Hi" /></Box>;
+          }
+        `,
+        filename: path.resolve(fixturesDir, "consumer.tsx"),
+      },
+      {
+        name: "settings: chain through a settings @renders",
+        code: `
+          import { SidebarPanel, NavPanel } from "@acme/layout";
+
+          /** @renders {SidebarPanel} */
+          function Sidebar() {
+            return <NavPanel />;
+          }
+        `,
+        filename: path.resolve(fixturesDir, "consumer.tsx"),
+        settings: {
+          "react-render-types": {
+            externalAnnotations: {
+              "@acme/layout": {
+                NavPanel: { renders: "@renders {SidebarPanel}" },
+              },
+            },
+          },
+        },
+      },
+    ],
+    invalid: [
+      {
+        name: "render-types.json: unannotated package component doesn't chain",
+        code: `
+          import { CardHeader, Button } from "@acme/ui";
+
+          /** @renders {CardHeader} */
+          function Header() {
+            return <Button label="Hi" />;
+          }
+        `,
+        filename: path.resolve(fixturesDir, "consumer.tsx"),
+        errors: [{ messageId: "invalidRenderReturn", line: 6 }],
+      },
+      {
+        name: "settings: manifest entries override the package's render-types.json",
+        code: `
+          import { CardHeader, CardTitle } from "@acme/ui";
+
+          /** @renders {CardHeader} */
+          function Header() {
+            return <CardTitle title="Hi" />;
+          }
+        `,
+        filename: path.resolve(fixturesDir, "consumer.tsx"),
+        settings: {
+          "react-render-types": {
+            externalAnnotations: {
+              "@acme/ui": {
+                CardTitle: { renders: "@renders {CardBody}" },
+              },
+            },
+          },
+        },
+        errors: [{ messageId: "invalidRenderReturn", line: 6 }],
+      },
+    ],
+  });
+});
+
+// Manifest entries are found from the component's package, not the linted
+// file's imports, so results cached while linting one file hold for the next.
+// Caches are kept per externalAnnotations setting.
+vitest.describe("cache shared across files", () => {
+  vitest.beforeAll(() => {
+    clearAnnotationCache();
+  });
+
+  ruleTester.run("valid-render-return (annotation manifests, shared cache)", rule, {
+    valid: [
+      {
+        name: "file without @acme/ui imports first",
+        ...fixture("WrappedHeader.tsx"),
+      },
+      {
+        name: "file importing @acme/ui second",
+        ...fixture("TitleWrapper.tsx"),
+      },
+    ],
+    invalid: [
+      {
+        name: "same file with settings overriding the package's render-types.json",
+        ...fixture("TitleWrapper.tsx"),
+        settings: {
+          "react-render-types": {
+            externalAnnotations: {
+              "@acme/ui": {
+                CardTitle: { renders: "@renders {CardBody}" },
+              },
+            },
+          },
+        },
+        errors: [{ messageId: "invalidRenderReturn", line: 9 }],
+      },
+    ],
+  });
+});
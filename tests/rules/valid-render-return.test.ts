@@ -164,6 +164,30 @@ ruleTester.run("valid-render-return", rule, {
       ),
       filename: "test.tsx",
     },
+    // Chained rendering through the second member of a union
+    {
+      name: "chained rendering through second union member",
+      code: withComponents(
+        `
+        /** @renders {Header} */
+        function MyHeader() {
+          return <Header />;
+        }
+
+        /** @renders {Footer | MyHeader} */
+        function Slot() {
+          return <MyHeader />;
+        }
+
+        /** @renders {Header} */
+        function Page() {
+          return <Slot />;
+        }
+      `,
+        ["Header", "Footer"]
+      ),
+      filename: "test.tsx",
+    },
     // @renders? - optional: returning null is valid
     {
       name: "optional renders with null return",
@@ -483,6 +507,37 @@ ruleTester.run("valid-render-return", rule, {
       ),
       filename: "test.tsx",
     },
+    // Alias of an alias with typeof members
+    {
+      name: "nested type alias with typeof members",
+      code: withComponents(
+        `
+        type MenuChild = typeof MenuItem | typeof SubMenu;
+        type MenuSlot = MenuChild | Divider;
+        /** @renders {MenuSlot} */
+        function Slot() {
+          return <SubMenu />;
+        }
+      `,
+        ["MenuItem", "SubMenu", "Divider"]
+      ),
+      filename: "test.tsx",
+    },
+    // Alias inside an annotation union
+    {
+      name: "type alias inside an annotation union",
+      code: withComponents(
+        `
+        type LayoutComponent = Header | Footer;
+        /** @renders {Sidebar | LayoutComponent} */
+        function Region() {
+          return <Footer />;
+        }
+      `,
+        ["Header", "Sidebar", "Footer"]
+      ),
+      filename: "test.tsx",
+    },
     // Transparent wrapper around correct component
     {
       name: "transparent wrapper around correct component",
@@ -1038,6 +1093,32 @@ ruleTester.run("valid-render-return", rule, {
       ),
       filename: "test.tsx",
     },
+    // --- anonymous default exports ---
+    {
+      name: "anonymous default export function with @renders returns correct component",
+      code: withComponents(
+        `
+        /** @renders {Header} */
+        export default function () {
+          return <Header />;
+        }
+      `,
+        ["Header"]
+      ),
+      filename: "test.tsx",
+    },
+    {
+      name: "default-exported memo() with @renders returns correct component",
+      code: withComponents(
+        `
+        declare const memo: typeof import('react').memo;
+        /** @renders {Header} */
+        export default memo(() => <Header />);
+      `,
+        ["Header"]
+      ),
+      filename: "test.tsx",
+    },
     {
       name: "exported forwardRef with @renders returns correct component",
       code: withComponents(
@@ -1086,230 +1167,616 @@ ruleTester.run("valid-render-return", rule, {
         },
       },
     },
-  ],
-  invalid: [
-    // Wrong component returned
+    // Cardinality: narrower annotations fill wider slots
     {
-      name: "wrong component returned",
+      name: "required and optional chains in many-annotated component",
       code: withComponents(
         `
         /** @renders {Header} */
-        function MyComponent() {
-          return <Footer />;
+        function MyHeader() {
+          return <Header />;
+        }
+
+        /** @renders? {Header} */
+        function MaybeHeader() {
+          return null;
+        }
+
+        /** @renders? {Header} */
+        function OptionalSlot({ show }: { show: boolean }) {
+          return show ? <MyHeader /> : <MaybeHeader />;
+        }
+
+        /** @renders* {Header} */
+        function ManySlot() {
+          return <OptionalSlot show />;
         }
       `,
-        ["Header", "Footer"]
+        ["Header"]
       ),
       filename: "test.tsx",
-      errors: [
-        {
-          messageId: "invalidRenderReturn",
-          data: {
-            expected: "Header",
-            actual: "Footer",
-          },
-        },
-      ],
     },
-    // Returns primitive JSX when component expected
+    // Dataflow: local bindings
     {
-      name: "returns primitive JSX when component expected",
+      name: "returns a const binding holding JSX",
       code: withComponents(
         `
         /** @renders {Header} */
-        function MyComponent() {
-          return <div>Not a Header</div>;
+        function MyHeader() {
+          const content = <Header />;
+          return content;
         }
       `,
         ["Header"]
       ),
       filename: "test.tsx",
-      errors: [
-        {
-          messageId: "invalidRenderReturn",
-          data: {
-            expected: "Header",
-            actual: "div",
-          },
-        },
-      ],
     },
-    // Arrow function returning wrong component
     {
-      name: "arrow function returning wrong component",
+      name: "returns a single-assignment let binding through a transparent wrapper",
       code: withComponents(
         `
+        /** @transparent */
+        function Wrapper({ children }: { children: React.ReactNode }) {
+          return <div>{children}</div>;
+        }
+
         /** @renders {Header} */
-        const MyHeader = () => <Footer />;
+        function MyHeader({ compact }: { compact: boolean }) {
+          let content;
+          content = compact ? <Header /> : <MyOtherHeader />;
+          return <Wrapper>{content}</Wrapper>;
+        }
+
+        /** @renders {Header} */
+        function MyOtherHeader() {
+          return <Header />;
+        }
       `,
-        ["Header", "Footer"]
+        ["Header"]
       ),
       filename: "test.tsx",
-      errors: [
-        {
-          messageId: "invalidRenderReturn",
-          data: {
-            expected: "Header",
-            actual: "Footer",
-          },
-        },
-      ],
     },
-    // Wrong namespaced component
     {
-      name: "wrong namespaced component",
-      code: `
-        declare const Menu: { Item: React.FC<any>; Header: React.FC<any> };
-        /** @renders {Menu.Item} */
-        function MyMenuItem() {
-          return <Menu.Header />;
+      name: "returns a const binding holding a transparent wrapper",
+      code: withComponents(
+        `
+        /** @transparent */
+        function Wrapper({ children }: { children: React.ReactNode }) {
+          return <div>{children}</div>;
+        }
+
+        /** @renders {Header} */
+        function MyHeader() {
+          const content = <Wrapper><Header /></Wrapper>;
+          return content;
         }
       `,
+        ["Header"]
+      ),
       filename: "test.tsx",
-      errors: [
-        {
-          messageId: "invalidRenderReturn",
-          data: {
-            expected: "Menu.Item",
-            actual: "Menu.Header",
-          },
-        },
-      ],
     },
-    // Chained component doesn't render expected type
     {
-      name: "chained component does not render expected type",
+      name: "returns an array built with push",
       code: withComponents(
         `
-        /** @renders {Footer} */
-        function MyFooter() {
-          return <Footer />;
-        }
-
-        /** @renders {Header} */
-        function MyComponent() {
-          return <MyFooter />;
+        /** @renders* {Item} */
+        function Items({ labels }: { labels: string[] }) {
+          const items = [<Item key="first" />];
+          for (const label of labels) {
+            items.push(<Item key={label} />);
+          }
+          return <>{items}</>;
         }
       `,
-        ["Header", "Footer"]
+        ["Item"]
       ),
       filename: "test.tsx",
-      errors: [
-        {
-          messageId: "invalidRenderReturn",
-          data: {
-            expected: "Header",
-            actual: "MyFooter",
-          },
-        },
-      ],
     },
-    // @renders? - optional: returning wrong component is invalid
     {
-      name: "optional renders with wrong component",
+      name: "reassigned let binding is not followed",
       code: withComponents(
         `
-        /** @renders? {Header} */
-        function MaybeHeader() {
-          return <Footer />;
+        /** @renders {Header} */
+        function MyHeader({ compact }: { compact: boolean }) {
+          let content = <Footer />;
+          if (compact) {
+            content = <Header />;
+          }
+          return content;
         }
       `,
         ["Header", "Footer"]
       ),
       filename: "test.tsx",
-      errors: [
-        {
-          messageId: "invalidRenderReturn",
-          data: {
-            expected: "Header",
-            actual: "Footer",
-          },
-        },
-      ],
     },
-    // @renders* - many: returning wrong component type is invalid
     {
-      name: "many renders with wrong component",
+      name: "parameter shadowing a binding is not followed",
       code: withComponents(
         `
-        /** @renders* {MenuItem} */
-        function MenuItems() {
-          return <Footer />;
+        const content = <Footer />;
+
+        /** @renders {Header} */
+        function MyHeader({ content }: { content: any }) {
+          return content;
         }
       `,
-        ["MenuItem", "Footer"]
+        ["Header", "Footer"]
       ),
       filename: "test.tsx",
-      errors: [
-        {
-          messageId: "invalidRenderReturn",
-          data: {
-            expected: "MenuItem",
-            actual: "Footer",
-          },
-        },
-      ],
     },
-    // Required @renders returning null is invalid
+    // createElement / jsx-runtime calls
     {
-      name: "required renders returning null",
-      code: withComponents(
-        `
+      name: "document.createElement isn't checked as a React element",
+      code: `
         /** @renders {Header} */
         function MyHeader() {
-          return null;
+          return document.createElement("div");
         }
       `,
-        ["Header"]
-      ),
       filename: "test.tsx",
-      errors: [
-        {
-          messageId: "invalidRenderReturn",
-          data: {
-            expected: "Header",
-            actual: "null",
-          },
-        },
-      ],
     },
-    // Multiple return paths with one invalid
     {
-      name: "multiple return paths with one invalid",
-      code: withComponents(
-        `
+      name: "locally defined jsx() isn't the JSX runtime",
+      code: `
+        function jsx(type: unknown, props: unknown) {
+          return { type, props };
+        }
         /** @renders {Header} */
-        function MyHeader({ variant }: { variant: string }) {
-          if (variant === "special") {
-            return <Header />;
-          }
-          return <Footer />;
+        function MyHeader() {
+          return jsx(Footer, {});
         }
       `,
-        ["Header", "Footer"]
-      ),
       filename: "test.tsx",
-      errors: [
-        {
-          messageId: "invalidRenderReturn",
-          data: {
-            expected: "Header",
-            actual: "Footer",
-          },
-        },
-      ],
     },
-    // Union type - returning component not in union is invalid
     {
-      name: "union type returning component not in union",
+      name: "returns React.createElement of the annotated component",
       code: withComponents(
         `
-        /** @renders {Header | Footer} */
-        function FlexComponent() {
-          return <Sidebar />;
+        import * as React from "react";
+        /** @renders {Header} */
+        function MyHeader() {
+          return React.createElement(Header, { title: "x" });
         }
       `,
-        ["Header", "Footer", "Sidebar"]
+        ["Header"]
+      ),
+      filename: "test.tsx",
+    },
+    {
+      name: "returns aliased jsx-runtime call through a transparent wrapper",
+      code: withComponents(
+        `
+        import { jsx as _jsx } from "react/jsx-runtime";
+        declare const Menu: { Item: React.FC<any> };
+
+        /** @transparent */
+        function Wrapper({ children }: { children: React.ReactNode }) {
+          return _jsx("div", { children });
+        }
+
+        /** @renders {Menu.Item} */
+        function MyItem() {
+          return _jsx(Wrapper, { children: _jsx(Menu.Item, {}) });
+        }
+      `,
+        []
+      ),
+      filename: "test.tsx",
+    },
+    // Class components
+    {
+      name: "class component render() returns annotated component",
+      code: withComponents(
+        `
+        import * as React from "react";
+        /** @renders {Header} */
+        class MyHeader extends React.Component {
+          render() {
+            if (!this.props.show) {
+              return <Header compact />;
+            }
+            return <Header />;
+          }
+        }
+      `,
+        ["Header"]
+      ),
+      filename: "test.tsx",
+    },
+    {
+      name: "exported class expression with arrow render property",
+      code: withComponents(
+        `
+        import * as React from "react";
+        /** @renders? {Header} */
+        export const MaybeHeader = class extends React.Component {
+          render = () => (this.props.show ? <Header /> : null);
+        };
+      `,
+        ["Header"]
+      ),
+      filename: "test.tsx",
+    },
+    {
+      name: "function component chains through a class component",
+      code: withComponents(
+        `
+        import * as React from "react";
+        /** @renders {Header} */
+        export default class HeaderBoundary extends React.Component {
+          render() {
+            return <Header />;
+          }
+        }
+
+        /** @renders {Header} */
+        function Page() {
+          return <HeaderBoundary />;
+        }
+      `,
+        ["Header"]
+      ),
+      filename: "test.tsx",
+    },
+    {
+      name: "local @transparent class component is looked through",
+      code: withComponents(
+        `
+        import * as React from "react";
+        /** @transparent */
+        class ErrorBoundary extends React.Component {
+          render() {
+            return this.props.children;
+          }
+        }
+
+        /** @renders {Header} */
+        function Page() {
+          return <ErrorBoundary><Header /></ErrorBoundary>;
+        }
+      `,
+        ["Header"]
+      ),
+      filename: "test.tsx",
+    },
+    // Compound components
+    {
+      name: "object literal compound member with @renders in a chain",
+      code: withComponents(
+        `
+        const Menu = {
+          /** @renders {MenuItem} */
+          Item: () => <MenuItem />,
+        };
+
+        /** @renders {MenuItem} */
+        function Home() {
+          return <Menu.Item />;
+        }
+      `,
+        ["MenuItem"]
+      ),
+      filename: "test.tsx",
+    },
+    {
+      name: "Object.assign compound members resolve to their components",
+      code: withComponents(
+        `
+        function TabsRoot({ children }: { children: React.ReactNode }) {
+          return <div>{children}</div>;
+        }
+
+        /** @renders {Tab} */
+        function TabItem() {
+          return <Tab />;
+        }
+
+        const Tabs = Object.assign(TabsRoot, {
+          Item: TabItem,
+          /** @transparent */
+          Panel: ({ children }: { children: React.ReactNode }) => <section>{children}</section>,
+        });
+
+        /** @renders {Tab} */
+        function Home() {
+          return <Tabs.Panel><Tabs.Item /></Tabs.Panel>;
+        }
+      `,
+        ["Tab"]
+      ),
+      filename: "test.tsx",
+    },
+  ],
+  invalid: [
+    // Optional-rendering component returned from an exactly-one component
+    {
+      name: "optional-rendering component returned where exactly one is required",
+      code: withComponents(
+        `
+        /** @renders? {Header} */
+        function MaybeHeader() {
+          return null;
+        }
+
+        /** @renders {Header} */
+        function PageHeader() {
+          return <MaybeHeader />;
+        }
+      `,
+        ["Header"]
+      ),
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "invalidRenderCardinality",
+          data: {
+            expected: "@renders {Header}",
+            expectedCardinality: "exactly one",
+            actual: "MaybeHeader",
+            actualCardinality: "zero or one",
+            path: "MaybeHeader → Header",
+          },
+        },
+      ],
+    },
+    // Many-rendering annotation deeper in the chain widens the cardinality
+    {
+      name: "many-rendering link in chain returned where at most one is allowed",
+      code: withComponents(
+        `
+        /** @renders* {Header} */
+        function Headers() {
+          return <><Header /><Header /></>;
+        }
+
+        /** @renders {Headers} */
+        function MyHeaders() {
+          return <Headers />;
+        }
+
+        /** @renders? {Header} */
+        function OptionalHeader() {
+          return <MyHeaders />;
+        }
+      `,
+        ["Header"]
+      ),
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "invalidRenderCardinality",
+          data: {
+            expected: "@renders? {Header}",
+            expectedCardinality: "zero or one",
+            actual: "MyHeaders",
+            actualCardinality: "zero or more",
+            path: "MyHeaders → Headers → Header",
+          },
+        },
+      ],
+    },
+    // Wrong component returned
+    {
+      name: "wrong component returned",
+      code: withComponents(
+        `
+        /** @renders {Header} */
+        function MyComponent() {
+          return <Footer />;
+        }
+      `,
+        ["Header", "Footer"]
+      ),
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "invalidRenderReturn",
+          data: {
+            expected: "Header",
+            actual: "Footer",
+          },
+        },
+      ],
+    },
+    // Returns primitive JSX when component expected
+    {
+      name: "returns primitive JSX when component expected",
+      code: withComponents(
+        `
+        /** @renders {Header} */
+        function MyComponent() {
+          return <div>Not a Header</div>;
+        }
+      `,
+        ["Header"]
+      ),
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "invalidRenderReturn",
+          data: {
+            expected: "Header",
+            actual: "div",
+          },
+        },
+      ],
+    },
+    // Arrow function returning wrong component
+    {
+      name: "arrow function returning wrong component",
+      code: withComponents(
+        `
+        /** @renders {Header} */
+        const MyHeader = () => <Footer />;
+      `,
+        ["Header", "Footer"]
+      ),
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "invalidRenderReturn",
+          data: {
+            expected: "Header",
+            actual: "Footer",
+          },
+        },
+      ],
+    },
+    // Wrong namespaced component
+    {
+      name: "wrong namespaced component",
+      code: `
+        declare const Menu: { Item: React.FC<any>; Header: React.FC<any> };
+        /** @renders {Menu.Item} */
+        function MyMenuItem() {
+          return <Menu.Header />;
+        }
+      `,
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "invalidRenderReturn",
+          data: {
+            expected: "Menu.Item",
+            actual: "Menu.Header",
+          },
+        },
+      ],
+    },
+    // Chained component doesn't render expected type
+    {
+      name: "chained component does not render expected type",
+      code: withComponents(
+        `
+        /** @renders {Footer} */
+        function MyFooter() {
+          return <Footer />;
+        }
+
+        /** @renders {Header} */
+        function MyComponent() {
+          return <MyFooter />;
+        }
+      `,
+        ["Header", "Footer"]
+      ),
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "invalidRenderReturn",
+          data: {
+            expected: "Header",
+            actual: "MyFooter",
+          },
+        },
+      ],
+    },
+    // @renders? - optional: returning wrong component is invalid
+    {
+      name: "optional renders with wrong component",
+      code: withComponents(
+        `
+        /** @renders? {Header} */
+        function MaybeHeader() {
+          return <Footer />;
+        }
+      `,
+        ["Header", "Footer"]
+      ),
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "invalidRenderReturn",
+          data: {
+            expected: "Header",
+            actual: "Footer",
+          },
+        },
+      ],
+    },
+    // @renders* - many: returning wrong component type is invalid
+    {
+      name: "many renders with wrong component",
+      code: withComponents(
+        `
+        /** @renders* {MenuItem} */
+        function MenuItems() {
+          return <Footer />;
+        }
+      `,
+        ["MenuItem", "Footer"]
+      ),
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "invalidRenderReturn",
+          data: {
+            expected: "MenuItem",
+            actual: "Footer",
+          },
+        },
+      ],
+    },
+    // Required @renders returning null is invalid
+    {
+      name: "required renders returning null",
+      code: withComponents(
+        `
+        /** @renders {Header} */
+        function MyHeader() {
+          return null;
+        }
+      `,
+        ["Header"]
+      ),
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "invalidRenderReturn",
+          data: {
+            expected: "Header",
+            actual: "null",
+          },
+        },
+      ],
+    },
+    // Multiple return paths with one invalid
+    {
+      name: "multiple return paths with one invalid",
+      code: withComponents(
+        `
+        /** @renders {Header} */
+        function MyHeader({ variant }: { variant: string }) {
+          if (variant === "special") {
+            return <Header />;
+          }
+          return <Footer />;
+        }
+      `,
+        ["Header", "Footer"]
+      ),
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "invalidRenderReturn",
+          data: {
+            expected: "Header",
+            actual: "Footer",
+          },
+        },
+      ],
+    },
+    // Union type - returning component not in union is invalid
+    {
+      name: "union type returning component not in union",
+      code: withComponents(
+        `
+        /** @renders {Header | Footer} */
+        function FlexComponent() {
+          return <Sidebar />;
+        }
+      `,
+        ["Header", "Footer", "Sidebar"]
       ),
       filename: "test.tsx",
       errors: [
@@ -1487,6 +1954,50 @@ ruleTester.run("valid-render-return", rule, {
         },
       ],
     },
+    // Alias of an alias - invalid return
+    {
+      name: "nested type alias returning component outside the alias",
+      code: withComponents(
+        `
+        type MenuChild = typeof MenuItem | typeof SubMenu;
+        type MenuSlot = MenuChild | Divider;
+        /** @renders {MenuSlot} */
+        function Slot() {
+          return <Button />;
+        }
+      `,
+        ["MenuItem", "SubMenu", "Divider", "Button"]
+      ),
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "invalidRenderReturn",
+          data: { expected: "MenuItem | SubMenu | Divider", actual: "Button" },
+        },
+      ],
+    },
+    // Self-referencing aliases - expansion terminates
+    {
+      name: "circular type aliases returning component outside the cycle",
+      code: withComponents(
+        `
+        type Ping = Pong | Header;
+        type Pong = Ping | Footer;
+        /** @renders {Ping} */
+        function Slot() {
+          return <Button />;
+        }
+      `,
+        ["Header", "Footer", "Button"]
+      ),
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "invalidRenderReturn",
+          data: { expected: "Footer | Header", actual: "Button" },
+        },
+      ],
+    },
     // Transparent wrapper with wrong component
     {
       name: "transparent wrapper with wrong component",
@@ -1860,6 +2371,78 @@ ruleTester.run("valid-render-return", rule, {
         },
       ],
     },
+    // --- anonymous default exports ---
+    {
+      name: "anonymous default export function with @renders returns wrong component",
+      code: withComponents(
+        `
+        /** @renders {Header} */
+        export default function () {
+          return <Footer />;
+        }
+      `,
+        ["Header", "Footer"]
+      ),
+      filename: "test.tsx",
+      errors: [{ messageId: "invalidRenderReturn", data: { expected: "Header", actual: "Footer" } }],
+    },
+    {
+      name: "anonymous default export arrow with @renders returns wrong component",
+      code: withComponents(
+        `
+        /** @renders {Header} */
+        export default () => <Footer />;
+      `,
+        ["Header", "Footer"]
+      ),
+      filename: "test.tsx",
+      errors: [{ messageId: "invalidRenderReturn", data: { expected: "Header", actual: "Footer" } }],
+    },
+    {
+      name: "default-exported memo() with @renders returns wrong component",
+      code: withComponents(
+        `
+        declare const memo: typeof import('react').memo;
+        /** @renders {Header} */
+        export default memo(() => <Footer />);
+      `,
+        ["Header", "Footer"]
+      ),
+      filename: "test.tsx",
+      errors: [{ messageId: "invalidRenderReturn", data: { expected: "Header", actual: "Footer" } }],
+    },
+    {
+      name: "default-exported forwardRef() with @renders returns wrong component",
+      code: withComponents(
+        `
+        declare const forwardRef: typeof import('react').forwardRef;
+        /** @renders {Header} */
+        export default forwardRef<HTMLDivElement, {}>(function (props, ref) {
+          return <Footer />;
+        });
+      `,
+        ["Header", "Footer"]
+      ),
+      filename: "test.tsx",
+      errors: [{ messageId: "invalidRenderReturn", data: { expected: "Header", actual: "Footer" } }],
+    },
+    {
+      name: "anonymous default export class with @renders returns wrong component",
+      code: withComponents(
+        `
+        import { Component } from 'react';
+        /** @renders {Header} */
+        export default class extends Component {
+          render() {
+            return <Footer />;
+          }
+        }
+      `,
+        ["Header", "Footer"]
+      ),
+      filename: "test.tsx",
+      errors: [{ messageId: "invalidRenderReturn", data: { expected: "Header", actual: "Footer" } }],
+    },
     {
       name: "memo(forwardRef(...)) with @renders returns wrong component",
       code: withComponents(
@@ -1884,5 +2467,212 @@ ruleTester.run("valid-render-return", rule, {
         },
       ],
     },
+    {
+      name: "const binding holding the wrong component",
+      code: withComponents(
+        `
+        /** @renders {Header} */
+        function MyHeader() {
+          const content = <Footer />;
+          return content;
+        }
+      `,
+        ["Header", "Footer"]
+      ),
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "invalidRenderReturn",
+          data: {
+            expected: "Header",
+            actual: "Footer",
+          },
+        },
+      ],
+    },
+    {
+      name: "single-assignment let binding with a wrong branch",
+      code: withComponents(
+        `
+        /** @renders {Header} */
+        function MyHeader({ compact }: { compact: boolean }) {
+          let content;
+          content = compact ? <Header /> : <Footer />;
+          return content;
+        }
+      `,
+        ["Header", "Footer"]
+      ),
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "invalidRenderReturn",
+          data: {
+            expected: "Header",
+            actual: "Footer",
+          },
+        },
+      ],
+    },
+    {
+      name: "array built with push containing the wrong component",
+      code: withComponents(
+        `
+        /** @renders* {Item} */
+        function Items() {
+          const items = [];
+          items.push(<Item key="a" />);
+          items.push(<Footer key="b" />);
+          return <>{items}</>;
+        }
+      `,
+        ["Item", "Footer"]
+      ),
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "invalidRenderReturn",
+          data: {
+            expected: "Item",
+            actual: "Footer",
+          },
+        },
+      ],
+    },
+    {
+      name: "createElement of the wrong component",
+      code: withComponents(
+        `
+        import { createElement } from "react";
+        /** @renders {Header} */
+        function MyHeader({ compact }: { compact: boolean }) {
+          return compact ? createElement(Header) : createElement(Footer, null);
+        }
+      `,
+        ["Header", "Footer"]
+      ),
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "invalidRenderReturn",
+          data: {
+            expected: "Header",
+            actual: "Footer",
+          },
+        },
+      ],
+    },
+    {
+      name: "createElement transparent wrapper with the wrong positional child",
+      code: withComponents(
+        `
+        import * as React from "react";
+
+        /** @transparent */
+        function Wrapper({ children }: { children: React.ReactNode }) {
+          return <div>{children}</div>;
+        }
+
+        /** @renders {Header} */
+        function MyHeader() {
+          return React.createElement(Wrapper, null, React.createElement(Footer));
+        }
+      `,
+        ["Header", "Footer"]
+      ),
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "invalidRenderReturn",
+          data: {
+            expected: "Header",
+            actual: "Footer",
+          },
+        },
+      ],
+    },
+    {
+      name: "class component render() returns wrong component",
+      code: withComponents(
+        `
+        import * as React from "react";
+        /** @renders {Header} */
+        class MyHeader extends React.Component {
+          renderFooter() {
+            return <Footer />;
+          }
+
+          render() {
+            return <Footer />;
+          }
+        }
+      `,
+        ["Header", "Footer"]
+      ),
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "invalidRenderReturn",
+          data: {
+            expected: "Header",
+            actual: "Footer",
+          },
+          line: 12,
+        },
+      ],
+    },
+    {
+      name: "static property compound member returns wrong component",
+      code: withComponents(
+        `
+        function TabsRoot({ children }: { children: React.ReactNode }) {
+          return <div>{children}</div>;
+        }
+
+        /** @renders {Tab} */
+        TabsRoot.Tab = function Tab() {
+          return <Footer />;
+        };
+      `,
+        ["Tab", "Footer"]
+      ),
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "invalidRenderReturn",
+          data: {
+            expected: "Tab",
+            actual: "Footer",
+          },
+        },
+      ],
+    },
+    {
+      name: "compound member chain with wrong target",
+      code: withComponents(
+        `
+        const Menu = {
+          /** @renders {MenuItem} */
+          Item: () => <MenuItem />,
+        };
+
+        /** @renders {Tab} */
+        function Home() {
+          return <Menu.Item />;
+        }
+      `,
+        ["MenuItem", "Tab"]
+      ),
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "invalidRenderReturn",
+          data: {
+            expected: "Tab",
+            actual: "Menu.Item",
+          },
+        },
+      ],
+    },
   ],
 });
@@ -305,5 +305,111 @@ ruleTester.run("valid-renders-jsdoc", rule, {
         },
       ],
     },
+    // Errors point at the offending part of the annotation
+    {
+      name: "missing braces reported at the component name",
+      code: `
+        /** @renders Header */
+        function MyHeader() {
+          return <Header />;
+        }
+      `,
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "missingBraces",
+          line: 2,
+          column: 22,
+          endLine: 2,
+          endColumn: 28,
+        },
+      ],
+    },
+    // Lowercase member in a union
+    {
+      name: "lowercase component name in union",
+      code: `
+        declare const Header: React.FC<any>;
+        /** @renders {Header | footer} */
+        function MySection() {
+          return <Header />;
+        }
+      `,
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "lowercaseComponent",
+          data: {
+            componentName: "footer",
+            suggestion: "Component names must be PascalCase. Did you mean @renders {Header | Footer}?",
+          },
+          line: 3,
+          column: 32,
+        },
+      ],
+    },
+    // Trailing union operator
+    {
+      name: "union with missing member",
+      code: `
+        declare const Header: React.FC<any>;
+        /** @renders {Header | } */
+        function MySection() {
+          return <Header />;
+        }
+      `,
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "malformedAnnotation",
+          data: {
+            suggestion: "Expected a component name before '}'",
+          },
+        },
+      ],
+    },
+    // Missing closing brace
+    {
+      name: "missing closing brace",
+      code: `
+        declare const Header: React.FC<any>;
+        /** @renders {Header */
+        function MyHeader() {
+          return <Header />;
+        }
+      `,
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "malformedAnnotation",
+          data: {
+            suggestion: "Missing closing brace. Use: @renders {ComponentName}",
+          },
+        },
+      ],
+    },
+    // Every union member is checked for resolution
+    {
+      name: "unresolved second union member",
+      code: `
+        declare const Header: React.FC<any>;
+        /** @renders {Header | Missing} */
+        function MySection() {
+          return <Header />;
+        }
+      `,
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "unresolvedComponent",
+          data: {
+            componentName: "Missing",
+          },
+          line: 3,
+          column: 32,
+          endColumn: 39,
+        },
+      ],
+    },
   ],
 });
@@ -0,0 +1,442 @@
+import { RuleTester } from "@typescript-eslint/rule-tester";
+import * as vitest from "vitest";
+import rule from "../../src/rules/valid-transparent-annotation.js";
+
+// Configure rule tester to use vitest
+RuleTester.afterAll = vitest.afterAll;
+RuleTester.it = vitest.it;
+RuleTester.itOnly = vitest.it.only;
+RuleTester.itSkip = vitest.it.skip;
+RuleTester.describe = vitest.describe;
+RuleTester.describeSkip = vitest.describe.skip;
+
+const ruleTester = new RuleTester({
+  languageOptions: {
+    parserOptions: {
+      ecmaFeatures: { jsx: true },
+      projectService: {
+        allowDefaultProject: ["*.tsx"],
+      },
+    },
+  },
+});
+
+ruleTester.run("valid-transparent-annotation", rule, {
+  valid: [
+    {
+      name: "bare @transparent rendering destructured children",
+      code: `
+        /** @transparent */
+        function Wrapper({ children }: { children: unknown }) {
+          return <div>{children}</div>;
+        }
+      `,
+      filename: "test.tsx",
+    },
+    {
+      name: "children read from the props object",
+      code: `
+        /** @transparent */
+        const Wrapper = (props: { children: unknown }) => <section>{props.children}</section>;
+      `,
+      filename: "test.tsx",
+    },
+    {
+      name: "children returned directly",
+      code: `
+        /** @transparent */
+        function Passthrough({ children }: { children: unknown }) {
+          return children;
+        }
+      `,
+      filename: "test.tsx",
+    },
+    {
+      name: "prop list rendered as a child and passed to a transparent prop",
+      code: `
+        /** @transparent {fallback, children} */
+        function Gate({ fallback, children }: { fallback: unknown; children: unknown }) {
+          return <>{fallback}{children}</>;
+        }
+
+        /** @transparent {off, children} */
+        function FeatureFlag({ off, children }: { off: unknown; children: unknown }) {
+          return <Gate fallback={off}>{children}</Gate>;
+        }
+      `,
+      filename: "test.tsx",
+    },
+    {
+      name: "prop rendered through a local variable",
+      code: `
+        /** @transparent {content} */
+        function Slot({ content, fallback }: { content: unknown; fallback: unknown }) {
+          const body = content ?? fallback;
+          return <div>{body}</div>;
+        }
+      `,
+      filename: "test.tsx",
+    },
+    {
+      name: "prop rendered inside a callback",
+      code: `
+        /** @transparent {items} */
+        function List({ items }: { items: unknown[] }) {
+          return <ul>{items.map((item) => <li>{item}</li>)}</ul>;
+        }
+      `,
+      filename: "test.tsx",
+    },
+    {
+      name: "prop rendered from either branch of a conditional",
+      code: `
+        /** @transparent {on, off} */
+        function FeatureFlag({ enabled, on, off }: { enabled: boolean; on: unknown; off: unknown }) {
+          return <div>{enabled ? on : off}</div>;
+        }
+      `,
+      filename: "test.tsx",
+    },
+    {
+      name: "prop rendered as the value side of a logical expression",
+      code: `
+        /** @transparent {children, fallback} */
+        function Slot({ show, children, fallback }: { show: boolean; children: unknown; fallback: unknown }) {
+          return <div>{show && children}{children || fallback}</div>;
+        }
+      `,
+      filename: "test.tsx",
+    },
+    {
+      name: "props destructured in the body",
+      code: `
+        /** @transparent */
+        function Wrapper(props: { children: unknown }) {
+          const { children } = props;
+          return <>{children}</>;
+        }
+      `,
+      filename: "test.tsx",
+    },
+    {
+      name: "props spread into JSX render every prop",
+      code: `
+        /** @transparent */
+        function Box(props: { children: unknown; id: string }) {
+          return <div {...props} />;
+        }
+      `,
+      filename: "test.tsx",
+    },
+    {
+      name: "rest props spread into JSX",
+      code: `
+        /** @transparent */
+        function Box({ id, ...rest }: { children: unknown; id: string }) {
+          return <div id={id} {...rest} />;
+        }
+      `,
+      filename: "test.tsx",
+    },
+    {
+      name: "prop rendered with createElement",
+      code: `
+        import { createElement } from "react";
+        /** @transparent */
+        function Wrapper({ children }: { children: unknown }) {
+          return createElement("div", null, children);
+        }
+      `,
+      filename: "test.tsx",
+    },
+    {
+      name: "props type that can't be resolved skips the existence check",
+      code: `
+        /** @transparent {content} */
+        function Wrapper(props: any) {
+          return <div>{props.content}</div>;
+        }
+      `,
+      filename: "test.tsx",
+    },
+    {
+      name: "props type with an index signature",
+      code: `
+        /** @transparent {anything} */
+        function Wrapper(props: Record<string, unknown>) {
+          return <div>{props.anything}</div>;
+        }
+      `,
+      filename: "test.tsx",
+    },
+    {
+      name: "prop from one member of a union props type",
+      code: `
+        type Props = { kind: "a"; children: unknown } | { kind: "b"; label: string };
+        /** @transparent */
+        function Wrapper(props: Props) {
+          return <div>{"children" in props ? props.children : props.label}</div>;
+        }
+      `,
+      filename: "test.tsx",
+    },
+    {
+      name: "forwardRef component",
+      code: `
+        import { forwardRef } from "react";
+        /** @transparent */
+        const Wrapper = forwardRef(({ children }: { children: unknown }, ref: unknown) => (
+          <div>{children}</div>
+        ));
+      `,
+      filename: "test.tsx",
+    },
+    {
+      name: "class component rendering this.props.children",
+      code: `
+        import { Component } from "react";
+        /** @transparent */
+        class Boundary extends Component<{ children: unknown }> {
+          render() {
+            return this.props.children;
+          }
+        }
+      `,
+      filename: "test.tsx",
+    },
+    {
+      name: "class component rendering a prop from a helper method",
+      code: `
+        import { Component } from "react";
+        /** @transparent {fallback} */
+        class Boundary extends Component<{ fallback: unknown }> {
+          renderFallback() {
+            const { fallback } = this.props;
+            return <div>{fallback}</div>;
+          }
+          render() {
+            return this.renderFallback();
+          }
+        }
+      `,
+      filename: "test.tsx",
+    },
+    {
+      name: "components without @transparent are ignored",
+      code: `
+        /** @renders {Header} */
+        function MyHeader({ children }: { children: unknown }) {
+          return <Header />;
+        }
+      `,
+      filename: "test.tsx",
+    },
+  ],
+  invalid: [
+    {
+      name: "misspelled prop name",
+      code: `
+        /** @transparent {chidlren} */
+        function Wrapper({ children }: { children: unknown }) {
+          return <div>{children}</div>;
+        }
+      `,
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "unknownProp",
+          data: { propName: "chidlren", componentName: "Wrapper" },
+          line: 2,
+          column: 27,
+          endColumn: 35,
+        },
+      ],
+    },
+    {
+      name: "prop missing from the props type",
+      code: `
+        /** @transparent {off, children} */
+        function FeatureFlag({ children }: { children: unknown }) {
+          return <div>{children}</div>;
+        }
+      `,
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "unknownProp",
+          data: { propName: "off", componentName: "FeatureFlag" },
+          column: 27,
+          endColumn: 30,
+        },
+      ],
+    },
+    {
+      name: "bare @transparent on a component without props",
+      code: `
+        /** @transparent */
+        function Wrapper() {
+          return <div />;
+        }
+      `,
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "unknownProp",
+          data: { propName: "children", componentName: "Wrapper" },
+          column: 13,
+          endColumn: 25,
+        },
+      ],
+    },
+    {
+      name: "prop that is never rendered",
+      code: `
+        /** @transparent {off, children} */
+        function FeatureFlag({ off, children }: { off: unknown; children: unknown }) {
+          console.log(off);
+          return <div>{children}</div>;
+        }
+      `,
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "unrenderedProp",
+          data: { propName: "off", componentName: "FeatureFlag" },
+        },
+      ],
+    },
+    {
+      name: "prop passed to an attribute that isn't transparent",
+      code: `
+        /** @transparent {off, children} */
+        function FeatureFlag({ off, children }: { off: boolean; children: unknown }) {
+          return <div hidden={off}>{children}</div>;
+        }
+      `,
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "unrenderedProp",
+          data: { propName: "off", componentName: "FeatureFlag" },
+        },
+      ],
+    },
+    {
+      name: "prop used as the test of a conditional",
+      code: `
+        /** @transparent {off} */
+        function FeatureFlag({ off }: { off: boolean }) {
+          return <div>{off ? <A /> : null}</div>;
+        }
+      `,
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "unrenderedProp",
+          data: { propName: "off", componentName: "FeatureFlag" },
+        },
+      ],
+    },
+    {
+      name: "prop whose member is rendered",
+      code: `
+        /** @transparent */
+        function Count({ children }: { children: unknown[] }) {
+          return <span>{children.length}</span>;
+        }
+      `,
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "unrenderedProp",
+          data: { propName: "children", componentName: "Count" },
+        },
+      ],
+    },
+    {
+      name: "prop passed to a call whose result is rendered",
+      code: `
+        /** @transparent {off} */
+        function FeatureFlag({ off }: { off: boolean }) {
+          return <span>{String(off)}</span>;
+        }
+      `,
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "unrenderedProp",
+          data: { propName: "off", componentName: "FeatureFlag" },
+        },
+      ],
+    },
+    {
+      name: "children accepted but not rendered",
+      code: `
+        /** @transparent */
+        const Wrapper = (props: { children: unknown }) => <div />;
+      `,
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "unrenderedProp",
+          data: { propName: "children", componentName: "Wrapper" },
+        },
+      ],
+    },
+    {
+      name: "class component that doesn't render its children",
+      code: `
+        import { Component } from "react";
+        /** @transparent */
+        class Boundary extends Component<{ children: unknown }> {
+          render() {
+            return <div />;
+          }
+        }
+      `,
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "unrenderedProp",
+          data: { propName: "children", componentName: "Boundary" },
+        },
+      ],
+    },
+    {
+      name: "@transparent alongside @renders",
+      code: `
+        /**
+         * @transparent
+         * @renders {Header}
+         */
+        function Wrapper({ children }: { children: unknown }) {
+          return <div>{children}</div>;
+        }
+      `,
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "transparentWithRenders",
+          data: { componentName: "Wrapper" },
+          line: 3,
+        },
+      ],
+    },
+    {
+      name: "anonymous default export",
+      code: `
+        /** @transparent {slot} */
+        export default function ({ children }: { children: unknown }) {
+          return <div>{children}</div>;
+        }
+      `,
+      filename: "test.tsx",
+      errors: [
+        {
+          messageId: "unknownProp",
+          data: { propName: "slot", componentName: "default export" },
+        },
+      ],
+    },
+  ],
+});
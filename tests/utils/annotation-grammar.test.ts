@@ -0,0 +1,262 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatRendersAnnotation,
+  formatRendersTag,
+  getTypeReferences,
+  parseRendersAnnotations,
+  tokenizeRendersAnnotation,
+} from "../../src/utils/annotation-grammar.cjs";
+
+/** Slice the text covered by a span */
+function textOf(text: string, span: { start: number; end: number }): string {
+  return text.slice(span.start, span.end);
+}
+
+describe("tokenizeRendersAnnotation", () => {
+  it("tokenizes a union annotation with modifiers", () => {
+    const text = "/** @renders?! {Menu.Item | Footer} */";
+    const tokens = tokenizeRendersAnnotation(text, text.indexOf("@"));
+    expect(tokens.map((t) => t.kind)).toEqual([
+      "Tag",
+      "Question",
+      "Bang",
+      "OpenBrace",
+      "Identifier",
+      "Dot",
+      "Identifier",
+      "Pipe",
+      "Identifier",
+      "CloseBrace",
+    ]);
+    expect(tokens.map((t) => t.text).join("")).toBe("@renders?!{Menu.Item|Footer}");
+  });
+
+  it("stops at the end of the line outside braces", () => {
+    const text = "@renders\nHeader";
+    const tokens = tokenizeRendersAnnotation(text, 0);
+    expect(tokens.map((t) => t.kind)).toEqual(["Tag", "EndOfLine"]);
+  });
+
+  it("stops at the comment terminator", () => {
+    const text = "/** @renders {Header */";
+    const tokens = tokenizeRendersAnnotation(text, text.indexOf("@"));
+    expect(tokens[tokens.length - 1].kind).toBe("EndOfInput");
+    expect(tokens[tokens.length - 1].start).toBe(text.indexOf("*/"));
+  });
+
+  it("treats JSDoc line prefixes inside braces as whitespace", () => {
+    const text = "@renders {Header |\n *   Footer}";
+    const tokens = tokenizeRendersAnnotation(text, 0);
+    expect(tokens.filter((t) => t.kind === "Identifier").map((t) => t.text)).toEqual([
+      "Header",
+      "Footer",
+    ]);
+  });
+
+  it("keeps digits glued to identifier characters in one token", () => {
+    const tokens = tokenizeRendersAnnotation("@renders {123Header}", 0);
+    expect(tokens[2]).toMatchObject({ kind: "Unknown", text: "123Header" });
+  });
+});
+
+describe("parseRendersAnnotations", () => {
+  describe("annotation AST", () => {
+    it("records spans for the tag, modifier, braces and component name", () => {
+      const text = "/** @renders* {Header} */";
+      const [result] = parseRendersAnnotations(text);
+      const annotation = result.annotation!;
+
+      expect(annotation.modifier).toBe("many");
+      expect(annotation.unchecked).toBe(false);
+      expect(textOf(text, annotation.tag)).toBe("@renders");
+      expect(textOf(text, annotation.modifierSpan!)).toBe("*");
+      expect(annotation.uncheckedSpan).toBeNull();
+      expect(textOf(text, annotation.openBrace)).toBe("{");
+      expect(textOf(text, annotation.closeBrace)).toBe("}");
+      expect(textOf(text, annotation)).toBe("@renders* {Header}");
+      expect(annotation.typeExpression).toMatchObject({
+        type: "Reference",
+        name: "Header",
+      });
+      expect(textOf(text, annotation.typeExpression)).toBe("Header");
+    });
+
+    it("records the unchecked marker", () => {
+      const text = "/** @renders?! {Header} */";
+      const annotation = parseRendersAnnotations(text)[0].annotation!;
+      expect(annotation.modifier).toBe("optional");
+      expect(annotation.unchecked).toBe(true);
+      expect(textOf(text, annotation.uncheckedSpan!)).toBe("!");
+    });
+
+    it("builds a union node with operator spans", () => {
+      const text = "/** @renders {Header | Menu.Item} */";
+      const annotation = parseRendersAnnotations(text)[0].annotation!;
+      const union = annotation.typeExpression;
+
+      expect(union.type).toBe("Union");
+      if (union.type !== "Union") return;
+      expect(union.members.map((m) => m.name)).toEqual(["Header", "Menu.Item"]);
+      expect(union.operators.map((op) => textOf(text, op))).toEqual(["|"]);
+      expect(textOf(text, union)).toBe("Header | Menu.Item");
+    });
+
+    it("records a span for every segment of a namespaced name", () => {
+      const text = "@renders {UI.Menu.Item}";
+      const reference = getTypeReferences(
+        parseRendersAnnotations(text)[0].annotation!.typeExpression
+      )[0];
+      expect(reference.segments.map((s) => textOf(text, s))).toEqual(["UI", "Menu", "Item"]);
+      expect(textOf(text, reference)).toBe("UI.Menu.Item");
+    });
+
+    it("parses a union that spans lines", () => {
+      const text = `/**
+ * @renders {Header |
+ *   Footer}
+ */`;
+      const annotation = parseRendersAnnotations(text)[0].annotation!;
+      expect(getTypeReferences(annotation.typeExpression).map((r) => r.name)).toEqual([
+        "Header",
+        "Footer",
+      ]);
+    });
+
+    it("parses every tag occurrence in the text", () => {
+      const text = `
+        /** @renders {Header} */
+        function A() {}
+        /** @renders? {Footer} */
+        function B() {}
+      `;
+      const results = parseRendersAnnotations(text);
+      expect(results.map((r) => r.annotation?.modifier)).toEqual(["required", "optional"]);
+    });
+  });
+
+  describe("tag boundaries", () => {
+    it("ignores tags inside words", () => {
+      expect(parseRendersAnnotations("/** pre@renders {Header} */")).toEqual([]);
+    });
+
+    it("ignores longer tag names", () => {
+      expect(parseRendersAnnotations("/** @renders-any */")).toEqual([]);
+      expect(parseRendersAnnotations("/** @rendersFoo {Header} */")).toEqual([]);
+    });
+
+    it("ignores prose that mentions the tag", () => {
+      expect(parseRendersAnnotations("/** Uses @renders annotations for slots */")).toEqual([]);
+    });
+  });
+
+  describe("parse errors", () => {
+    function errorsOf(text: string) {
+      const [result] = parseRendersAnnotations(text);
+      expect(result.annotation).toBeNull();
+      return result.errors.map((e) => ({ ...e, text: textOf(text, e) }));
+    }
+
+    it("reports missing braces with a suggestion", () => {
+      expect(errorsOf("/** @renders? Menu.Item */")).toEqual([
+        expect.objectContaining({
+          code: "missingBraces",
+          suggestion: "@renders? {Menu.Item}",
+          text: "Menu.Item",
+        }),
+      ]);
+    });
+
+    it("reports a tag without a type", () => {
+      expect(errorsOf("/** @renders */")).toEqual([
+        expect.objectContaining({ code: "missingType" }),
+      ]);
+    });
+
+    it("reports empty braces", () => {
+      expect(errorsOf("/** @renders {  } */")).toEqual([
+        expect.objectContaining({ code: "emptyType", text: "{  }" }),
+      ]);
+    });
+
+    it("reports each lowercase name with a corrected annotation", () => {
+      expect(errorsOf("/** @renders* {Header | footer} */")).toEqual([
+        expect.objectContaining({
+          code: "lowercaseComponent",
+          componentName: "footer",
+          suggestion: "@renders* {Header | Footer}",
+          text: "footer",
+        }),
+      ]);
+    });
+
+    it("reports names starting with a digit", () => {
+      expect(errorsOf("/** @renders {123Header} */")).toEqual([
+        expect.objectContaining({ code: "invalidComponentName", text: "123Header" }),
+      ]);
+    });
+
+    it("reports a missing union member", () => {
+      expect(errorsOf("/** @renders {Header | } */")).toEqual([
+        expect.objectContaining({ code: "expectedComponent", text: "}" }),
+      ]);
+    });
+
+    it("reports a dangling dot", () => {
+      expect(errorsOf("/** @renders {Menu.} */")).toEqual([
+        expect.objectContaining({ code: "expectedComponent", text: ".}" }),
+      ]);
+    });
+
+    it("reports members without a separator", () => {
+      expect(errorsOf("/** @renders {Header Footer} */")).toEqual([
+        expect.objectContaining({ code: "unexpectedToken", text: "Footer" }),
+      ]);
+    });
+
+    it("reports unexpected characters", () => {
+      expect(errorsOf("/** @renders {Header<Props>} */")).toEqual([
+        expect.objectContaining({ code: "unexpectedToken", text: "<" }),
+      ]);
+    });
+
+    it("reports a missing closing brace", () => {
+      expect(errorsOf("/** @renders {Header */")).toEqual([
+        expect.objectContaining({ code: "unterminatedBraces", text: "{Header " }),
+      ]);
+    });
+
+    it("reports misplaced modifiers", () => {
+      expect(errorsOf("/** @renders!? {Header} */")).toEqual([
+        expect.objectContaining({ code: "unexpectedToken", text: "?" }),
+      ]);
+    });
+
+    it("keeps well-formed references when the annotation has errors", () => {
+      const [result] = parseRendersAnnotations("/** @renders {Header | } */");
+      expect(result.references.map((r) => r.name)).toEqual(["Header"]);
+    });
+
+    it("exposes the body span of an unterminated annotation", () => {
+      const text = "/** @renders {Hea\n */";
+      const [result] = parseRendersAnnotations(text);
+      expect(textOf(text, result.body!).trim()).toBe("Hea");
+    });
+  });
+});
+
+describe("formatRendersAnnotation", () => {
+  it("formats modifiers and unions", () => {
+    expect(formatRendersAnnotation("required", false, ["Header"])).toBe("@renders {Header}");
+    expect(formatRendersAnnotation("many", true, ["Header", "Footer"])).toBe(
+      "@renders*! {Header | Footer}"
+    );
+  });
+});
+
+describe("formatRendersTag", () => {
+  it("formats the tag with its modifier and unchecked marker", () => {
+    expect(formatRendersTag("required", false)).toBe("@renders");
+    expect(formatRendersTag("optional", false)).toBe("@renders?");
+    expect(formatRendersTag("many", true)).toBe("@renders*!");
+  });
+});
@@ -0,0 +1,61 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  clearManifestCache,
+  readPackageManifest,
+} from "../../src/utils/annotation-manifest.js";
+
+describe("readPackageManifest", () => {
+  let packageDir: string;
+
+  function writeManifest(renders: string, modifiedTime: Date): void {
+    const manifestPath = path.join(packageDir, "render-types.json");
+    fs.writeFileSync(
+      manifestPath,
+      JSON.stringify({ "@acme/ui": { CardTitle: { renders } } })
+    );
+    fs.utimesSync(manifestPath, modifiedTime, modifiedTime);
+  }
+
+  function readCardTitleTarget(): string | undefined {
+    const manifest = readPackageManifest(`${packageDir.replace(/\\/g, "/")}/dist/index.d.ts`);
+    return manifest?.get("@acme/ui")?.get("CardTitle")?.renders?.componentName;
+  }
+
+  beforeEach(() => {
+    clearManifestCache();
+    packageDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "render-types-manifest-")));
+    fs.mkdirSync(path.join(packageDir, "dist"));
+    fs.writeFileSync(path.join(packageDir, "package.json"), '{ "name": "@acme/ui" }');
+  });
+
+  afterEach(() => {
+    fs.rmSync(packageDir, { recursive: true, force: true });
+  });
+
+  it("reads render-types.json next to the nearest package.json", () => {
+    writeManifest("@renders {CardHeader}", new Date(2024, 0, 1));
+    expect(readCardTitleTarget()).toBe("CardHeader");
+  });
+
+  it("returns null when the package has no manifest", () => {
+    expect(readPackageManifest(`${packageDir.replace(/\\/g, "/")}/dist/index.d.ts`)).toBeNull();
+  });
+
+  it("re-reads the manifest when it changes", () => {
+    writeManifest("@renders {CardHeader}", new Date(2024, 0, 1));
+    expect(readCardTitleTarget()).toBe("CardHeader");
+
+    writeManifest("@renders {CardHeading}", new Date(2024, 0, 2));
+    expect(readCardTitleTarget()).toBe("CardHeading");
+  });
+
+  it("picks up a manifest added after the package was first read", () => {
+    expect(readCardTitleTarget()).toBeUndefined();
+
+    writeManifest("@renders {CardHeader}", new Date(2024, 0, 1));
+    expect(readCardTitleTarget()).toBe("CardHeader");
+  });
+});
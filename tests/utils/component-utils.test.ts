@@ -2,6 +2,9 @@ import { describe, it, expect } from "vitest";
 import {
   isComponentName,
   getJSXElementName,
+  isCreateElementCall,
+  getCreateElementName,
+  getCreateElementChildren,
 } from "../../src/utils/component-utils.js";
 
 describe("isComponentName", () => {
@@ -140,3 +143,87 @@ describe("getJSXElementName", () => {
     });
   });
 });
+
+describe("createElement calls", () => {
+  // Mock AST nodes, as for getJSXElementName. Factories are only recognized
+  // when imported from React, so calls are placed in a program with imports.
+  const identifier = (name: string) => ({ type: "Identifier", name });
+  const member = (object: object, property: string) => {
+    const node = { type: "MemberExpression", computed: false, object, property: identifier(property) };
+    Object.assign(object, { parent: node });
+    return node;
+  };
+  const call = (callee: object, ...args: object[]) => {
+    const node = { type: "CallExpression", callee, arguments: args };
+    Object.assign(callee, { parent: node });
+    return node;
+  };
+  const importDeclaration = (source: string, ...specifiers: object[]) => ({
+    type: "ImportDeclaration",
+    source: { type: "Literal", value: source },
+    specifiers,
+  });
+  const named = (name: string, local = name) => ({
+    type: "ImportSpecifier",
+    imported: identifier(name),
+    local: identifier(local),
+  });
+  const defaultImport = (local: string) => ({ type: "ImportDefaultSpecifier", local: identifier(local) });
+  const inProgram = <T extends object>(node: T, ...imports: object[]): T => {
+    Object.assign(node, { parent: { type: "Program", body: imports } });
+    return node;
+  };
+
+  it("should recognize createElement and jsx-runtime factories", () => {
+    const react = importDeclaration("react", defaultImport("React"), named("createElement"));
+    const runtime = importDeclaration("react/jsx-runtime", named("jsxs"), named("jsx", "_jsx"));
+
+    expect(isCreateElementCall(inProgram(call(member(identifier("React"), "createElement")), react) as any)).toBe(true);
+    expect(isCreateElementCall(inProgram(call(identifier("createElement")), react) as any)).toBe(true);
+    expect(isCreateElementCall(inProgram(call(identifier("jsxs")), runtime) as any)).toBe(true);
+    expect(isCreateElementCall(inProgram(call(identifier("_jsx")), runtime) as any)).toBe(true);
+    expect(isCreateElementCall(inProgram(call(identifier("render")), react) as any)).toBe(false);
+  });
+
+  it("should not recognize same-named functions that aren't imported from React", () => {
+    const react = importDeclaration("react", defaultImport("React"));
+    const other = importDeclaration("./dom", named("createElement"), defaultImport("Dom"));
+
+    expect(isCreateElementCall(inProgram(call(member(identifier("document"), "createElement")), react) as any)).toBe(false);
+    expect(isCreateElementCall(inProgram(call(member(identifier("Dom"), "createElement")), other) as any)).toBe(false);
+    expect(isCreateElementCall(inProgram(call(identifier("createElement")), other) as any)).toBe(false);
+    expect(isCreateElementCall(inProgram(call(identifier("jsx")), react) as any)).toBe(false);
+  });
+
+  it("should return the element name from the type argument", () => {
+    const node = call(identifier("jsx"), member(member(identifier("UI"), "Menu"), "Item"));
+    expect(getCreateElementName(node as any)).toBe("UI.Menu.Item");
+    expect(getCreateElementName(call(identifier("createElement"), { type: "Literal", value: "div" }) as any)).toBe("div");
+  });
+
+  it("should prefer positional children and flatten children arrays", () => {
+    const react = importDeclaration("react", named("createElement"));
+    const runtime = importDeclaration("react/jsx-runtime", named("jsxs"));
+    const header = call(identifier("createElement"), identifier("Header"));
+    const footer = call(identifier("createElement"), identifier("Footer"));
+    const positional = inProgram(
+      call(identifier("createElement"), identifier("Layout"), { type: "Literal", value: null }, header, footer),
+      react
+    );
+    expect(getCreateElementChildren(positional as any)).toEqual([header, footer]);
+
+    const viaProps = inProgram(call(identifier("jsxs"), identifier("Layout"), {
+      type: "ObjectExpression",
+      properties: [
+        {
+          type: "Property",
+          computed: false,
+          method: false,
+          key: identifier("children"),
+          value: { type: "ArrayExpression", elements: [header, footer] },
+        },
+      ],
+    }), runtime);
+    expect(getCreateElementChildren(viaProps as any)).toEqual([header, footer]);
+  });
+});
@@ -1,6 +1,11 @@
-import { describe, it, expect, beforeEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import ts from "typescript";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
 import {
   clearAnnotationCache,
+  createCrossFileResolver,
 } from "../../src/utils/cross-file-resolver.js";
 
 describe("cross-file-resolver", () => {
@@ -66,4 +71,129 @@ describe("cross-file-resolver", () => {
   //   function MyLayout() {
   //     return <Header />;  // Valid - Header is in LayoutComponent union
   //   }
+
+  describe("cache invalidation", () => {
+    let projectDir: string;
+
+    const compilerOptions: ts.CompilerOptions = {
+      jsx: ts.JsxEmit.ReactJSX,
+      module: ts.ModuleKind.ESNext,
+      moduleResolution: ts.ModuleResolutionKind.Bundler,
+      noEmit: true,
+    };
+
+    function writeFile(name: string, text: string): void {
+      fs.writeFileSync(path.join(projectDir, name), text);
+    }
+
+    function getTitleTarget(program: ts.Program): string | undefined {
+      const resolver = createCrossFileResolver({
+        parserServices: { program },
+        filename: path.join(projectDir, "consumer.tsx"),
+      });
+      const typeId = resolver.getComponentTypeId("Title");
+      return typeId
+        ? resolver.buildResolvedRenderMap(new Map()).get(typeId)?.componentName
+        : undefined;
+    }
+
+    beforeEach(() => {
+      projectDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "render-types-cache-")));
+      writeFile("Header.tsx", "export function Header() { return <h1 />; }\n");
+      writeFile("Footer.tsx", "export function Footer() { return <footer />; }\n");
+      writeFile("consumer.tsx", 'import { Title } from "./Title";\n\nexport const page = <Title />;\n');
+    });
+
+    afterEach(() => {
+      fs.rmSync(projectDir, { recursive: true, force: true });
+    });
+
+    it("picks up edited annotations in dependencies when the program changes", () => {
+      writeFile(
+        "Title.tsx",
+        'import { Header } from "./Header";\n\n/** @renders {Header} */\nexport function Title() { return <Header />; }\n'
+      );
+      const rootNames = [path.join(projectDir, "consumer.tsx")];
+      const first = ts.createProgram(rootNames, compilerOptions);
+      expect(getTitleTarget(first)).toBe("Header");
+
+      writeFile(
+        "Title.tsx",
+        'import { Footer } from "./Footer";\n\n/** @renders {Footer} */\nexport function Title() { return <Footer />; }\n'
+      );
+      const second = ts.createProgram(rootNames, compilerOptions, undefined, first);
+      expect(getTitleTarget(second)).toBe("Footer");
+
+      // The previous program keeps its own, still consistent, cache
+      expect(getTitleTarget(first)).toBe("Header");
+    });
+  });
+
+  describe("default exports", () => {
+    let projectDir: string;
+
+    const compilerOptions: ts.CompilerOptions = {
+      jsx: ts.JsxEmit.ReactJSX,
+      module: ts.ModuleKind.ESNext,
+      moduleResolution: ts.ModuleResolutionKind.Bundler,
+      noEmit: true,
+    };
+
+    function writeFile(name: string, text: string): void {
+      fs.writeFileSync(path.join(projectDir, name), text);
+    }
+
+    function createResolver(program: ts.Program, fileName: string) {
+      return createCrossFileResolver({
+        parserServices: { program },
+        filename: path.join(projectDir, fileName),
+      });
+    }
+
+    beforeEach(() => {
+      projectDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "render-types-default-")));
+      writeFile("Anonymous.tsx", "export default function () { return <h1 />; }\n");
+      writeFile(
+        "Wrapped.tsx",
+        'import { memo } from "react";\n\nexport function Card() { return <div />; }\n\nexport default memo(Card);\n'
+      );
+      writeFile(
+        "consumer.tsx",
+        [
+          'import Anonymous from "./Anonymous";',
+          'import { default as Renamed } from "./Anonymous";',
+          'import * as AnonymousModule from "./Anonymous";',
+          'import WrappedCard, { Card } from "./Wrapped";',
+          "",
+        ].join("\n")
+      );
+    });
+
+    afterEach(() => {
+      fs.rmSync(projectDir, { recursive: true, force: true });
+    });
+
+    it("gives anonymous default exports one identity however they're imported", () => {
+      const program = ts.createProgram([path.join(projectDir, "consumer.tsx")], compilerOptions);
+      const consumer = createResolver(program, "consumer.tsx");
+      const typeId = `${projectDir}/Anonymous.tsx:default`;
+
+      expect(consumer.getComponentTypeId("Anonymous")).toBe(typeId);
+      expect(consumer.getComponentTypeId("Renamed")).toBe(typeId);
+      expect(consumer.getComponentTypeId("AnonymousModule.default")).toBe(typeId);
+
+      // Local name of the anonymous default export in its own file
+      expect(createResolver(program, "Anonymous.tsx").getComponentTypeId("default")).toBe(typeId);
+    });
+
+    it("gives wrapped default exports the identity of the component they wrap", () => {
+      const program = ts.createProgram([path.join(projectDir, "consumer.tsx")], compilerOptions);
+      const consumer = createResolver(program, "consumer.tsx");
+      const typeId = `${projectDir}/Wrapped.tsx:Card`;
+
+      expect(consumer.getComponentTypeId("WrappedCard")).toBe(typeId);
+      expect(consumer.getComponentTypeId("Card")).toBe(typeId);
+      expect(createResolver(program, "Wrapped.tsx").getComponentTypeId("default")).toBe(typeId);
+    });
+  });
 });
@@ -0,0 +1,150 @@
+import path from "node:path";
+import { Linter } from "eslint";
+import type { Rule } from "eslint";
+import parser from "@typescript-eslint/parser";
+import { describe, it, expect, beforeEach } from "vitest";
+import { getFileAnalysis } from "../../src/utils/file-analysis.js";
+import type { FileAnalysis } from "../../src/utils/file-analysis.js";
+import { clearAnnotationCache } from "../../src/utils/cross-file-resolver.js";
+
+const fixturesDir = path.resolve(__dirname, "../fixtures/cross-file-props");
+
+/**
+ * Lint code with rules that only record the analysis they get
+ */
+function collectAnalyses(
+  code: string,
+  ruleCount: number,
+  settings: Record<string, unknown> = {}
+): FileAnalysis[] {
+  const analyses: FileAnalysis[] = [];
+  const rules: Record<string, Rule.RuleModule> = {};
+  for (let i = 0; i < ruleCount; i++) {
+    rules[`rule-${i}`] = {
+      create(context) {
+        return {
+          "Program:exit"() {
+            analyses.push(getFileAnalysis(context as never));
+          },
+        };
+      },
+    };
+  }
+
+  const linter = new Linter({ configType: "flat" });
+  const messages = linter.verify(
+    code,
+    [
+      {
+        files: ["**/*.tsx"],
+        languageOptions: {
+          parser: parser as never,
+          parserOptions: {
+            ecmaFeatures: { jsx: true },
+            projectService: {
+              allowDefaultProject: ["consumer.tsx"],
+              defaultProject: "tsconfig.json",
+            },
+            tsconfigRootDir: fixturesDir,
+          },
+        },
+        plugins: { analysis: { rules } },
+        rules: Object.fromEntries(Object.keys(rules).map((name) => [`analysis/${name}`, "error"])),
+        settings,
+      },
+    ],
+    { filename: path.join(fixturesDir, "consumer.tsx") }
+  );
+
+  expect(messages).toEqual([]);
+  return analyses;
+}
+
+describe("getFileAnalysis", () => {
+  beforeEach(() => {
+    clearAnnotationCache();
+  });
+
+  it("shares one analysis between all rules linting a file", () => {
+    const analyses = collectAnalyses(`export const page = <div />;`, 3);
+
+    expect(analyses).toHaveLength(3);
+    expect(analyses[1]).toBe(analyses[0]);
+    expect(analyses[2]).toBe(analyses[0]);
+  });
+
+  it("creates a new analysis for every lint pass", () => {
+    const [first] = collectAnalyses(`export const page = <div />;`, 1);
+    const [second] = collectAnalyses(`export const page = <div />;`, 1);
+
+    expect(second).not.toBe(first);
+  });
+
+  it("collects local components with their annotations in source order", () => {
+    const [analysis] = collectAnalyses(
+      `
+        import { NavItem } from "./NavItem";
+
+        /** @transparent */
+        export function Wrapper({ children }: { children: React.ReactNode }) {
+          return <div>{children}</div>;
+        }
+
+        /** @renders {NavItem} */
+        export const Link = () => <NavItem />;
+
+        /** @renders? {NavItem} */
+        export class Legacy {
+          render() { return null; }
+        }
+
+        function helper() {}
+      `,
+      1
+    );
+
+    expect(
+      analysis.getLocalComponents().map(({ name, renders, transparent }) => ({
+        name,
+        renders: renders?.raw ?? null,
+        transparent: transparent?.propNames ?? null,
+      }))
+    ).toEqual([
+      { name: "Wrapper", renders: null, transparent: ["children"] },
+      { name: "Link", renders: "@renders {NavItem}", transparent: null },
+      { name: "Legacy", renders: "@renders? {NavItem}", transparent: null },
+    ]);
+    expect([...analysis.getLocalRenderMap().keys()]).toEqual(["Link", "Legacy"]);
+    expect(analysis.getLocalTransparentComponents()).toEqual(new Map([["Wrapper", new Set(["children"])]]));
+  });
+
+  it("memoizes resolved maps and lookups", () => {
+    const [analysis] = collectAnalyses(
+      `
+        import { NavItem } from "./NavItem";
+
+        /** @renders {NavItem} */
+        export const Link = () => <NavItem />;
+      `,
+      1
+    );
+
+    expect(analysis.getResolvedRenderMap()).toBe(analysis.getResolvedRenderMap());
+    expect(analysis.getTransparentComponents()).toBe(analysis.getTransparentComponents());
+
+    const typeId = analysis.getComponentTypeId("NavItem");
+    expect(typeId).toBe(`${fixturesDir}/NavItem.tsx:NavItem`);
+    expect(analysis.getComponentTypeId("NavItem")).toBe(typeId);
+
+    const linkTypeId = analysis.getComponentTypeId("Link");
+    expect(analysis.getResolvedRenderMap().get(linkTypeId!)?.targetTypeId).toBe(typeId);
+  });
+
+  it("includes transparent components from settings", () => {
+    const [analysis] = collectAnalyses(`export const page = <div />;`, 1, {
+      "react-render-types": { additionalTransparentComponents: ["Slot"] },
+    });
+
+    expect(analysis.getTransparentComponents().get("Slot")).toEqual(new Set(["children"]));
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { globToRegExp, matchesAnyGlob } from "../../src/utils/glob.js";
+
+describe("globToRegExp", () => {
+  it("matches * within a single segment", () => {
+    expect(globToRegExp("src/*.tsx").test("src/Header.tsx")).toBe(true);
+    expect(globToRegExp("src/*.tsx").test("src/ui/Header.tsx")).toBe(false);
+  });
+
+  it("matches ** across segments, including none", () => {
+    const regExp = globToRegExp("src/**/*.tsx");
+    expect(regExp.test("src/Header.tsx")).toBe(true);
+    expect(regExp.test("src/ui/layout/Header.tsx")).toBe(true);
+    expect(regExp.test("lib/Header.tsx")).toBe(false);
+  });
+
+  it("matches a trailing ** against everything below a directory", () => {
+    expect(globToRegExp("src/registry/**").test("src/registry/icons/index.tsx")).toBe(true);
+    expect(globToRegExp("src/registry/**").test("src/registryx.tsx")).toBe(false);
+  });
+
+  it("matches ? and {a,b}", () => {
+    expect(globToRegExp("v?/*.{ts,tsx}").test("v2/index.tsx")).toBe(true);
+    expect(globToRegExp("v?/*.{ts,tsx}").test("v2/index.js")).toBe(false);
+    expect(globToRegExp("v?/*.{ts,tsx}").test("v10/index.ts")).toBe(false);
+  });
+
+  it("escapes regular expression characters", () => {
+    expect(globToRegExp("a.b(c)").test("a.b(c)")).toBe(true);
+    expect(globToRegExp("a.b(c)").test("axb(c)")).toBe(false);
+  });
+});
+
+describe("matchesAnyGlob", () => {
+  it("matches relative patterns against the path relative to cwd", () => {
+    expect(matchesAnyGlob("/repo/src/registry/Icons.tsx", ["src/registry/**"], "/repo")).toBe(true);
+    expect(matchesAnyGlob("/repo/src/Icons.tsx", ["src/registry/**"], "/repo")).toBe(false);
+  });
+
+  it("ignores a leading ./ in patterns", () => {
+    expect(matchesAnyGlob("/repo/src/Icons.tsx", ["./src/*.tsx"], "/repo")).toBe(true);
+  });
+
+  it("matches absolute patterns against the full path", () => {
+    expect(matchesAnyGlob("/repo/src/Icons.tsx", ["/repo/src/*.tsx"], "/repo")).toBe(true);
+  });
+
+  it("normalizes Windows separators", () => {
+    expect(matchesAnyGlob("C:\\repo\\src\\Icons.tsx", ["src/*.tsx"], "C:\\repo")).toBe(true);
+  });
+
+  it("matches nothing without patterns", () => {
+    expect(matchesAnyGlob("/repo/src/Icons.tsx", [], "/repo")).toBe(false);
+  });
+});
@@ -0,0 +1,137 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import ts from "typescript";
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import {
+  generateAnnotationManifest,
+  writeAnnotationManifest,
+} from "../../src/utils/manifest-generator.js";
+import { parseAnnotationManifest } from "../../src/utils/annotation-manifest.js";
+import { runManifestCli } from "../../src/cli.js";
+
+const libraryDir = path.resolve(__dirname, "../fixtures/manifest-library");
+const project = path.join(libraryDir, "tsconfig.json");
+
+describe("generateAnnotationManifest", () => {
+  it("collects annotations for every package.json entry point", () => {
+    const result = generateAnnotationManifest({ project });
+
+    expect(result.packageDirectory).toBe(libraryDir.replace(/\\/g, "/"));
+    expect(result.manifest).toEqual({
+      "@acme/design-system": {
+        Box: { transparent: true },
+        Gate: { transparent: ["fallback", "children"] },
+        CardTitle: { renders: "@renders {CardHeader}" },
+        Card: {
+          props: {
+            header: "@renders? {CardHeader}",
+            children: "@renders* {CardBody}",
+          },
+        },
+        "Menu.Link": { renders: "@renders {MenuItem}" },
+      },
+      "@acme/design-system/layout": {
+        Panel: { props: { children: "@renders* {PanelSection}" } },
+      },
+    });
+  });
+
+  it("warns about annotations targeting components the entry doesn't export", () => {
+    const result = generateAnnotationManifest({ project });
+
+    expect(result.manifest["@acme/design-system"].LegacyItem).toBeUndefined();
+    expect(result.warnings).toEqual([
+      expect.stringContaining("LegacyItem: `@renders {InternalItem}`"),
+    ]);
+  });
+
+  it("uses explicit entries instead of package.json", () => {
+    const result = generateAnnotationManifest({
+      project,
+      entries: { "@acme/layout": "src/layout/index.ts" },
+    });
+
+    expect(result.manifest).toEqual({
+      "@acme/layout": {
+        Panel: { props: { children: "@renders* {PanelSection}" } },
+      },
+    });
+  });
+
+  it("produces manifests the resolver can read", () => {
+    const { manifest } = generateAnnotationManifest({ project });
+    const parsed = parseAnnotationManifest(manifest);
+
+    expect(parsed.get("@acme/design-system")?.get("CardTitle")?.renders).toMatchObject({
+      componentName: "CardHeader",
+      modifier: "required",
+    });
+    expect(parsed.get("@acme/design-system")?.size).toBe(5);
+  });
+
+  it("picks up edited annotations on the next run", () => {
+    const copyDir = fs.mkdtempSync(path.join(os.tmpdir(), "manifest-library-"));
+    try {
+      fs.cpSync(libraryDir, copyDir, { recursive: true });
+      const copyProject = path.join(copyDir, "tsconfig.json");
+      const cardFile = path.join(copyDir, "src/Card.tsx");
+
+      expect(generateAnnotationManifest({ project: copyProject }).manifest["@acme/design-system"].CardTitle)
+        .toEqual({ renders: "@renders {CardHeader}" });
+
+      fs.writeFileSync(
+        cardFile,
+        fs.readFileSync(cardFile, "utf8").replace("/** @renders {CardHeader} */", "/** @renders? {CardHeader} */")
+      );
+
+      expect(generateAnnotationManifest({ project: copyProject }).manifest["@acme/design-system"].CardTitle)
+        .toEqual({ renders: "@renders? {CardHeader}" });
+    } finally {
+      fs.rmSync(copyDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("manifest output", () => {
+  let outDir: string;
+
+  beforeAll(() => {
+    outDir = fs.mkdtempSync(path.join(os.tmpdir(), "render-types-manifest-"));
+  });
+
+  afterAll(() => {
+    fs.rmSync(outDir, { recursive: true, force: true });
+  });
+
+  it("writes the manifest as JSON", () => {
+    const outFile = path.join(outDir, "api.json");
+    const result = writeAnnotationManifest({ project, outFile });
+
+    expect(JSON.parse(fs.readFileSync(outFile, "utf8"))).toEqual(result.manifest);
+  });
+
+  it("runs from the command line", () => {
+    const write = vi.spyOn(ts.sys, "write").mockImplementation(() => {});
+    const outFile = path.join(outDir, "cli.json");
+
+    const exitCode = runManifestCli(["--project", project, "--out", outFile]);
+
+    expect(exitCode).toBe(0);
+    expect(Object.keys(JSON.parse(fs.readFileSync(outFile, "utf8")))).toEqual([
+      "@acme/design-system",
+      "@acme/design-system/layout",
+    ]);
+    expect(write).toHaveBeenCalledWith(expect.stringContaining("warning: @acme/design-system: LegacyItem"));
+    write.mockRestore();
+  });
+
+  it("rejects unknown options and malformed entries", () => {
+    const write = vi.spyOn(ts.sys, "write").mockImplementation(() => {});
+
+    expect(runManifestCli(["--watch"])).toBe(1);
+    expect(runManifestCli(["--entry", "src/index.ts"])).toBe(1);
+    expect(runManifestCli(["--project", path.join(outDir, "missing.json")])).toBe(1);
+    write.mockRestore();
+  });
+});
@@ -1,6 +1,10 @@
 import { describe, it, expect } from "vitest";
 import {
   canRenderComponentTyped,
+  findRenderCycles,
+  findRenderPath,
+  getRenderPathModifier,
+  isModifierAssignable,
   resolveRenderChain,
 } from "../../src/utils/render-chain.js";
 import type { ResolvedRendersAnnotation, ResolvedRenderMap } from "../../src/types/index.js";
@@ -12,12 +16,27 @@ function makeAnnotation(
 ): ResolvedRendersAnnotation {
   return {
     componentName,
+    componentNames: [componentName],
     modifier,
     raw: `@renders${modifier === "optional" ? "?" : modifier === "many" ? "*" : ""} {${componentName}}`,
     targetTypeId,
   };
 }
 
+/** Union annotation with a type ID per member, like the resolver produces */
+function makeUnionAnnotation(members: Record<string, string>): ResolvedRendersAnnotation {
+  const componentNames = Object.keys(members);
+  return {
+    componentName: componentNames[0],
+    componentNames,
+    modifier: "required",
+    raw: `@renders {${componentNames.join(" | ")}}`,
+    targetTypeId: members[componentNames[0]],
+    targetTypeIds: Object.values(members),
+    memberTypeIds: members,
+  };
+}
+
 describe("canRenderComponentTyped", () => {
   describe("direct type ID matching", () => {
     it("should return true for exact type ID match", () => {
@@ -225,6 +244,174 @@ describe("canRenderComponentTyped", () => {
   });
 });
 
+describe("findRenderPath", () => {
+  const header = "/path/Header.tsx:Header";
+
+  it("should return the actual component for a direct type ID match", () => {
+    expect(
+      findRenderPath("Header", "Header", new Map(), {
+        actualTypeId: header,
+        expectedTypeId: header,
+      })
+    ).toEqual(["Header"]);
+  });
+
+  it("should follow the second member of a union", () => {
+    const renderMap: ResolvedRenderMap = new Map([
+      ["Slot", makeUnionAnnotation({ Foo: "/path/Foo.tsx:Foo", Bar: "/path/Bar.tsx:Bar" })],
+      ["/path/Bar.tsx:Bar", makeAnnotation("Header", "required", header)],
+    ]);
+    expect(
+      findRenderPath("Slot", "Header", renderMap, { expectedTypeId: header })
+    ).toEqual(["Slot", "Bar", "Header"]);
+    expect(
+      canRenderComponentTyped("Slot", "Header", renderMap, { expectedTypeId: header })
+    ).toBe(true);
+  });
+
+  it("should report the union member that matched", () => {
+    const renderMap: ResolvedRenderMap = new Map([
+      ["Layout", makeUnionAnnotation({ Footer: "/path/Footer.tsx:Footer", Header: header })],
+    ]);
+    expect(
+      findRenderPath("Layout", "Header", renderMap, { expectedTypeId: header })
+    ).toEqual(["Layout", "Header"]);
+  });
+
+  it("should backtrack out of branches that do not reach the target", () => {
+    const renderMap: ResolvedRenderMap = new Map([
+      ["A", makeUnionAnnotation({ B: "/path/B.tsx:B", C: "/path/C.tsx:C" })],
+      ["/path/B.tsx:B", makeAnnotation("D", "required", "/path/D.tsx:D")],
+      ["/path/C.tsx:C", makeUnionAnnotation({ B: "/path/B.tsx:B", E: "/path/E.tsx:E" })],
+      ["/path/E.tsx:E", makeAnnotation("Header", "required", header)],
+    ]);
+    expect(
+      findRenderPath("A", "Header", renderMap, { expectedTypeId: header })
+    ).toEqual(["A", "C", "E", "Header"]);
+  });
+
+  it("should not confuse components that share a name across files", () => {
+    const renderMap: ResolvedRenderMap = new Map([
+      ["/path/a/Card.tsx:Card", makeAnnotation("Header", "required", header)],
+      ["/path/b/Card.tsx:Card", makeAnnotation("Footer", "required", "/path/Footer.tsx:Footer")],
+    ]);
+    expect(
+      canRenderComponentTyped("Card", "Header", renderMap, {
+        actualTypeId: "/path/a/Card.tsx:Card",
+        expectedTypeId: header,
+      })
+    ).toBe(true);
+    expect(
+      canRenderComponentTyped("Card", "Header", renderMap, {
+        actualTypeId: "/path/b/Card.tsx:Card",
+        expectedTypeId: header,
+      })
+    ).toBe(false);
+  });
+
+  it("should detect cycles per path", () => {
+    const renderMap: ResolvedRenderMap = new Map([
+      ["/path/A.tsx:A", makeUnionAnnotation({ B: "/path/B.tsx:B", C: "/path/C.tsx:C" })],
+      ["/path/B.tsx:B", makeUnionAnnotation({ A: "/path/A.tsx:A", C: "/path/C.tsx:C" })],
+      ["/path/C.tsx:C", makeUnionAnnotation({ A: "/path/A.tsx:A", B: "/path/B.tsx:B" })],
+    ]);
+    expect(
+      findRenderPath("A", "Header", renderMap, {
+        actualTypeId: "/path/A.tsx:A",
+        expectedTypeId: header,
+      })
+    ).toBeNull();
+  });
+
+  it("should apply maxDepth to each path", () => {
+    const renderMap: ResolvedRenderMap = new Map([
+      ["A", makeUnionAnnotation({ B: "/path/B.tsx:B", C: "/path/C.tsx:C" })],
+      ["/path/C.tsx:C", makeAnnotation("Header", "required", header)],
+    ]);
+    expect(
+      findRenderPath("A", "Header", renderMap, { expectedTypeId: header }, 1)
+    ).toBeNull();
+    expect(
+      findRenderPath("A", "Header", renderMap, { expectedTypeId: header }, 2)
+    ).toEqual(["A", "C", "Header"]);
+  });
+
+  it("should fall back to whole-annotation matching without member type IDs", () => {
+    const renderMap: ResolvedRenderMap = new Map([
+      [
+        "Layout",
+        {
+          ...makeAnnotation("Footer"),
+          componentNames: ["Footer", "Header"],
+          targetTypeIds: ["/path/Footer.tsx:Footer", header],
+        },
+      ],
+    ]);
+    expect(
+      findRenderPath("Layout", "Header", renderMap, { expectedTypeId: header })
+    ).toEqual(["Layout", "Header"]);
+  });
+});
+
+describe("modifier-aware chains", () => {
+  const header = "/path/Header.tsx:Header";
+
+  it("should order modifiers as required ⊂ optional ⊂ many", () => {
+    expect(isModifierAssignable("required", "optional")).toBe(true);
+    expect(isModifierAssignable("optional", "many")).toBe(true);
+    expect(isModifierAssignable("optional", "required")).toBe(false);
+    expect(isModifierAssignable("many", "optional")).toBe(false);
+  });
+
+  it("should reject wider annotations when expectedModifier is set", () => {
+    const renderMap: ResolvedRenderMap = new Map([
+      ["MaybeHeader", makeAnnotation("Header", "optional", header)],
+    ]);
+    expect(
+      canRenderComponentTyped("MaybeHeader", "Header", renderMap, {
+        expectedTypeId: header,
+        expectedModifier: "required",
+      })
+    ).toBe(false);
+    expect(
+      canRenderComponentTyped("MaybeHeader", "Header", renderMap, {
+        expectedTypeId: header,
+        expectedModifier: "optional",
+      })
+    ).toBe(true);
+  });
+
+  it("should widen cardinality along the whole chain", () => {
+    const renderMap: ResolvedRenderMap = new Map([
+      ["A", makeAnnotation("B", "required", "/path/B.tsx:B")],
+      ["B", makeAnnotation("Header", "many", header)],
+    ]);
+    const path = findRenderPath("A", "Header", renderMap, { expectedTypeId: header });
+    expect(path).toEqual(["A", "B", "Header"]);
+    expect(getRenderPathModifier(path!, renderMap)).toBe("many");
+    expect(
+      findRenderPath("A", "Header", renderMap, {
+        expectedTypeId: header,
+        expectedModifier: "optional",
+      })
+    ).toBeNull();
+  });
+
+  it("should prefer a union branch whose cardinality fits", () => {
+    const renderMap: ResolvedRenderMap = new Map([
+      ["Slot", makeUnionAnnotation({ Many: "/path/Many.tsx:Many", One: "/path/One.tsx:One" })],
+      ["/path/Many.tsx:Many", makeAnnotation("Header", "many", header)],
+      ["/path/One.tsx:One", makeAnnotation("Header", "required", header)],
+    ]);
+    expect(
+      findRenderPath("Slot", "Header", renderMap, {
+        expectedTypeId: header,
+        expectedModifier: "required",
+      })
+    ).toEqual(["Slot", "One", "Header"]);
+  });
+});
+
 describe("resolveRenderChain", () => {
   it("should return empty array for component not in map", () => {
     const renderMap: ResolvedRenderMap = new Map();
@@ -264,4 +451,62 @@ describe("resolveRenderChain", () => {
     ]);
     expect(resolveRenderChain("A", renderMap, 2)).toEqual(["B", "C"]);
   });
+
+  it("should include every union member, nearest first", () => {
+    const renderMap: ResolvedRenderMap = new Map([
+      ["A", makeUnionAnnotation({ B: "/path/B.tsx:B", C: "/path/C.tsx:C" })],
+      ["/path/B.tsx:B", makeUnionAnnotation({ D: "/path/D.tsx:D" })],
+      ["/path/C.tsx:C", makeUnionAnnotation({ D: "/path/D.tsx:D", E: "/path/E.tsx:E" })],
+    ]);
+    expect(resolveRenderChain("A", renderMap)).toEqual(["B", "C", "D", "E"]);
+  });
+});
+
+describe("findRenderCycles", () => {
+  it("should return no cycles for an acyclic chain", () => {
+    const renderMap: ResolvedRenderMap = new Map([
+      ["A", makeAnnotation("B")],
+      ["B", makeAnnotation("C")],
+    ]);
+    expect(findRenderCycles("B", renderMap)).toEqual([]);
+  });
+
+  it("should find a component rendering itself", () => {
+    const renderMap: ResolvedRenderMap = new Map([["A", makeAnnotation("A")]]);
+    expect(findRenderCycles("A", renderMap)).toEqual([{ member: "A", path: ["A", "A"] }]);
+  });
+
+  it("should attribute a cycle to the annotation pointing at its smallest key", () => {
+    const renderMap: ResolvedRenderMap = new Map([
+      ["A", makeAnnotation("B")],
+      ["B", makeAnnotation("C")],
+      ["C", makeAnnotation("A")],
+    ]);
+    expect(findRenderCycles("A", renderMap)).toEqual([]);
+    expect(findRenderCycles("B", renderMap)).toEqual([]);
+    expect(findRenderCycles("C", renderMap)).toEqual([{ member: "A", path: ["A", "B", "C", "A"] }]);
+  });
+
+  it("should follow union members by type ID across files", () => {
+    const renderMap: ResolvedRenderMap = new Map([
+      ["/a/Menu.tsx:Menu", makeUnionAnnotation({ Item: "/b/Item.tsx:Item", Divider: "/c/Divider.tsx:Divider" })],
+      ["/c/Divider.tsx:Divider", makeUnionAnnotation({ Separator: "/d/Separator.tsx:Separator" })],
+      ["/d/Separator.tsx:Separator", makeUnionAnnotation({ Menu: "/a/Menu.tsx:Menu" })],
+    ]);
+    expect(findRenderCycles("/d/Separator.tsx:Separator", renderMap)).toEqual([
+      { member: "Menu", path: ["Menu", "Divider", "Separator", "Menu"] },
+    ]);
+    expect(findRenderCycles("/a/Menu.tsx:Menu", renderMap)).toEqual([]);
+  });
+
+  it("should ignore cycles longer than maxDepth", () => {
+    const renderMap: ResolvedRenderMap = new Map([
+      ["A", makeAnnotation("B")],
+      ["B", makeAnnotation("C")],
+      ["C", makeAnnotation("D")],
+      ["D", makeAnnotation("A")],
+    ]);
+    expect(findRenderCycles("D", renderMap, 2)).toEqual([]);
+    expect(findRenderCycles("D", renderMap)).toEqual([{ member: "A", path: ["A", "B", "C", "D", "A"] }]);
+  });
 });
@@ -152,4 +152,64 @@ describe("getPluginSettings", () => {
     // Empty string prop causes the entry to be rejected
     expect(result.transparentComponentsMap.size).toBe(0);
   });
+
+  it("returns an empty manifest when externalAnnotations is not set", () => {
+    const result = getPluginSettings({});
+    expect(result.externalAnnotations.size).toBe(0);
+  });
+
+  it("parses externalAnnotations by module specifier and export name", () => {
+    const result = getPluginSettings({
+      "react-render-types": {
+        externalAnnotations: {
+          "@acme/ui": {
+            Card: { props: { header: "@renders {CardHeader}" } },
+            CardTitle: { renders: "@renders? {CardHeader}" },
+            Box: { transparent: true },
+            Flag: { transparent: ["off", "children"] },
+          },
+        },
+      },
+    });
+    const entries = result.externalAnnotations.get("@acme/ui");
+    expect(entries?.get("Card")?.props?.get("header")).toMatchObject({
+      componentName: "CardHeader",
+      modifier: "required",
+    });
+    expect(entries?.get("CardTitle")?.renders).toMatchObject({
+      componentName: "CardHeader",
+      modifier: "optional",
+    });
+    expect(entries?.get("Box")?.transparent).toEqual({ propNames: ["children"] });
+    expect(entries?.get("Flag")?.transparent).toEqual({ propNames: ["off", "children"] });
+  });
+
+  it("skips malformed externalAnnotations entries", () => {
+    const result = getPluginSettings({
+      "react-render-types": {
+        externalAnnotations: {
+          "@acme/ui": {
+            Card: { renders: "{CardHeader}" },
+            Box: { transparent: ["not a prop"] },
+            Button: "Header",
+          },
+          "@acme/layout": [],
+        },
+      },
+    });
+    expect(result.externalAnnotations.size).toBe(0);
+  });
+
+  it("returns null cacheDirectory when not set", () => {
+    expect(getPluginSettings({}).cacheDirectory).toBeNull();
+  });
+
+  it("parses cacheDirectory and ignores non-string or empty values", () => {
+    expect(
+      getPluginSettings({ "react-render-types": { cacheDirectory: ".cache/render-types" } })
+        .cacheDirectory
+    ).toBe(".cache/render-types");
+    expect(getPluginSettings({ "react-render-types": { cacheDirectory: "" } }).cacheDirectory).toBeNull();
+    expect(getPluginSettings({ "react-render-types": { cacheDirectory: true } }).cacheDirectory).toBeNull();
+  });
 });
@@ -0,0 +1,147 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import ts from "typescript";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  clearAnnotationCache,
+  createCrossFileResolver,
+} from "../../src/utils/cross-file-resolver.js";
+
+describe("persistent summary cache", () => {
+  let projectDir: string;
+  let cacheDirectory: string;
+
+  const compilerOptions: ts.CompilerOptions = {
+    jsx: ts.JsxEmit.ReactJSX,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    noEmit: true,
+  };
+
+  function writeFile(name: string, text: string): void {
+    fs.writeFileSync(path.join(projectDir, name), text);
+  }
+
+  /**
+   * Lint "run": a fresh program and resolver, as a new process or worker
+   * would create, resolving the annotation of the imported Title component.
+   */
+  function resolveTitle(
+    options: ts.CompilerOptions = compilerOptions,
+    additionalComponentWrappers?: Set<string>
+  ) {
+    clearAnnotationCache();
+    const program = ts.createProgram([path.join(projectDir, "consumer.tsx")], options);
+    const resolver = createCrossFileResolver({
+      parserServices: { program },
+      filename: path.join(projectDir, "consumer.tsx"),
+      cacheDirectory,
+      additionalComponentWrappers,
+    });
+    const typeId = resolver.getComponentTypeId("Title");
+    return typeId ? resolver.buildResolvedRenderMap(new Map()).get(typeId) : undefined;
+  }
+
+  /**
+   * Rewrite the stored summaries, so a run that reuses them is observable
+   */
+  function tamperWithSummaries(): void {
+    for (const entry of fs.readdirSync(cacheDirectory)) {
+      const entryPath = path.join(cacheDirectory, entry);
+      const text = fs.readFileSync(entryPath, "utf8");
+      fs.writeFileSync(entryPath, text.replaceAll('"componentName":"Header"', '"componentName":"FromCache"'));
+    }
+  }
+
+  beforeEach(() => {
+    projectDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "render-types-project-")));
+    cacheDirectory = path.join(projectDir, ".cache/react-render-types");
+
+    writeFile("Header.tsx", "export function Header() { return <h1 />; }\n");
+    writeFile("Header2.tsx", "export function Header() { return <h2 />; }\n");
+    writeFile("barrel.ts", 'export { Header } from "./Header";\n');
+    writeFile(
+      "Title.tsx",
+      'import { Header } from "./barrel";\n\n/** @renders {Header} */\nexport function Title() { return <Header />; }\n'
+    );
+    writeFile("consumer.tsx", 'import { Title } from "./Title";\n\nexport const page = <Title />;\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectDir, { recursive: true, force: true });
+    clearAnnotationCache();
+  });
+
+  it("writes file summaries to the cache directory", () => {
+    const annotation = resolveTitle();
+
+    expect(annotation?.componentName).toBe("Header");
+    expect(annotation?.targetTypeId).toBe(`${projectDir}/Header.tsx:Header`);
+    expect(fs.readdirSync(cacheDirectory).length).toBeGreaterThan(0);
+  });
+
+  it("reuses summaries on a rerun", () => {
+    resolveTitle();
+    tamperWithSummaries();
+
+    expect(resolveTitle()?.componentName).toBe("FromCache");
+  });
+
+  it("invalidates a summary when its file changes", () => {
+    resolveTitle();
+    tamperWithSummaries();
+    writeFile(
+      "Title.tsx",
+      'import { Header } from "./barrel";\n\n/** @renders? {Header} */\nexport function Title() { return <Header />; }\n'
+    );
+
+    const annotation = resolveTitle();
+    expect(annotation?.componentName).toBe("Header");
+    expect(annotation?.modifier).toBe("optional");
+  });
+
+  it("invalidates a summary when a dependency changes", () => {
+    resolveTitle();
+    tamperWithSummaries();
+    writeFile("barrel.ts", 'export { Header } from "./Header2";\n');
+
+    const annotation = resolveTitle();
+    expect(annotation?.componentName).toBe("Header");
+    expect(annotation?.targetTypeId).toBe(`${projectDir}/Header2.tsx:Header`);
+  });
+
+  it("invalidates summaries when compiler options change", () => {
+    resolveTitle();
+    tamperWithSummaries();
+
+    expect(resolveTitle({ ...compilerOptions, strict: true })?.componentName).toBe("Header");
+  });
+
+  it("invalidates summaries when additionalComponentWrappers change", () => {
+    writeFile(
+      "Header.tsx",
+      "declare function withTheme<T>(component: T): T;\n\n" +
+        "function HeaderBase() { return <h1 />; }\n\nexport default withTheme(HeaderBase);\n"
+    );
+    writeFile(
+      "Title.tsx",
+      'import Header from "./Header";\n\n/** @renders {Header} */\nexport function Title() { return <Header />; }\n'
+    );
+
+    // The default export resolves to the wrapped component only when the wrapper is configured
+    expect(resolveTitle(compilerOptions, new Set(["withTheme"]))?.targetTypeId).toBe(
+      `${projectDir}/Header.tsx:HeaderBase`
+    );
+    expect(resolveTitle(compilerOptions, new Set())?.targetTypeId).toBe(`${projectDir}/Header.tsx:default`);
+  });
+
+  it("ignores corrupted summaries", () => {
+    resolveTitle();
+    for (const entry of fs.readdirSync(cacheDirectory)) {
+      fs.writeFileSync(path.join(cacheDirectory, entry), "{ not json");
+    }
+
+    expect(resolveTitle()?.componentName).toBe("Header");
+  });
+});
@@ -1,6 +1,10 @@
 import { defineConfig } from "vitest/config";
 
 export default defineConfig({
+  // Also transform .cts sources (shared with the CommonJS language service plugin)
+  esbuild: {
+    include: /\.(m?ts|cts|[jt]sx)$/,
+  },
   test: {
     globals: true,
     environment: "node",
@@ -8,7 +12,7 @@ export default defineConfig({
     coverage: {
       provider: "v8",
       reporter: ["text", "json", "html"],
-      include: ["src/**/*.ts"],
+      include: ["src/**/*.ts", "src/**/*.cts"],
       exclude: ["src/index.ts"],
     },
   },